@@ -19,11 +19,116 @@ const allowedDomains = process.env.ALLOWED_DOMAINS
 			'api.deezer.com',
 			'link.deezer.com',
 			'www.deezer.com',
+			'spotify.link',
+			'spoti.fi',
 			'www.youtube.com',
 			'music.youtube.com',
 			'youtube.com',
+			// Cover art CDNs, fetched for artwork comparison
+			'i.scdn.co',
+			'image-cdn-ak.spotifycdn.com',
+			'image-cdn-fa.spotifycdn.com',
+			'e-cdns-images.dzcdn.net',
+			'cdn-images.dzcdn.net',
+			'i.ytimg.com',
+			'lh3.googleusercontent.com',
 		];
 
+// Hosts the client's bearer token may be forwarded to; other allowed domains
+// (cover CDNs, ...) never receive it
+const authorizationHosts = ['api.spotify.com'];
+
+/**
+ * Check that a target URL is well-formed and belongs to an allowed domain
+ * @returns null when valid, otherwise the status and body to respond with
+ */
+function validateTargetUrl(url) {
+	try {
+		const urlObj = new URL(url);
+		const isAllowed = allowedDomains.some(
+			(domain) =>
+				urlObj.hostname.toLowerCase() === domain ||
+				urlObj.hostname.toLowerCase().endsWith(`.${domain}`),
+		);
+
+		if (!isAllowed) {
+			return {
+				status: 403,
+				body: {
+					error: 'Domain not allowed',
+					message: 'Only music service domains are permitted',
+				},
+			};
+		}
+	} catch (_error) {
+		return {
+			status: 400,
+			body: {
+				error: 'Invalid URL format',
+				message: 'Please provide a valid URL',
+			},
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Find the canonical URL announced by an HTML page (og:url, canonical link
+ * or meta refresh)
+ */
+function findCanonicalUrl(html) {
+	if (typeof html !== 'string') return null;
+
+	const patterns = [
+		/<meta[^>]+property=["']og:url["'][^>]+content=["']([^"']+)["']/i,
+		/<link[^>]+rel=["']canonical["'][^>]+href=["']([^"']+)["']/i,
+		/<meta[^>]+http-equiv=["']refresh["'][^>]+content=["'][^"']*url=([^"']+)["']/i,
+	];
+
+	for (const pattern of patterns) {
+		const match = html.match(pattern);
+		if (match?.[1]) {
+			return match[1].replace(/&amp;/g, '&');
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Translate an axios error into the proxy's JSON error responses
+ */
+function sendUpstreamError(res, error) {
+	if (error.response) {
+		// Forward the error status from the target
+		res.status(error.response.status).json({
+			error: 'Target server error',
+			status: error.response.status,
+			message: error.message,
+			proxy: 'MusicConverter-Backend',
+		});
+	} else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+		res.status(408).json({
+			error: 'Request timeout',
+			message: 'The target server took too long to respond',
+			proxy: 'MusicConverter-Backend',
+		});
+	} else if (error.code === 'ENOTFOUND') {
+		res.status(404).json({
+			error: 'Domain not found',
+			message: 'The requested domain could not be resolved',
+			proxy: 'MusicConverter-Backend',
+		});
+	} else {
+		res.status(500).json({
+			error: 'Proxy server error',
+			message: error.message,
+			proxy: 'MusicConverter-Backend',
+		});
+	}
+}
+
 // Middleware
 app.use(
 	cors({
@@ -55,30 +160,17 @@ app.get('/proxy', async (req, res) => {
 		}
 
 		// Validate URL to prevent abuse (domains defined at module level)
-
-		try {
-			const urlObj = new URL(url);
-			const isAllowed = allowedDomains.some(
-				(domain) =>
-					urlObj.hostname.toLowerCase() === domain ||
-					urlObj.hostname.toLowerCase().endsWith(`.${domain}`),
-			);
-
-			if (!isAllowed) {
-				return res.status(403).json({
-					error: 'Domain not allowed',
-					message: 'Only music service domains are permitted',
-				});
-			}
-		} catch (_error) {
-			return res.status(400).json({
-				error: 'Invalid URL format',
-				message: 'Please provide a valid URL',
-			});
+		const validationError = validateTargetUrl(url);
+		if (validationError) {
+			return res.status(validationError.status).json(validationError.body);
 		}
 
 		console.log(`🔄 Proxying request to: ${url}`);
 
+		const forwardsAuthorization =
+			!!req.headers.authorization &&
+			authorizationHosts.includes(new URL(url).hostname.toLowerCase());
+
 		// Make the request to the target URL
 		const response = await axios.get(url, {
 			timeout: parseInt(process.env.REQUEST_TIMEOUT, 10) || 15000, // Configurable timeout (default 15 seconds)
@@ -87,7 +179,13 @@ app.get('/proxy', async (req, res) => {
 				'User-Agent': process.env.USER_AGENT || 'MusicConverter-Backend/1.0',
 				Accept: 'application/json, text/html, */*',
 				'Cache-Control': 'no-cache',
+				// Forward bearer tokens (anonymous Spotify web tokens) to the API only
+				...(forwardsAuthorization
+					? { Authorization: req.headers.authorization }
+					: {}),
 			},
+			// Raw bytes, so binary targets (cover images) are passed through intact
+			responseType: 'arraybuffer',
 			validateStatus: (status) => status >= 200 && status < 400,
 		});
 
@@ -102,37 +200,134 @@ app.get('/proxy', async (req, res) => {
 		});
 
 		// Send the response data
-		res.status(response.status).send(response.data);
+		res.status(response.status).send(Buffer.from(response.data));
 	} catch (error) {
 		console.error('❌ Proxy error:', error.message);
+		sendUpstreamError(res, error);
+	}
+});
 
-		if (error.response) {
-			// Forward the error status from the target
-			res.status(error.response.status).json({
-				error: 'Target server error',
-				status: error.response.status,
-				message: error.message,
-				proxy: 'MusicConverter-Backend',
-			});
-		} else if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
-			res.status(408).json({
-				error: 'Request timeout',
-				message: 'The target server took too long to respond',
-				proxy: 'MusicConverter-Backend',
+// JSON POST proxy - for APIs queried with a request body, such as YouTube
+// Music's InnerTube endpoints (youtubei/v1/search, player, next, browse)
+app.post('/proxy', async (req, res) => {
+	try {
+		const { url } = req.query;
+
+		if (!url) {
+			return res.status(400).json({
+				error: 'URL parameter is required',
+				usage: 'POST /proxy?url=<encoded-url> with a JSON body',
 			});
-		} else if (error.code === 'ENOTFOUND') {
-			res.status(404).json({
-				error: 'Domain not found',
-				message: 'The requested domain could not be resolved',
-				proxy: 'MusicConverter-Backend',
+		}
+
+		const validationError = validateTargetUrl(url);
+		if (validationError) {
+			return res.status(validationError.status).json(validationError.body);
+		}
+
+		console.log(`🔄 Proxying POST request to: ${url}`);
+
+		// InnerTube rejects requests that don't come from its own origin
+		const { origin } = new URL(url);
+		const response = await axios.post(url, req.body ?? {}, {
+			timeout: parseInt(process.env.REQUEST_TIMEOUT, 10) || 15000,
+			maxRedirects: parseInt(process.env.MAX_REDIRECTS, 10) || 5,
+			headers: {
+				'User-Agent': process.env.USER_AGENT || 'MusicConverter-Backend/1.0',
+				Accept: 'application/json, */*',
+				'Content-Type': 'application/json',
+				Origin: origin,
+				Referer: `${origin}/`,
+			},
+			responseType: 'arraybuffer',
+			validateStatus: (status) => status >= 200 && status < 400,
+		});
+
+		console.log(`✅ Proxy success: ${response.status} for POST ${url}`);
+
+		res.set({
+			'Content-Type': response.headers['content-type'] || 'application/json',
+			'Cache-Control': 'no-cache',
+			'X-Proxy-Service': 'MusicConverter-Backend',
+		});
+		res.status(response.status).send(Buffer.from(response.data));
+	} catch (error) {
+		console.error('❌ Proxy error:', error.message);
+		sendUpstreamError(res, error);
+	}
+});
+
+// Redirect resolver - follows short links (spotify.link, spoti.fi, ...) and
+// returns the canonical URL they point to
+app.get('/resolve', async (req, res) => {
+	try {
+		const { url } = req.query;
+
+		if (!url) {
+			return res.status(400).json({
+				error: 'URL parameter is required',
+				usage: '/resolve?url=<encoded-url>',
 			});
-		} else {
-			res.status(500).json({
-				error: 'Proxy server error',
-				message: error.message,
-				proxy: 'MusicConverter-Backend',
+		}
+
+		const validationError = validateTargetUrl(url);
+		if (validationError) {
+			return res.status(validationError.status).json(validationError.body);
+		}
+
+		console.log(`🔄 Resolving redirects for: ${url}`);
+
+		// Redirects are followed one hop at a time so every Location is checked
+		// against the allowed domains before it is requested
+		const maxRedirects = parseInt(process.env.MAX_REDIRECTS, 10) || 5;
+		let resolvedUrl = url;
+		let response;
+
+		for (let hop = 0; ; hop++) {
+			response = await axios.get(resolvedUrl, {
+				timeout: parseInt(process.env.REQUEST_TIMEOUT, 10) || 15000,
+				maxRedirects: 0,
+				headers: {
+					'User-Agent': process.env.USER_AGENT || 'MusicConverter-Backend/1.0',
+					Accept: 'text/html, */*',
+				},
+				validateStatus: (status) => status >= 200 && status < 400,
 			});
+
+			const location = response.headers.location;
+			if (response.status < 300 || !location) break;
+
+			if (hop >= maxRedirects) {
+				return res.status(508).json({
+					error: 'Too many redirects',
+					message: `Gave up after ${maxRedirects} redirects`,
+				});
+			}
+
+			resolvedUrl = new URL(location, resolvedUrl).toString();
+			const redirectError = validateTargetUrl(resolvedUrl);
+			if (redirectError) {
+				console.warn(`⛔ Redirect to disallowed URL: ${resolvedUrl}`);
+				return res.status(redirectError.status).json(redirectError.body);
+			}
+		}
+
+		// Some short-link services answer with an HTML interstitial instead of
+		// an HTTP redirect; read the canonical target from the page in that case
+		if (new URL(resolvedUrl).hostname === new URL(url).hostname) {
+			resolvedUrl = findCanonicalUrl(response.data) || resolvedUrl;
 		}
+
+		console.log(`✅ Resolved ${url} -> ${resolvedUrl}`);
+
+		res.set({
+			'Cache-Control': 'no-cache',
+			'X-Proxy-Service': 'MusicConverter-Backend',
+		});
+		res.json({ url: resolvedUrl, original: url });
+	} catch (error) {
+		console.error('❌ Resolve error:', error.message);
+		sendUpstreamError(res, error);
 	}
 });
 
@@ -140,7 +335,8 @@ app.get('/proxy', async (req, res) => {
 app.use('*', (_req, res) => {
 	res.status(404).json({
 		error: 'Endpoint not found',
-		message: 'Use /proxy?url=<encoded-url> for API requests',
+		message:
+			'Use /proxy?url=<encoded-url> for API requests or /resolve?url=<encoded-url> for short links',
 		usage: '/proxy?url=https://api.deezer.com/search?q=track',
 	});
 });
@@ -154,6 +350,9 @@ app.listen(PORT, () => {
 	console.log(
 		`🔗 Proxy endpoint: http://localhost:${PORT}/proxy?url=<encoded-url>`,
 	);
+	console.log(
+		`↪️ Resolve endpoint: http://localhost:${PORT}/resolve?url=<encoded-url>`,
+	);
 	console.log(`🛡️ Allowed domains: ${allowedDomains.join(', ')}`);
 });
 
@@ -0,0 +1,129 @@
+/**
+ * Measures matcher profiles against the labelled calibration dataset
+ *
+ * Usage: pnpm calibrate [profile name...]
+ * Runs every profile by default and reports, for each one:
+ * - top-1 accuracy: the correct candidate is ranked first (labelled cases)
+ * - precision: accepted (high-quality) top matches that are correct
+ * - recall: labelled cases whose correct candidate is accepted as top match
+ */
+import dataset from '../fixtures/calibration/deezer-tracks.json';
+import { MatchingEngine } from '../src/matching/matchingEngine';
+import { MATCHER_PROFILES } from '../src/matching/profiles';
+import type { AlbumType, MatcherProfile } from '../src/types/matching.types';
+
+interface ProfileReport {
+	profile: string;
+	top1Accuracy: number;
+	precision: number;
+	recall: number;
+	errors: string[];
+}
+
+const ratio = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+
+function evaluateProfile(profile: MatcherProfile): ProfileReport {
+	const engine = new MatchingEngine({ profile });
+
+	let labelled = 0;
+	let rankedFirst = 0;
+	let accepted = 0;
+	let correct = 0;
+	const errors: string[] = [];
+
+	for (const testCase of dataset.cases) {
+		const { highQuality, exploreMore } = engine.match(
+			testCase.source,
+			testCase.candidates.map((candidate) => ({
+				item: candidate.id,
+				track: {
+					title: candidate.title,
+					artists: [candidate.artist],
+					album: candidate.album,
+					albumArtist:
+						'albumArtist' in candidate ? candidate.albumArtist : undefined,
+					albumType:
+						'albumType' in candidate
+							? (candidate.albumType as AlbumType)
+							: undefined,
+					releaseDate:
+						'releaseDate' in candidate ? candidate.releaseDate : undefined,
+					durationMs: candidate.duration * 1000,
+					explicit: 'explicit' in candidate ? candidate.explicit : undefined,
+				},
+				coverSimilarity:
+					'coverSimilarity' in candidate
+						? candidate.coverSimilarity
+						: undefined,
+			})),
+		);
+
+		const top = highQuality[0] ?? exploreMore[0];
+		const acceptedMatch = highQuality[0];
+
+		if (testCase.expectedId !== null) {
+			labelled++;
+			if (top?.item === testCase.expectedId) {
+				rankedFirst++;
+			}
+		}
+
+		if (acceptedMatch) {
+			accepted++;
+			if (acceptedMatch.item === testCase.expectedId) {
+				correct++;
+			} else {
+				errors.push(
+					`${testCase.id}: accepted ${acceptedMatch.item} (score ${acceptedMatch.score}), expected ${testCase.expectedId ?? 'no match'}`,
+				);
+			}
+		} else if (testCase.expectedId !== null) {
+			errors.push(
+				`${testCase.id}: no high-quality match, expected ${testCase.expectedId} (best score ${top?.score ?? 0})`,
+			);
+		}
+	}
+
+	return {
+		profile: profile.name,
+		top1Accuracy: ratio(rankedFirst, labelled),
+		precision: ratio(correct, accepted),
+		recall: ratio(correct, labelled),
+		errors,
+	};
+}
+
+const requested = process.argv.slice(2);
+const profiles = requested.length
+	? MATCHER_PROFILES.filter((profile) => requested.includes(profile.name))
+	: MATCHER_PROFILES;
+
+if (profiles.length === 0) {
+	console.error(
+		`Unknown profile. Available: ${MATCHER_PROFILES.map((profile) => profile.name).join(', ')}`,
+	);
+	process.exit(1);
+}
+
+console.log(
+	`\nCalibration dataset: ${dataset.cases.length} cases (${dataset.cases.filter((testCase) => testCase.expectedId !== null).length} with a correct candidate)\n`,
+);
+console.log('  profile      top-1  precision   recall');
+
+const reports = profiles.map(evaluateProfile);
+for (const report of reports) {
+	console.log(
+		`  ${report.profile.padEnd(10)}${percent(report.top1Accuracy)}    ${percent(report.precision)}  ${percent(report.recall)}`,
+	);
+}
+
+for (const report of reports) {
+	if (report.errors.length > 0) {
+		console.log(`\n${report.profile}:`);
+		for (const error of report.errors) {
+			console.log(`  - ${error}`);
+		}
+	}
+}
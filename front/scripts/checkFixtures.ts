@@ -0,0 +1,373 @@
+/**
+ * Checks the fixtures against the current normalization, scoring and
+ * Spotify page and YouTube Music response parsers
+ *
+ * Usage: pnpm check:fixtures
+ * Exits with a non-zero code when any fixture falls outside its expected range.
+ */
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
+import { decode } from 'jpeg-js';
+import coverPairs from '../fixtures/cover-pairs.json';
+import crossScriptTitles from '../fixtures/cross-script-titles.json';
+import multilingualTitles from '../fixtures/multilingual-titles.json';
+import spotifyPages from '../fixtures/spotify-pages.json';
+import youtubeMusicResponses from '../fixtures/youtube-music-responses.json';
+import youtubeTitles from '../fixtures/youtube-titles.json';
+import { compareCoverHashes, computeDHash } from '../src/utils/coverHash';
+import { createKanjiReadingProvider } from '../src/utils/kanjiReadings';
+import {
+	parseSpotifyCollectionPage,
+	parseSpotifyPageMetadata,
+} from '../src/utils/spotifyMetadata';
+import {
+	calculateCrossScriptSimilarity,
+	calculateSimilarity,
+	normalizeString,
+} from '../src/utils/textNormalization';
+import {
+	setReadingProvider,
+	transliterate,
+} from '../src/utils/transliteration';
+import {
+	parseArtistPage,
+	parseCollectionPage,
+	parseSearchArtists,
+	parseSearchSongs,
+	parseWatchSong,
+} from '../src/utils/youtubeMusicMetadata';
+import { parseYouTubeTitle } from '../src/utils/youtubeTitleParser';
+
+interface FixtureFailure {
+	fixture: string;
+	detail: string;
+}
+
+const failures: FixtureFailure[] = [];
+
+function checkMultilingualTitles(): void {
+	const { minMatchScore, maxMismatchScore, pairs } = multilingualTitles;
+
+	console.log('\nMultilingual title pairs');
+	for (const pair of pairs) {
+		const score = calculateSimilarity(pair.source, pair.candidate);
+		const passed =
+			pair.expect === 'match'
+				? score >= minMatchScore
+				: score <= maxMismatchScore;
+
+		console.log(
+			`  ${passed ? '✅' : '❌'} [${pair.script}] ${pair.expect.padEnd(8)} ${String(score).padStart(3)}  "${pair.source}" ↔ "${pair.candidate}"  (${normalizeString(pair.source)} | ${normalizeString(pair.candidate)})`,
+		);
+
+		if (!passed) {
+			failures.push({
+				fixture: 'multilingual-titles',
+				detail: `"${pair.source}" vs "${pair.candidate}" scored ${score}, expected ${pair.expect}`,
+			});
+		}
+	}
+}
+
+async function checkCrossScriptTitles(): Promise<void> {
+	const { minMatchScore, maxMismatchScore, pairs } = crossScriptTitles;
+	// Same kanji reading provider as the app, from the installed dictionary
+	const dicPath = join(
+		dirname(createRequire(import.meta.url).resolve('kuromoji/package.json')),
+		'dict',
+	);
+	setReadingProvider(await createKanjiReadingProvider(dicPath));
+
+	console.log('\nCross-script title pairs');
+	for (const pair of pairs) {
+		const score = calculateCrossScriptSimilarity(pair.source, pair.candidate);
+		const passed =
+			pair.expect === 'match'
+				? score >= minMatchScore
+				: score <= maxMismatchScore;
+
+		// Known failures need a reading the analyzer doesn't have: reported only
+		const isKnownFailure = !passed && pair.knownFailure === true;
+		console.log(
+			`  ${passed ? '✅' : isKnownFailure ? '⚠️' : '❌'} [${pair.script}] ${pair.expect.padEnd(8)} ${String(score).padStart(3)}  "${pair.source}" ↔ "${pair.candidate}"  (${transliterate(pair.candidate)})${isKnownFailure ? '  known failure' : ''}`,
+		);
+
+		if (!passed && !isKnownFailure) {
+			failures.push({
+				fixture: 'cross-script-titles',
+				detail: `"${pair.source}" vs "${pair.candidate}" scored ${score}, expected ${pair.expect}`,
+			});
+		}
+	}
+	setReadingProvider(null);
+}
+
+function checkYouTubeTitles(): void {
+	console.log('\nYouTube titles');
+	for (const fixture of youtubeTitles.cases) {
+		const parsed = parseYouTubeTitle(fixture.title, fixture.channel);
+		const expectedFeaturing = fixture.featuring ?? [];
+		const passed =
+			parsed.artists.join('|') === fixture.artists.join('|') &&
+			parsed.title === fixture.song &&
+			parsed.featuring.join('|') === expectedFeaturing.join('|');
+
+		console.log(
+			`  ${passed ? '✅' : '❌'} "${fixture.title}" [${fixture.channel}] → ${parsed.artists.join(', ')} / "${parsed.title}"${parsed.featuring.length > 0 ? ` feat. ${parsed.featuring.join(', ')}` : ''}`,
+		);
+
+		if (!passed) {
+			failures.push({
+				fixture: 'youtube-titles',
+				detail: `"${fixture.title}" parsed as ${parsed.artists.join(', ')} / "${parsed.title}", expected ${fixture.artists.join(', ')} / "${fixture.song}"`,
+			});
+		}
+	}
+}
+
+/**
+ * Decode a JPEG fixture and hash it
+ */
+function hashCoverFixture(path: string): string {
+	const file = readFileSync(new URL(`../fixtures/${path}`, import.meta.url));
+	return computeDHash(decode(file, { useTArray: true }));
+}
+
+function checkCoverPairs(): void {
+	const { minIdenticalScore, maxDifferentScore, pairs } = coverPairs;
+
+	console.log('\nCover art pairs');
+	for (const pair of pairs) {
+		const sourceHash = hashCoverFixture(pair.source);
+		const candidateHash = hashCoverFixture(pair.candidate);
+		const score = compareCoverHashes(sourceHash, candidateHash);
+		const passed =
+			pair.expect === 'identical'
+				? score >= minIdenticalScore
+				: score <= maxDifferentScore;
+
+		console.log(
+			`  ${passed ? '✅' : '❌'} ${pair.expect.padEnd(9)} ${String(score).padStart(3)}  ${pair.source} ↔ ${pair.candidate}  (${pair.note})`,
+		);
+
+		if (!passed) {
+			failures.push({
+				fixture: 'cover-pairs',
+				detail: `${pair.source} vs ${pair.candidate} scored ${score}, expected ${pair.expect}`,
+			});
+		}
+	}
+}
+
+/**
+ * Serialize a value with sorted object keys, so parsed and expected objects
+ * compare regardless of key order (undefined fields are dropped)
+ */
+function canonical(value: unknown): string {
+	return JSON.stringify(value, (_key, item: unknown) =>
+		item && typeof item === 'object' && !Array.isArray(item)
+			? Object.fromEntries(
+					Object.entries(item).sort(([a], [b]) => a.localeCompare(b)),
+				)
+			: item,
+	);
+}
+
+/**
+ * List the fields of a parsed object that differ from the expected ones
+ */
+function diffFields(actual: object, expected: object): string[] {
+	const actualFields = actual as Record<string, unknown>;
+	const expectedFields = expected as Record<string, unknown>;
+	return [
+		...new Set([...Object.keys(actual), ...Object.keys(expected)]),
+	].filter(
+		(field) =>
+			canonical(actualFields[field]) !== canonical(expectedFields[field]),
+	);
+}
+
+interface SpotifyPagePayloads {
+	nextData?: unknown;
+	initialState?: unknown;
+	jsonLd?: unknown;
+	meta?: Record<string, string | undefined>;
+}
+
+/**
+ * Rebuild the HTML of a Spotify page from the payloads it embeds
+ */
+function toSpotifyPageHtml(page: SpotifyPagePayloads): string {
+	const meta = Object.entries(page.meta ?? {}).map(
+		([property, content = '']) =>
+			`<meta property="${property}" content="${content.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}">`,
+	);
+	const scripts = [
+		page.jsonLd &&
+			`<script type="application/ld+json">${JSON.stringify(page.jsonLd)}</script>`,
+		page.nextData &&
+			`<script id="__NEXT_DATA__" type="application/json">${JSON.stringify(page.nextData)}</script>`,
+		page.initialState &&
+			`<script id="initial-state" type="text/plain">${Buffer.from(JSON.stringify(page.initialState)).toString('base64')}</script>`,
+	].filter(Boolean);
+	return `<!DOCTYPE html><html><head>${meta.join('')}</head><body>${scripts.join('')}</body></html>`;
+}
+
+/**
+ * Report a parsed fixture, failing it when any field differs from the
+ * expected ones
+ */
+function reportParsed(
+	fixture: string,
+	id: string,
+	label: string,
+	parsed: object,
+	expected: object,
+): void {
+	const mismatches = diffFields(parsed, expected);
+	const passed = mismatches.length === 0;
+
+	console.log(
+		`  ${passed ? '✅' : '❌'} ${id.padEnd(28)} ${label}${passed ? '' : `  (${mismatches.join(', ')})`}`,
+	);
+
+	if (!passed) {
+		failures.push({
+			fixture,
+			detail: `${id}: ${mismatches
+				.map(
+					(field) =>
+						`${field} parsed as ${canonical((parsed as Record<string, unknown>)[field])}`,
+				)
+				.join(', ')}`,
+		});
+	}
+}
+
+function checkSpotifyPages(): void {
+	console.log('\nSpotify pages');
+	const cases = [
+		...spotifyPages.tracks.map((fixture) => ({
+			...fixture,
+			parsed: parseSpotifyPageMetadata(toSpotifyPageHtml(fixture.page)),
+		})),
+		...spotifyPages.collections.map((fixture) => ({
+			...fixture,
+			parsed: parseSpotifyCollectionPage(toSpotifyPageHtml(fixture.page)),
+		})),
+	];
+
+	for (const fixture of cases) {
+		reportParsed(
+			'spotify-pages',
+			fixture.id,
+			fixture.url,
+			fixture.parsed,
+			fixture.expected,
+		);
+	}
+}
+
+/**
+ * Name a song by its title, an artist by its name
+ */
+function describeItem(item: { title?: string; name?: string }): string {
+	return item.title ?? item.name ?? '';
+}
+
+/**
+ * Report each item of a parsed list against the expected item at the same
+ * position
+ */
+function reportParsedList(
+	fixture: string,
+	id: string,
+	parsed: Array<{ title?: string; name?: string }>,
+	expected: Array<{ title?: string; name?: string }>,
+): void {
+	const count = Math.max(parsed.length, expected.length);
+	for (let index = 0; index < count; index++) {
+		const item = parsed[index] ?? {};
+		const expectedItem = expected[index] ?? {};
+		reportParsed(
+			fixture,
+			`${id} #${index + 1}`,
+			`"${describeItem(expected[index] ?? parsed[index] ?? {})}"`,
+			item,
+			expectedItem,
+		);
+	}
+}
+
+function checkYouTubeMusicResponses(): void {
+	console.log('\nYouTube Music responses');
+	for (const fixture of youtubeMusicResponses.search) {
+		reportParsedList(
+			'youtube-music-responses',
+			fixture.id,
+			parseSearchSongs(fixture.response),
+			fixture.expected,
+		);
+	}
+	for (const fixture of youtubeMusicResponses.watch) {
+		reportParsed(
+			'youtube-music-responses',
+			fixture.id,
+			`watch?v=${fixture.videoId}`,
+			parseWatchSong(fixture.videoId, fixture.player, fixture.next) ?? {},
+			fixture.expected ?? {},
+		);
+	}
+	for (const fixture of youtubeMusicResponses.collections) {
+		const { songs, ...page } = parseCollectionPage(fixture.response);
+		const { songs: expectedSongs, ...expectedPage } = fixture.expected;
+		reportParsed(
+			'youtube-music-responses',
+			fixture.id,
+			`browse ${fixture.browseId}`,
+			page,
+			expectedPage,
+		);
+		reportParsedList(
+			'youtube-music-responses',
+			fixture.id,
+			songs,
+			expectedSongs,
+		);
+	}
+	for (const fixture of youtubeMusicResponses.artistSearch) {
+		reportParsedList(
+			'youtube-music-responses',
+			fixture.id,
+			parseSearchArtists(fixture.response),
+			fixture.expected,
+		);
+	}
+	for (const fixture of youtubeMusicResponses.artistPages) {
+		reportParsed(
+			'youtube-music-responses',
+			fixture.id,
+			`browse ${fixture.browseId}`,
+			parseArtistPage(fixture.response) ?? {},
+			fixture.expected ?? {},
+		);
+	}
+}
+
+checkMultilingualTitles();
+await checkCrossScriptTitles();
+checkYouTubeTitles();
+checkCoverPairs();
+checkSpotifyPages();
+checkYouTubeMusicResponses();
+
+if (failures.length > 0) {
+	console.error(`\n${failures.length} fixture(s) failed:`);
+	for (const failure of failures) {
+		console.error(`  - ${failure.fixture}: ${failure.detail}`);
+	}
+	process.exit(1);
+}
+
+console.log('\nAll fixtures passed');
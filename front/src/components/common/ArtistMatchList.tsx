@@ -0,0 +1,146 @@
+import { useTranslation } from 'react-i18next';
+import type { PlatformType, SourceArtist } from '../../types/converter.types';
+import { MatchScoreDetails } from './MatchScoreDetails';
+
+interface ArtistMatchListProps {
+	platform: PlatformType;
+	matches: SourceArtist[];
+	onOpenURL: (url: string) => void;
+	onCopyToClipboard: (text: string) => void;
+}
+
+/** Accent colours of each platform */
+const PLATFORM_STYLES: Record<PlatformType, { text: string; border: string }> =
+	{
+		spotify: { text: 'text-primary', border: 'border-primary' },
+		deezer: { text: 'text-secondary', border: 'border-secondary' },
+		youtubeMusic: { text: 'text-youtube', border: 'border-youtube' },
+	};
+
+const PLATFORM_LABELS: Record<PlatformType, string> = {
+	spotify: 'platform.spotify',
+	deezer: 'platform.deezer',
+	youtubeMusic: 'platform.youtube',
+};
+
+/**
+ * Normalize the display fields of an artist from any platform
+ */
+export const describeArtist = (artist: SourceArtist) => {
+	if ('link' in artist) {
+		return {
+			name: artist.name,
+			url: artist.link,
+			imageUrl: artist.picture,
+			albumCount: artist.nb_album,
+		};
+	}
+	return {
+		name: artist.name,
+		url:
+			'spotify' in artist.external_urls
+				? artist.external_urls.spotify
+				: artist.external_urls.youtube,
+		imageUrl: artist.images[0]?.url ?? '',
+		albumCount: 'albums' in artist ? artist.albums?.length : undefined,
+	};
+};
+
+/**
+ * Artist pages found on one target platform, best match first
+ */
+export const ArtistMatchList = ({
+	platform,
+	matches,
+	onOpenURL,
+	onCopyToClipboard,
+}: ArtistMatchListProps) => {
+	const { t } = useTranslation();
+	const styles = PLATFORM_STYLES[platform];
+	const platformName = t(PLATFORM_LABELS[platform]);
+	// A search link only opens the platform's search: say so rather than
+	// presenting it as a converted artist page
+	const isSearchLink = (match: SourceArtist) =>
+		'isSearchLink' in match && !!match.isSearchLink;
+	const isSearchOnly = matches.length > 0 && matches.every(isSearchLink);
+
+	return (
+		<div>
+			<h3 className={`text-2xl font-bold ${styles.text} mb-4`}>
+				{t(isSearchOnly ? 'artist.searchOn' : 'artist.matchesOn', {
+					platform: platformName,
+				})}
+			</h3>
+			{isSearchOnly && (
+				<p className="text-sm text-gray-500 px-2 mb-3">
+					{t('artist.searchOnlyNote', { platform: platformName })}
+				</p>
+			)}
+			{matches.length === 0 ? (
+				<p className="text-sm text-gray-500 px-2">
+					{t('artist.noMatch', { platform: platformName })}
+				</p>
+			) : (
+				<div className="flex flex-col gap-2">
+					{matches.map((match, index) => {
+						const artist = describeArtist(match);
+						return (
+							<div key={`${index}-${artist.url}`} className="flex flex-col">
+								<div
+									className={`flex items-center gap-4 px-4 py-3 rounded-lg ${
+										index === 0 && match.isHighQuality
+											? `bg-green-50 border-2 ${styles.border}`
+											: isSearchLink(match)
+												? 'bg-white border border-dashed border-gray-400'
+												: 'bg-white shadow'
+									}`}
+								>
+									<button
+										type="button"
+										onClick={() => onOpenURL(artist.url)}
+										className="flex items-center gap-3 flex-1 min-w-0 text-left transition-opacity hover:opacity-70"
+									>
+										{artist.imageUrl && (
+											<img
+												src={artist.imageUrl}
+												alt={artist.name}
+												className="w-10 h-10 rounded-full object-cover flex-shrink-0"
+											/>
+										)}
+										<div className="flex flex-col justify-center flex-1 min-w-0">
+											<p className="text-sm font-medium text-gray-900 truncate">
+												{artist.name}
+											</p>
+											<p className="text-gray-600 text-xs truncate">
+												{isSearchLink(match)
+													? t('artist.searchLink')
+													: artist.albumCount !== undefined &&
+														t('artist.albumCount', {
+															count: artist.albumCount,
+														})}
+											</p>
+										</div>
+									</button>
+									<button
+										type="button"
+										onClick={() => onCopyToClipboard(artist.url)}
+										aria-label={t('action.copy')}
+										className="hover:scale-110 transition-transform"
+									>
+										<span className={`${styles.text} text-xl`}>📋</span>
+									</button>
+								</div>
+								{'score' in match && (
+									<MatchScoreDetails
+										score={match.score}
+										breakdown={match.scoreBreakdown}
+									/>
+								)}
+							</div>
+						);
+					})}
+				</div>
+			)}
+		</div>
+	);
+};
@@ -1,4 +1,10 @@
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import type { ExplicitPreference } from '../../types/matching.types';
+import {
+	getExplicitPreference,
+	setExplicitPreference,
+} from '../../utils/explicitContent';
 
 interface ConversionFormProps {
 	value: string;
@@ -8,6 +14,12 @@ interface ConversionFormProps {
 	error: string;
 }
 
+const EXPLICIT_PREFERENCES: ExplicitPreference[] = [
+	'source',
+	'explicit',
+	'clean',
+];
+
 export const ConversionForm = ({
 	value,
 	onChange,
@@ -16,9 +28,16 @@ export const ConversionForm = ({
 	error,
 }: ConversionFormProps) => {
 	const { t } = useTranslation();
+	const [explicitPreference, setExplicitPreferenceState] =
+		useState<ExplicitPreference>(getExplicitPreference);
 	const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
 		onChange(e.target.value);
 	};
+	const handlePreferenceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+		const preference = e.target.value as ExplicitPreference;
+		setExplicitPreferenceState(preference);
+		setExplicitPreference(preference);
+	};
 
 	return (
 		<div className="bg-white p-6 md:p-8 rounded-lg shadow-lg mb-8">
@@ -35,6 +54,21 @@ export const ConversionForm = ({
 				/>
 			</div>
 
+			<label className="flex items-center justify-end gap-2 mb-4 text-sm text-gray-600">
+				{t('form.explicitPreference')}
+				<select
+					value={explicitPreference}
+					onChange={handlePreferenceChange}
+					className="bg-gray-50 border border-gray-300 text-gray-900 rounded-md py-1 px-2 text-sm focus:ring-2 focus:ring-primary outline-none"
+				>
+					{EXPLICIT_PREFERENCES.map((preference) => (
+						<option key={preference} value={preference}>
+							{t(`form.explicitPreference.${preference}`)}
+						</option>
+					))}
+				</select>
+			</label>
+
 			<button
 				type="button"
 				onClick={onConvert}
@@ -1,5 +1,8 @@
 import { useTranslation } from 'react-i18next';
 import type { DeezerTrack } from '../../types/deezer.types';
+import type { TrackVersion } from '../../types/matching.types';
+import { ExplicitBadge } from './ExplicitBadge';
+import { MatchScoreDetails } from './MatchScoreDetails';
 
 interface DeezerMatchListProps {
 	matches: DeezerTrack[];
@@ -8,6 +11,20 @@ interface DeezerMatchListProps {
 	showAsExploreMore?: boolean;
 }
 
+/**
+ * Translation keys for the version tags shown next to a match, in display order
+ */
+const VERSION_LABELS: Array<[keyof TrackVersion, string]> = [
+	['live', 'version.live'],
+	['acoustic', 'version.acoustic'],
+	['instrumental', 'version.instrumental'],
+	['remix', 'version.remix'],
+	['spedUp', 'version.spedUp'],
+	['radioEdit', 'version.radioEdit'],
+	['extendedMix', 'version.extendedMix'],
+	['remastered', 'version.remastered'],
+];
+
 export const DeezerMatchList = ({
 	matches,
 	onOpenURL,
@@ -21,6 +38,21 @@ export const DeezerMatchList = ({
 		};
 	};
 
+	const getVersionTags = (version?: TrackVersion) => {
+		if (!version) return [];
+		return VERSION_LABELS.filter(([key]) => version[key]).map(
+			([key, label]) => {
+				if (key === 'remix' && version.remixer) {
+					return t('version.remixBy', { remixer: version.remixer });
+				}
+				if (key === 'remastered' && version.remasterYear) {
+					return t('version.remasteredIn', { year: version.remasterYear });
+				}
+				return t(label);
+			},
+		);
+	};
+
 	const handleCopyClick = (link: string) => {
 		return (e: React.MouseEvent) => {
 			e.stopPropagation();
@@ -33,66 +65,93 @@ export const DeezerMatchList = ({
 			<p className="text-gray-600 text-sm font-semibold uppercase tracking-wider px-2 mb-2">
 				{showAsExploreMore
 					? t('results.exploreMore')
-					: matches.length === 1
-						? t('results.topMatch')
-						: t('results.otherMatches')}
+					: matches[0]?.isExactMatch
+						? t('results.exactMatch')
+						: matches.length === 1
+							? t('results.topMatch')
+							: t('results.otherMatches')}
 			</p>
 			{matches.map((match, index) => (
-				<button
-					key={match.id}
-					type="button"
-					onClick={handleMatchClick(match.link)}
-					className={`flex items-center gap-4 px-4 py-3 justify-between rounded-lg transition-opacity hover:opacity-70 ${
-						showAsExploreMore
-							? 'bg-yellow-50 border-2 border-yellow-300'
-							: index === 0
-								? 'bg-green-50 border-2 border-secondary'
-								: 'bg-white shadow'
-					}`}
-				>
-					<div className="flex items-center gap-3 flex-1 min-w-0">
-						{match.cover && (
-							<img
-								src={match.cover}
-								alt={match.title}
-								className="w-10 h-10 rounded flex-shrink-0"
-							/>
-						)}
-						<div className="flex flex-col justify-center flex-1 min-w-0">
-							<p className="text-sm font-medium text-gray-900 truncate">
-								{match.title}
-							</p>
-							<p className="text-gray-600 text-xs truncate">
-								{match.artist} • {match.album}
-							</p>
+				<div key={match.id} className="flex flex-col">
+					<button
+						type="button"
+						onClick={handleMatchClick(match.link)}
+						className={`flex items-center gap-4 px-4 py-3 justify-between rounded-lg transition-opacity hover:opacity-70 ${
+							showAsExploreMore
+								? 'bg-yellow-50 border-2 border-yellow-300'
+								: index === 0
+									? 'bg-green-50 border-2 border-secondary'
+									: 'bg-white shadow'
+						}`}
+					>
+						<div className="flex items-center gap-3 flex-1 min-w-0">
+							{match.cover && (
+								<img
+									src={match.cover}
+									alt={match.title}
+									className="w-10 h-10 rounded flex-shrink-0"
+								/>
+							)}
+							<div className="flex flex-col justify-center flex-1 min-w-0">
+								<div className="flex items-center gap-2 min-w-0">
+									<p className="text-sm font-medium text-gray-900 truncate">
+										{match.title}
+									</p>
+									<ExplicitBadge explicit={match.explicit} />
+									{match.isExactMatch && (
+										<span
+											className="flex-shrink-0 bg-secondary text-white text-[10px] font-bold uppercase px-1.5 py-0.5 rounded"
+											title={t('results.exactMatch.hint')}
+										>
+											{t('results.exactMatch.badge')}
+										</span>
+									)}
+									{getVersionTags(match.version).map((tag) => (
+										<span
+											key={tag}
+											className="flex-shrink-0 bg-gray-100 text-gray-700 text-[10px] font-semibold px-1.5 py-0.5 rounded"
+										>
+											{tag}
+										</span>
+									))}
+								</div>
+								<p className="text-gray-600 text-xs truncate">
+									{match.artist} • {match.album}
+								</p>
+							</div>
 						</div>
-					</div>
-					<div className="flex items-center gap-2 flex-shrink-0">
-						<div
-							onClick={handleCopyClick(match.link)}
-							className="hover:scale-110 transition-transform cursor-pointer"
-							role="button"
-							tabIndex={0}
-							onKeyDown={(e) => {
-								if (e.key === 'Enter' || e.key === ' ') {
-									e.preventDefault();
-									handleCopyClick(match.link)(e as any);
-								}
-							}}
-						>
+						<div className="flex items-center gap-2 flex-shrink-0">
+							<div
+								onClick={handleCopyClick(match.link)}
+								className="hover:scale-110 transition-transform cursor-pointer"
+								role="button"
+								tabIndex={0}
+								onKeyDown={(e) => {
+									if (e.key === 'Enter' || e.key === ' ') {
+										e.preventDefault();
+										handleCopyClick(match.link)(e as any);
+									}
+								}}
+							>
+								<span
+									className={`${showAsExploreMore ? 'text-yellow-600' : 'text-secondary'} text-xl`}
+								>
+									📋
+								</span>
+							</div>
 							<span
 								className={`${showAsExploreMore ? 'text-yellow-600' : 'text-secondary'} text-xl`}
 							>
-								📋
+								✓
 							</span>
 						</div>
-						<span
-							className={`${showAsExploreMore ? 'text-yellow-600' : 'text-secondary'} text-xl`}
-						>
-							✓
-						</span>
-					</div>
-				</button>
+					</button>
+					<MatchScoreDetails
+						score={match.score}
+						breakdown={match.scoreBreakdown}
+						trace={match.searchTrace}
+					/>
+				</div>
 			))}
 		</div>
 	);
@@ -0,0 +1,52 @@
+import { useTranslation } from 'react-i18next';
+import type {
+	EditionMatch,
+	TracklistComparison,
+} from '../../types/matching.types';
+
+interface EditionSummaryProps {
+	edition?: TracklistComparison;
+}
+
+/** Tag colours of each edition verdict */
+const EDITION_STYLES: Record<EditionMatch, string> = {
+	sameEdition: 'bg-green-100 text-green-800',
+	expandedEdition: 'bg-yellow-100 text-yellow-800',
+	differentRelease: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Edition verdict of an album match, with the tracks missing from it or
+ * added by it compared with the source album
+ */
+export const EditionSummary = ({ edition }: EditionSummaryProps) => {
+	const { t } = useTranslation();
+
+	if (!edition) {
+		return null;
+	}
+
+	return (
+		<div className="flex flex-col gap-0.5 text-xs text-gray-600">
+			<span
+				className={`self-start text-[10px] font-semibold px-1.5 py-0.5 rounded ${EDITION_STYLES[edition.edition]}`}
+			>
+				{t(`results.edition.${edition.edition}`)}
+			</span>
+			{edition.missingTracks.length > 0 && (
+				<p className="truncate" title={edition.missingTracks.join(', ')}>
+					{t('results.edition.missing', {
+						tracks: edition.missingTracks.join(', '),
+					})}
+				</p>
+			)}
+			{edition.extraTracks.length > 0 && (
+				<p className="truncate" title={edition.extraTracks.join(', ')}>
+					{t('results.edition.extra', {
+						tracks: edition.extraTracks.join(', '),
+					})}
+				</p>
+			)}
+		</div>
+	);
+};
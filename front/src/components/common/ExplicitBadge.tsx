@@ -0,0 +1,25 @@
+import { useTranslation } from 'react-i18next';
+
+interface ExplicitBadgeProps {
+	explicit?: boolean;
+}
+
+/**
+ * "E" badge shown next to tracks with explicit lyrics
+ */
+export const ExplicitBadge = ({ explicit }: ExplicitBadgeProps) => {
+	const { t } = useTranslation();
+
+	if (!explicit) {
+		return null;
+	}
+
+	return (
+		<span
+			className="flex-shrink-0 bg-gray-700 text-white text-[10px] font-bold leading-none px-1 py-0.5 rounded-sm"
+			title={t('explicit.hint')}
+		>
+			{t('explicit.badge')}
+		</span>
+	);
+};
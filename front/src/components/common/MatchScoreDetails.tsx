@@ -0,0 +1,89 @@
+import { useTranslation } from 'react-i18next';
+import type {
+	MatchSignal,
+	ScoreBreakdown,
+	SearchTraceEntry,
+} from '../../types/matching.types';
+
+interface MatchScoreDetailsProps {
+	score?: number;
+	breakdown?: ScoreBreakdown;
+	/** Searches that returned the match, when known */
+	trace?: SearchTraceEntry[];
+}
+
+/** Display order of the signals in the breakdown */
+const SIGNAL_ORDER: MatchSignal[] = [
+	'isrc',
+	'artist',
+	'title',
+	'duration',
+	'cover',
+	'version',
+	'explicit',
+	'album',
+	'releaseYear',
+	'compilation',
+	'tracklist',
+	'edition',
+	'topTracks',
+	'discography',
+	'searchRank',
+];
+
+/**
+ * Collapsible "why this match" panel listing the points of each signal
+ */
+export const MatchScoreDetails = ({
+	score,
+	breakdown,
+	trace,
+}: MatchScoreDetailsProps) => {
+	const { t } = useTranslation();
+
+	if (score === undefined || !breakdown) {
+		return null;
+	}
+
+	const signals = SIGNAL_ORDER.filter(
+		(signal) => breakdown[signal] !== undefined,
+	);
+
+	return (
+		<details className="px-4 pt-1 text-xs text-gray-600">
+			<summary className="cursor-pointer select-none hover:text-gray-900">
+				{t('results.why', { score })}
+			</summary>
+			<ul className="mt-2 mb-1 flex flex-col gap-1 bg-gray-50 rounded-lg px-3 py-2">
+				{signals.map((signal) => {
+					const points = breakdown[signal] ?? 0;
+					return (
+						<li key={signal} className="flex justify-between gap-4">
+							<span>{t(`results.why.signal.${signal}`)}</span>
+							<span
+								className={`font-mono ${points < 0 ? 'text-red-600' : 'text-gray-900'}`}
+							>
+								{points > 0 ? `+${points}` : points}
+							</span>
+						</li>
+					);
+				})}
+				<li className="flex justify-between gap-4 border-t border-gray-200 pt-1 font-semibold text-gray-900">
+					<span>{t('results.why.total')}</span>
+					<span className="font-mono">{score}</span>
+				</li>
+			</ul>
+			{trace && trace.length > 0 && (
+				<p className="mb-1 px-3 text-gray-500">
+					{t('results.why.foundBy')}{' '}
+					{trace
+						.map(
+							(entry) =>
+								`${t(`results.why.strategy.${entry.strategy}`)} #${entry.rank + 1}`,
+						)
+						.join(' · ')}
+				</p>
+			)}
+		</details>
+	);
+};
@@ -0,0 +1,179 @@
+import { useTranslation } from 'react-i18next';
+import type {
+	PlaylistTrackResult,
+	PlaylistTrackStatus,
+	SourceTrack,
+} from '../../types/converter.types';
+import { isSearchLinkMatch } from '../../utils/playlistMatching';
+import { ExplicitBadge } from './ExplicitBadge';
+
+type PlaylistTarget = 'spotify' | 'deezer' | 'youtubeMusic';
+
+interface PlaylistTrackListProps {
+	tracks: PlaylistTrackResult[];
+	targets: PlaylistTarget[];
+	onOpenURL: (url: string) => void;
+	onCopyToClipboard: (text: string) => void;
+}
+
+const statusStyles: Record<PlaylistTrackStatus, string> = {
+	pending: 'bg-gray-100 text-gray-500',
+	matched: 'bg-green-100 text-green-700',
+	partial: 'bg-yellow-100 text-yellow-700',
+	notFound: 'bg-gray-200 text-gray-600',
+	error: 'bg-red-100 text-red-600',
+};
+
+const targetStyles: Record<PlaylistTarget, string> = {
+	spotify: 'border-primary text-primary',
+	deezer: 'border-secondary text-secondary',
+	youtubeMusic: 'border-youtube text-youtube',
+};
+
+/** Search links are only a starting point: dashed and muted */
+const searchLinkStyle = 'border-dashed border-gray-400 text-gray-500';
+
+/**
+ * Normalize the display fields of a track from any source platform
+ */
+const describeTrack = (track: SourceTrack) => {
+	if ('title' in track) {
+		return { name: track.title, artists: [track.artist] };
+	}
+	return { name: track.name, artists: track.artists };
+};
+
+/**
+ * Resolve the link of the top match found on a target platform
+ */
+const getTargetMatch = (
+	result: PlaylistTrackResult,
+	target: PlaylistTarget,
+): { url: string; label: string; isSearchLink: boolean } | undefined => {
+	switch (target) {
+		case 'spotify':
+			return result.spotifyMatch
+				? {
+						url: result.spotifyMatch.external_urls.spotify,
+						label: result.spotifyMatch.name,
+						isSearchLink: isSearchLinkMatch(result.spotifyMatch),
+					}
+				: undefined;
+		case 'deezer':
+			return result.deezerMatch
+				? {
+						url: result.deezerMatch.link,
+						label: result.deezerMatch.title,
+						isSearchLink: false,
+					}
+				: undefined;
+		case 'youtubeMusic':
+			return result.youtubeMatch
+				? {
+						url: result.youtubeMatch.url,
+						label: result.youtubeMatch.name,
+						isSearchLink: isSearchLinkMatch(result.youtubeMatch),
+					}
+				: undefined;
+	}
+};
+
+export const PlaylistTrackList = ({
+	tracks,
+	targets,
+	onOpenURL,
+	onCopyToClipboard,
+}: PlaylistTrackListProps) => {
+	const { t } = useTranslation();
+
+	const platformLabels: Record<PlaylistTarget, string> = {
+		spotify: t('platform.spotify'),
+		deezer: t('platform.deezer'),
+		youtubeMusic: t('platform.youtube'),
+	};
+
+	return (
+		<div className="flex flex-col gap-2">
+			{tracks.map((result) => {
+				const { name, artists } = describeTrack(result.source);
+
+				return (
+					<div
+						key={`${result.position}-${result.source.id}`}
+						className="bg-white shadow rounded-lg px-4 py-3"
+					>
+						<div className="flex items-center gap-3">
+							<span className="text-gray-400 text-xs w-6 text-right flex-shrink-0">
+								{result.position + 1}
+							</span>
+							<div className="flex-1 min-w-0">
+								<div className="flex items-center gap-2 min-w-0">
+									<p className="text-sm font-medium text-gray-900 truncate">
+										{name}
+									</p>
+									<ExplicitBadge explicit={result.source.explicit} />
+								</div>
+								<p className="text-gray-600 text-xs truncate">
+									{artists.join(', ')}
+								</p>
+							</div>
+							<span
+								className={`flex-shrink-0 text-xs font-semibold px-2 py-0.5 rounded-full ${statusStyles[result.status]}`}
+								title={result.error}
+							>
+								{t(`playlist.status.${result.status}`)}
+							</span>
+						</div>
+						{result.status !== 'pending' && result.status !== 'error' && (
+							<div className="flex flex-wrap gap-2 mt-2 ml-9">
+								{targets.map((target) => {
+									const match = getTargetMatch(result, target);
+									if (!match) {
+										return (
+											<span
+												key={target}
+												className="text-xs text-gray-400 italic px-2 py-1"
+											>
+												{t('playlist.noMatchOn', {
+													platform: platformLabels[target],
+												})}
+											</span>
+										);
+									}
+									return (
+										<span key={target} className="flex items-center gap-1">
+											<button
+												type="button"
+												onClick={() => onOpenURL(match.url)}
+												title={match.label}
+												className={`text-xs font-medium border rounded-full px-3 py-1 hover:opacity-70 transition-opacity ${
+													match.isSearchLink
+														? searchLinkStyle
+														: targetStyles[target]
+												}`}
+											>
+												{match.isSearchLink
+													? t('playlist.searchOn', {
+															platform: platformLabels[target],
+														})
+													: platformLabels[target]}
+											</button>
+											<button
+												type="button"
+												onClick={() => onCopyToClipboard(match.url)}
+												title={t('action.copy')}
+												className="text-sm hover:scale-110 transition-transform"
+											>
+												📋
+											</button>
+										</span>
+									);
+								})}
+							</div>
+						)}
+					</div>
+				);
+			})}
+		</div>
+	);
+};
@@ -0,0 +1,43 @@
+import { useTranslation } from 'react-i18next';
+import type { SourceArtist } from '../../types/converter.types';
+import { describeArtist } from './ArtistMatchList';
+
+interface SourceArtistCardProps {
+	artist: SourceArtist;
+}
+
+export const SourceArtistCard = ({ artist }: SourceArtistCardProps) => {
+	const { t } = useTranslation();
+	const { name, imageUrl, albumCount } = describeArtist(artist);
+	const topTracks = artist.topTracks?.slice(0, 5) ?? [];
+
+	return (
+		<div className="mb-8 bg-white p-6 rounded-xl shadow-lg">
+			<h3 className="text-xl font-semibold text-gray-900 mb-4">
+				{t('artist.title')}
+			</h3>
+			<div className="flex items-center gap-4">
+				{imageUrl && (
+					<img
+						src={imageUrl}
+						alt={name}
+						className="w-24 h-24 rounded-full object-cover"
+					/>
+				)}
+				<div className="flex-1 min-w-0">
+					<h4 className="text-2xl font-bold text-gray-900 truncate">{name}</h4>
+					{albumCount !== undefined && (
+						<p className="text-sm text-gray-500 mt-1">
+							{t('artist.albumCount', { count: albumCount })}
+						</p>
+					)}
+					{topTracks.length > 0 && (
+						<p className="text-sm text-gray-600 mt-1 truncate">
+							{t('artist.topTracks', { tracks: topTracks.join(', ') })}
+						</p>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+};
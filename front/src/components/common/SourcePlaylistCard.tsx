@@ -0,0 +1,106 @@
+import { useTranslation } from 'react-i18next';
+import type {
+	PlaylistTrackResult,
+	SourcePlaylist,
+} from '../../types/converter.types';
+
+interface SourcePlaylistCardProps {
+	playlist: SourcePlaylist;
+	tracks: PlaylistTrackResult[];
+}
+
+export const SourcePlaylistCard = ({
+	playlist,
+	tracks,
+}: SourcePlaylistCardProps) => {
+	const { t } = useTranslation();
+
+	const imageUrl = playlist.images?.[0]?.url || '';
+	const settled = tracks.filter((track) => track.status !== 'pending').length;
+	const matched = tracks.filter((track) => track.status === 'matched').length;
+	const progress = tracks.length > 0 ? (settled / tracks.length) * 100 : 100;
+
+	return (
+		<div className="mb-8 bg-white p-6 rounded-xl shadow-lg">
+			<h3 className="text-xl font-semibold text-gray-900 mb-4">
+				{t('playlist.title')}
+			</h3>
+			<div className="flex items-center gap-4">
+				{imageUrl && (
+					<img
+						src={imageUrl}
+						alt={playlist.name}
+						className="w-24 h-24 rounded object-cover"
+					/>
+				)}
+				<div className="flex-1 min-w-0">
+					<h4 className="text-2xl font-bold text-gray-900 truncate">
+						{playlist.name}
+					</h4>
+					{playlist.owner && (
+						<p className="text-lg text-gray-600">
+							{t('playlist.by', { owner: playlist.owner })}
+						</p>
+					)}
+					<p className="text-sm text-gray-500 mt-1">
+						{t('playlist.trackCount', { count: playlist.total_tracks })}
+					</p>
+				</div>
+			</div>
+			<div className="mt-4">
+				<div className="w-full bg-gray-100 rounded-full h-2.5">
+					<div
+						className="bg-primary h-2.5 rounded-full transition-all"
+						style={{ width: `${progress}%` }}
+					/>
+				</div>
+				<p className="mt-2 text-sm text-gray-600 text-center">
+					{settled < tracks.length
+						? t('playlist.progress', { done: settled, total: tracks.length })
+						: t('playlist.summary', { matched, total: tracks.length })}
+				</p>
+				{'skipped' in playlist
+					? playlist.skipped.length > 0 && (
+							<details className="mt-2 text-xs text-gray-500">
+								<summary className="cursor-pointer select-none text-center hover:text-gray-900">
+									{t('playlist.skippedVideos', {
+										count: playlist.skipped.length,
+									})}
+								</summary>
+								<ul className="mt-2 space-y-1">
+									{playlist.skipped.map((video, index) => (
+										<li
+											key={`${index}-${video.title}`}
+											className="flex items-center justify-between gap-2"
+										>
+											{video.url ? (
+												<a
+													href={video.url}
+													target="_blank"
+													rel="noopener noreferrer"
+													className="truncate hover:underline"
+												>
+													{video.title}
+												</a>
+											) : (
+												<span className="truncate">{video.title}</span>
+											)}
+											<span className="shrink-0 px-2 py-0.5 rounded bg-gray-100 text-gray-600">
+												{t(`playlist.skipReason.${video.reason}`)}
+											</span>
+										</li>
+									))}
+								</ul>
+							</details>
+						)
+					: playlist.total_tracks > tracks.length && (
+							<p className="mt-1 text-xs text-gray-500 text-center">
+								{t('playlist.skipped', {
+									count: playlist.total_tracks - tracks.length,
+								})}
+							</p>
+						)}
+			</div>
+		</div>
+	);
+};
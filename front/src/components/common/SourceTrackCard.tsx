@@ -1,6 +1,7 @@
 import type { DeezerTrack } from '../../types/deezer.types';
 import type { SpotifyTrack } from '../../types/spotify.types';
 import type { YouTubeMusicTrack } from '../../types/youtubeMusic.types';
+import { ExplicitBadge } from './ExplicitBadge';
 
 interface SourceTrackCardProps {
 	track: SpotifyTrack | DeezerTrack | YouTubeMusicTrack;
@@ -33,7 +34,7 @@ export const SourceTrackCard = ({ track }: SourceTrackCardProps) => {
 		platformName = 'YouTube Music';
 		trackName = track.name;
 		artists = track.artists;
-		album = ''; // YouTube Music doesn't provide album info
+		album = track.album || '';
 		imageUrl = track.thumbnail || '';
 	}
 
@@ -47,7 +48,10 @@ export const SourceTrackCard = ({ track }: SourceTrackCardProps) => {
 					<img src={imageUrl} alt={trackName} className="w-24 h-24 rounded" />
 				)}
 				<div className="flex-1">
-					<h4 className="text-2xl font-bold text-gray-900">{trackName}</h4>
+					<div className="flex items-center gap-2">
+						<h4 className="text-2xl font-bold text-gray-900">{trackName}</h4>
+						<ExplicitBadge explicit={track.explicit} />
+					</div>
 					<p className="text-lg text-gray-600">{artists.join(', ')}</p>
 					{album && (
 						<p className="text-sm text-gray-500 mt-1">Album: {album}</p>
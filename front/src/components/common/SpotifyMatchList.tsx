@@ -1,5 +1,6 @@
 import { useTranslation } from 'react-i18next';
 import type { SpotifyTrack } from '../../types/spotify.types';
+import { MatchScoreDetails } from './MatchScoreDetails';
 
 interface SpotifyMatchListProps {
 	matches: SpotifyTrack[];
@@ -34,65 +35,71 @@ export const SpotifyMatchList = ({
 						: t('results.otherMatches')}
 			</p>
 			{matches.map((track, index) => (
-				<button
-					key={track.id}
-					type="button"
-					onClick={() => onOpenURL(track.external_urls.spotify)}
-					className={`flex items-center gap-4 px-4 py-3 justify-between rounded-lg transition-opacity hover:opacity-70 ${
-						showAsExploreMore
-							? 'bg-yellow-50 border-2 border-yellow-300'
-							: index === 0
-								? 'bg-green-50 border-2 border-primary'
-								: 'bg-white shadow'
-					}`}
-				>
-					<div className="flex items-center gap-3 flex-1 min-w-0">
-						{track.images?.[0]?.url && (
-							<img
-								src={track.images[0].url}
-								alt={track.name}
-								className="w-10 h-10 rounded flex-shrink-0"
-							/>
-						)}
-						<div className="flex flex-col justify-center flex-1 min-w-0">
-							<p className="text-sm font-medium text-gray-900 truncate">
-								{track.name}
-							</p>
-							<p className="text-gray-600 text-xs truncate">
-								{track.artists.join(', ')}
-							</p>
+				<div key={track.id} className="flex flex-col">
+					<button
+						type="button"
+						onClick={() => onOpenURL(track.external_urls.spotify)}
+						className={`flex items-center gap-4 px-4 py-3 justify-between rounded-lg transition-opacity hover:opacity-70 ${
+							showAsExploreMore
+								? 'bg-yellow-50 border-2 border-yellow-300'
+								: index === 0
+									? 'bg-green-50 border-2 border-primary'
+									: 'bg-white shadow'
+						}`}
+					>
+						<div className="flex items-center gap-3 flex-1 min-w-0">
+							{track.images?.[0]?.url && (
+								<img
+									src={track.images[0].url}
+									alt={track.name}
+									className="w-10 h-10 rounded flex-shrink-0"
+								/>
+							)}
+							<div className="flex flex-col justify-center flex-1 min-w-0">
+								<p className="text-sm font-medium text-gray-900 truncate">
+									{track.name}
+								</p>
+								<p className="text-gray-600 text-xs truncate">
+									{track.artists.join(', ')}
+								</p>
+							</div>
 						</div>
-					</div>
-					<div className="flex items-center gap-2 flex-shrink-0">
-						<div
-							onClick={(e) => {
-								e.stopPropagation();
-								onCopyToClipboard(track.external_urls.spotify);
-							}}
-							className="hover:scale-110 transition-transform cursor-pointer"
-							role="button"
-							tabIndex={0}
-							onKeyDown={(e) => {
-								if (e.key === 'Enter' || e.key === ' ') {
-									e.preventDefault();
+						<div className="flex items-center gap-2 flex-shrink-0">
+							<div
+								onClick={(e) => {
 									e.stopPropagation();
 									onCopyToClipboard(track.external_urls.spotify);
-								}
-							}}
-						>
+								}}
+								className="hover:scale-110 transition-transform cursor-pointer"
+								role="button"
+								tabIndex={0}
+								onKeyDown={(e) => {
+									if (e.key === 'Enter' || e.key === ' ') {
+										e.preventDefault();
+										e.stopPropagation();
+										onCopyToClipboard(track.external_urls.spotify);
+									}
+								}}
+							>
+								<span
+									className={`${showAsExploreMore ? 'text-yellow-600' : 'text-primary'} text-xl`}
+								>
+									📋
+								</span>
+							</div>
 							<span
 								className={`${showAsExploreMore ? 'text-yellow-600' : 'text-primary'} text-xl`}
 							>
-								📋
+								✓
 							</span>
 						</div>
-						<span
-							className={`${showAsExploreMore ? 'text-yellow-600' : 'text-primary'} text-xl`}
-						>
-							✓
-						</span>
-					</div>
-				</button>
+					</button>
+					<MatchScoreDetails
+						score={track.score}
+						breakdown={track.scoreBreakdown}
+						trace={track.searchTrace}
+					/>
+				</div>
 			))}
 		</div>
 	);
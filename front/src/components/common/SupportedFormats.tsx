@@ -5,8 +5,9 @@ export const SupportedFormats = () => {
 				Supported Conversions
 			</h2>
 			<p className="text-gray-600 mb-6">
-				Paste a music track or album link from Spotify, Deezer, or YouTube Music
-				to get matches on Spotify, Deezer, and YouTube Music!
+				Paste a music track, album, playlist or artist link from Spotify,
+				Deezer, or YouTube Music to get matches on Spotify, Deezer, and YouTube
+				Music!
 			</p>
 			<div className="space-y-3">
 				<div>
@@ -24,6 +25,18 @@ export const SupportedFormats = () => {
 						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
 							spotify:album:{'{album-id}'}
 						</code>
+						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
+							https://open.spotify.com/playlist/{'{playlist-id}'}
+						</code>
+						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
+							https://open.spotify.com/artist/{'{artist-id}'}
+						</code>
+						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
+							spotify:playlist:{'{playlist-id}'}
+						</code>
+						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
+							https://spotify.link/{'{short-code}'}
+						</code>
 					</div>
 				</div>
 				<div>
@@ -35,6 +48,12 @@ export const SupportedFormats = () => {
 						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
 							https://www.deezer.com/album/{'{album-id}'}
 						</code>
+						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
+							https://www.deezer.com/playlist/{'{playlist-id}'}
+						</code>
+						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
+							https://www.deezer.com/artist/{'{artist-id}'}
+						</code>
 						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
 							https://link.deezer.com/s/{'{short-code}'}
 						</code>
@@ -54,6 +73,15 @@ export const SupportedFormats = () => {
 						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
 							https://m.youtube.com/watch?v={'{video-id}'}
 						</code>
+						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
+							https://music.youtube.com/playlist?list=OLAK5uy_{'{album-id}'}
+						</code>
+						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
+							https://www.youtube.com/playlist?list=PL{'{playlist-id}'}
+						</code>
+						<code className="text-xs text-gray-700 font-mono bg-gray-50 px-2 py-1 rounded block">
+							https://music.youtube.com/channel/UC{'{channel-id}'}
+						</code>
 					</div>
 				</div>
 			</div>
@@ -1,5 +1,7 @@
 import { useTranslation } from 'react-i18next';
 import type { YouTubeMusicTrack } from '../../types/youtubeMusic.types';
+import { ExplicitBadge } from './ExplicitBadge';
+import { MatchScoreDetails } from './MatchScoreDetails';
 
 interface YouTubeMusicMatchListProps {
 	matches: YouTubeMusicTrack[];
@@ -34,49 +36,62 @@ export const YouTubeMusicMatchList = ({
 					: t('results.otherMatches')}
 			</p>
 			{matches.map((match, index) => (
-				<button
-					key={match.id}
-					type="button"
-					onClick={handleMatchClick(match.url)}
-					className={`flex items-center gap-4 px-4 py-3 justify-between rounded-lg transition-opacity hover:opacity-70 ${
-						index === 0
-							? 'bg-red-50 border-2 border-youtube'
-							: 'bg-white shadow'
-					}`}
-				>
-					<div className="flex items-center gap-3 flex-1 min-w-0">
-						{match.thumbnail && (
-							<img
-								src={match.thumbnail}
-								alt={match.name}
-								className="w-10 h-10 rounded flex-shrink-0"
-							/>
-						)}
-						<div className="flex flex-col justify-center flex-1 min-w-0">
-							<p className="text-sm font-medium text-gray-900 truncate">
-								{match.name}
-							</p>
-							<p className="text-gray-600 text-xs truncate">{match.channel}</p>
+				<div key={match.id} className="flex flex-col">
+					<button
+						type="button"
+						onClick={handleMatchClick(match.url)}
+						className={`flex items-center gap-4 px-4 py-3 justify-between rounded-lg transition-opacity hover:opacity-70 ${
+							index === 0
+								? 'bg-red-50 border-2 border-youtube'
+								: 'bg-white shadow'
+						}`}
+					>
+						<div className="flex items-center gap-3 flex-1 min-w-0">
+							{match.thumbnail && (
+								<img
+									src={match.thumbnail}
+									alt={match.name}
+									className="w-10 h-10 rounded flex-shrink-0"
+								/>
+							)}
+							<div className="flex flex-col justify-center flex-1 min-w-0">
+								<div className="flex items-center gap-2 min-w-0">
+									<p className="text-sm font-medium text-gray-900 truncate">
+										{match.name}
+									</p>
+									<ExplicitBadge explicit={match.explicit} />
+								</div>
+								<p className="text-gray-600 text-xs truncate">
+									{match.album
+										? `${match.channel} • ${match.album}`
+										: match.channel}
+								</p>
+							</div>
 						</div>
-					</div>
-					<div className="flex items-center gap-2 flex-shrink-0">
-						<div
-							onClick={handleCopyClick(match.url)}
-							className="hover:scale-110 transition-transform cursor-pointer"
-							role="button"
-							tabIndex={0}
-							onKeyDown={(e) => {
-								if (e.key === 'Enter' || e.key === ' ') {
-									e.preventDefault();
-									handleCopyClick(match.url)(e as any);
-								}
-							}}
-						>
-							<span className="text-youtube text-xl">📋</span>
+						<div className="flex items-center gap-2 flex-shrink-0">
+							<div
+								onClick={handleCopyClick(match.url)}
+								className="hover:scale-110 transition-transform cursor-pointer"
+								role="button"
+								tabIndex={0}
+								onKeyDown={(e) => {
+									if (e.key === 'Enter' || e.key === ' ') {
+										e.preventDefault();
+										handleCopyClick(match.url)(e as any);
+									}
+								}}
+							>
+								<span className="text-youtube text-xl">📋</span>
+							</div>
+							<span className="text-youtube text-xl">✓</span>
 						</div>
-						<span className="text-youtube text-xl">✓</span>
-					</div>
-				</button>
+					</button>
+					<MatchScoreDetails
+						score={match.score}
+						breakdown={match.scoreBreakdown}
+						trace={match.searchTrace}
+					/>
+				</div>
 			))}
 		</div>
 	);
@@ -1,9 +1,32 @@
 import { useTranslation } from 'react-i18next';
-import type { SourceAlbum, SourceTrack } from '../../types/converter.types';
-import type { DeezerAlbum, DeezerTrack } from '../../types/deezer.types';
-import type { SpotifyAlbum, SpotifyTrack } from '../../types/spotify.types';
-import type { YouTubeMusicTrack } from '../../types/youtubeMusic.types';
+import type {
+	PlaylistTrackResult,
+	SourceAlbum,
+	SourceArtist,
+	SourcePlaylist,
+	SourceTrack,
+} from '../../types/converter.types';
+import type {
+	DeezerAlbum,
+	DeezerArtist,
+	DeezerTrack,
+} from '../../types/deezer.types';
+import type {
+	SpotifyAlbum,
+	SpotifyArtist,
+	SpotifyTrack,
+} from '../../types/spotify.types';
+import type {
+	YouTubeMusicArtist,
+	YouTubeMusicTrack,
+} from '../../types/youtubeMusic.types';
+import { ArtistMatchList } from '../common/ArtistMatchList';
 import { DeezerMatchList } from '../common/DeezerMatchList';
+import { EditionSummary } from '../common/EditionSummary';
+import { MatchScoreDetails } from '../common/MatchScoreDetails';
+import { PlaylistTrackList } from '../common/PlaylistTrackList';
+import { SourceArtistCard } from '../common/SourceArtistCard';
+import { SourcePlaylistCard } from '../common/SourcePlaylistCard';
 import { SourceTrackCard } from '../common/SourceTrackCard';
 import { SpotifyMatchList } from '../common/SpotifyMatchList';
 import { YouTubeMusicMatchList } from '../common/YouTubeMusicMatchList';
@@ -11,10 +34,18 @@ import { YouTubeMusicMatchList } from '../common/YouTubeMusicMatchList';
 interface ConversionResultsProps {
 	sourceTrack?: SourceTrack;
 	sourceAlbum?: SourceAlbum;
+	sourcePlaylist?: SourcePlaylist;
+	playlistTracks?: PlaylistTrackResult[];
+	sourceArtist?: SourceArtist;
+	deezerArtistMatches?: DeezerArtist[];
+	spotifyArtistMatches?: SpotifyArtist[];
+	youtubeArtistMatches?: YouTubeMusicArtist[];
 	sourcePlatform: 'spotify' | 'deezer' | 'youtubeMusic';
 	deezerMatches: DeezerTrack[];
 	deezerAlbumMatches?: DeezerAlbum[];
 	youtubeMatches: YouTubeMusicTrack[];
+	/** Album links, shown above the per-track matches of an album */
+	youtubeAlbumMatches?: YouTubeMusicTrack[];
 	spotifyMatches: SpotifyTrack[];
 	spotifyAlbumMatches?: SpotifyAlbum[];
 	onClear: () => void;
@@ -25,10 +56,17 @@ interface ConversionResultsProps {
 export const ConversionResults = ({
 	sourceTrack,
 	sourceAlbum,
+	sourcePlaylist,
+	playlistTracks = [],
+	sourceArtist,
+	deezerArtistMatches = [],
+	spotifyArtistMatches = [],
+	youtubeArtistMatches = [],
 	sourcePlatform,
 	deezerMatches,
 	deezerAlbumMatches,
 	youtubeMatches,
+	youtubeAlbumMatches,
 	spotifyMatches,
 	spotifyAlbumMatches,
 	onClear,
@@ -45,6 +83,96 @@ export const ConversionResults = ({
 	const totalSpotifyMatches =
 		(spotifyMatches?.length || 0) + (spotifyAlbumMatches?.length || 0);
 
+	const clearButton = (
+		<div className="flex flex-col sm:flex-row items-center justify-center gap-4 mt-6">
+			<button
+				type="button"
+				onClick={onClear}
+				className="flex items-center justify-center gap-2 w-full sm:w-auto px-6 py-3 bg-green-100 hover:bg-green-200 text-primary font-bold text-base rounded-full transition"
+			>
+				<span className="text-2xl">➕</span>
+				<span>{t('results.clearButton')}</span>
+			</button>
+		</div>
+	);
+
+	if (sourcePlaylist) {
+		const playlistTargets = (
+			['spotify', 'deezer', 'youtubeMusic'] as const
+		).filter((platform) => platform !== sourcePlatform);
+
+		return (
+			<div className="mb-8">
+				<div className="mb-6">
+					<h2 className="text-4xl font-black text-gray-900 mb-2">
+						{t('results.title')}
+					</h2>
+					<p className="text-gray-600 text-base">
+						{t('results.playlist.matches', {
+							matched: playlistTracks.filter(
+								(track) => track.status === 'matched',
+							).length,
+							count: playlistTracks.length,
+						})}
+					</p>
+				</div>
+
+				<SourcePlaylistCard playlist={sourcePlaylist} tracks={playlistTracks} />
+
+				<PlaylistTrackList
+					tracks={playlistTracks}
+					targets={playlistTargets}
+					onOpenURL={onOpenURL}
+					onCopyToClipboard={onCopyToClipboard}
+				/>
+
+				{clearButton}
+			</div>
+		);
+	}
+
+	if (sourceArtist) {
+		const artistTargets = [
+			{ platform: 'spotify' as const, matches: spotifyArtistMatches },
+			{ platform: 'deezer' as const, matches: deezerArtistMatches },
+			{ platform: 'youtubeMusic' as const, matches: youtubeArtistMatches },
+		].filter(({ platform }) => platform !== sourcePlatform);
+
+		return (
+			<div className="mb-8">
+				<div className="mb-6">
+					<h2 className="text-4xl font-black text-gray-900 mb-2">
+						{t('results.title')}
+					</h2>
+					<p className="text-gray-600 text-base">
+						{t('results.artist.matches', {
+							count: artistTargets.filter(({ matches }) =>
+								matches.some((match) => match.isHighQuality),
+							).length,
+							total: artistTargets.length,
+						})}
+					</p>
+				</div>
+
+				<SourceArtistCard artist={sourceArtist} />
+
+				<div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+					{artistTargets.map(({ platform, matches }) => (
+						<ArtistMatchList
+							key={platform}
+							platform={platform}
+							matches={matches}
+							onOpenURL={onOpenURL}
+							onCopyToClipboard={onCopyToClipboard}
+						/>
+					))}
+				</div>
+
+				{clearButton}
+			</div>
+		);
+	}
+
 	return (
 		<div className="mb-8">
 			{/* Header */}
@@ -265,55 +393,61 @@ export const ConversionResults = ({
 												: t('results.otherMatches')}
 										</p>
 										{deezerAlbumMatches.map((album, index) => (
-											<button
-												key={album.id}
-												type="button"
-												onClick={() => onOpenURL(album.link)}
-												className={`flex items-center gap-4 px-4 py-3 justify-between rounded-lg transition-opacity hover:opacity-70 ${
-													index === 0
-														? 'bg-green-50 border-2 border-secondary'
-														: 'bg-white shadow'
-												}`}
-											>
-												<div className="flex items-center gap-3 flex-1 min-w-0">
-													{album.cover && (
-														<img
-															src={album.cover}
-															alt={album.title}
-															className="w-10 h-10 rounded flex-shrink-0"
-														/>
-													)}
-													<div className="flex flex-col justify-center flex-1 min-w-0">
-														<p className="text-sm font-medium text-gray-900 truncate">
-															{album.title}
-														</p>
-														<p className="text-gray-600 text-xs truncate">
-															{album.artist}
-														</p>
+											<div key={album.id} className="flex flex-col">
+												<button
+													type="button"
+													onClick={() => onOpenURL(album.link)}
+													className={`flex items-center gap-4 px-4 py-3 justify-between rounded-lg transition-opacity hover:opacity-70 ${
+														index === 0
+															? 'bg-green-50 border-2 border-secondary'
+															: 'bg-white shadow'
+													}`}
+												>
+													<div className="flex items-center gap-3 flex-1 min-w-0">
+														{album.cover && (
+															<img
+																src={album.cover}
+																alt={album.title}
+																className="w-10 h-10 rounded flex-shrink-0"
+															/>
+														)}
+														<div className="flex flex-col justify-center flex-1 min-w-0">
+															<p className="text-sm font-medium text-gray-900 truncate">
+																{album.title}
+															</p>
+															<p className="text-gray-600 text-xs truncate">
+																{album.artist}
+															</p>
+															<EditionSummary edition={album.edition} />
+														</div>
 													</div>
-												</div>
-												<div className="flex items-center gap-2 flex-shrink-0">
-													<div
-														onClick={(e) => {
-															e.stopPropagation();
-															onCopyToClipboard(album.link);
-														}}
-														className="hover:scale-110 transition-transform cursor-pointer"
-														role="button"
-														tabIndex={0}
-														onKeyDown={(e) => {
-															if (e.key === 'Enter' || e.key === ' ') {
-																e.preventDefault();
+													<div className="flex items-center gap-2 flex-shrink-0">
+														<div
+															onClick={(e) => {
 																e.stopPropagation();
 																onCopyToClipboard(album.link);
-															}
-														}}
-													>
-														<span className="text-secondary text-xl">📋</span>
+															}}
+															className="hover:scale-110 transition-transform cursor-pointer"
+															role="button"
+															tabIndex={0}
+															onKeyDown={(e) => {
+																if (e.key === 'Enter' || e.key === ' ') {
+																	e.preventDefault();
+																	e.stopPropagation();
+																	onCopyToClipboard(album.link);
+																}
+															}}
+														>
+															<span className="text-secondary text-xl">📋</span>
+														</div>
+														<span className="text-secondary text-xl">✓</span>
 													</div>
-													<span className="text-secondary text-xl">✓</span>
-												</div>
-											</button>
+												</button>
+												<MatchScoreDetails
+													score={album.score}
+													breakdown={album.scoreBreakdown}
+												/>
+											</div>
 										))}
 									</div>
 								</>
@@ -339,29 +473,49 @@ export const ConversionResults = ({
 				{sourcePlatform !== 'youtubeMusic' && (
 					<div>
 						{/* YouTube Music Matches */}
-						<h3 className="text-2xl font-bold text-youtube mb-4">
-							{t('platform.youtube')} Matches
-						</h3>
-						<YouTubeMusicMatchList
-							matches={youtubeMatches}
-							onOpenURL={onOpenURL}
-							onCopyToClipboard={onCopyToClipboard}
-						/>
+						{hasAlbum &&
+						youtubeAlbumMatches &&
+						youtubeAlbumMatches.length > 0 ? (
+							<>
+								<h3 className="text-2xl font-bold text-youtube mb-4">
+									{t('platform.youtube')} Album Matches
+								</h3>
+								<YouTubeMusicMatchList
+									matches={youtubeAlbumMatches}
+									onOpenURL={onOpenURL}
+									onCopyToClipboard={onCopyToClipboard}
+								/>
+								{youtubeMatches.length > 0 && (
+									<>
+										<h3 className="text-2xl font-bold text-youtube mt-6 mb-4">
+											{t('platform.youtube')} Track Matches
+										</h3>
+										<YouTubeMusicMatchList
+											matches={youtubeMatches}
+											onOpenURL={onOpenURL}
+											onCopyToClipboard={onCopyToClipboard}
+										/>
+									</>
+								)}
+							</>
+						) : (
+							<>
+								<h3 className="text-2xl font-bold text-youtube mb-4">
+									{t('platform.youtube')} Matches
+								</h3>
+								<YouTubeMusicMatchList
+									matches={youtubeMatches}
+									onOpenURL={onOpenURL}
+									onCopyToClipboard={onCopyToClipboard}
+								/>
+							</>
+						)}
 					</div>
 				)}
 			</div>
 
 			{/* Action Buttons */}
-			<div className="flex flex-col sm:flex-row items-center justify-center gap-4 mt-6">
-				<button
-					type="button"
-					onClick={onClear}
-					className="flex items-center justify-center gap-2 w-full sm:w-auto px-6 py-3 bg-green-100 hover:bg-green-200 text-primary font-bold text-base rounded-full transition"
-				>
-					<span className="text-2xl">➕</span>
-					<span>{t('results.clearButton')}</span>
-				</button>
-			</div>
+			{clearButton}
 		</div>
 	);
 };
@@ -1,14 +1,43 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
+import { useArtistConversion } from '../../hooks/useArtistConversion';
+import { useDeezerPlaylistConversion } from '../../hooks/useDeezerPlaylistConversion';
 import { useDeezerToSpotify } from '../../hooks/useDeezerToSpotify';
 import { useDeezerToYouTubeMusic } from '../../hooks/useDeezerToYouTubeMusic';
+import { useSpotifyPlaylistConversion } from '../../hooks/useSpotifyPlaylistConversion';
+import { useSpotifyShortLink } from '../../hooks/useSpotifyShortLink';
 import { useSpotifyToDeezer } from '../../hooks/useSpotifyToDeezer';
 import { useSpotifyToYouTubeMusic } from '../../hooks/useSpotifyToYouTubeMusic';
 import { useYouTubeMusicToDeezer } from '../../hooks/useYouTubeMusicToDeezer';
 import { useYouTubeMusicToSpotify } from '../../hooks/useYouTubeMusicToSpotify';
-import type { DeezerAlbum, DeezerTrack } from '../../types/deezer.types';
-import type { SpotifyAlbum, SpotifyTrack } from '../../types/spotify.types';
-import type { YouTubeMusicTrack } from '../../types/youtubeMusic.types';
-import { detectPlatform } from '../../utils/urlParser';
+import { useYouTubePlaylistConversion } from '../../hooks/useYouTubePlaylistConversion';
+import type {
+	PlaylistTrackResult,
+	SourceArtist,
+	SourcePlaylist,
+} from '../../types/converter.types';
+import type {
+	DeezerAlbum,
+	DeezerArtist,
+	DeezerTrack,
+} from '../../types/deezer.types';
+import type {
+	SpotifyAlbum,
+	SpotifyArtist,
+	SpotifyTrack,
+} from '../../types/spotify.types';
+import type {
+	YouTubeMusicAlbum,
+	YouTubeMusicArtist,
+	YouTubeMusicTrack,
+} from '../../types/youtubeMusic.types';
+import {
+	detectPlatform,
+	parseArtistUrl,
+	parseDeezerPlaylistUrl,
+	parseSpotifyPlaylistUrl,
+	parseSpotifyShortUrl,
+	parseYouTubePlaylistUrl,
+} from '../../utils/urlParser';
 import { ConversionForm } from '../common/ConversionForm';
 import { Footer } from '../common/Footer';
 import { Header } from '../common/Header';
@@ -18,11 +47,18 @@ import { ConversionResults } from './ConversionResults';
 
 interface ConversionState {
 	sourceTrack?: SpotifyTrack | DeezerTrack | YouTubeMusicTrack;
-	sourceAlbum?: SpotifyAlbum | DeezerAlbum;
+	sourceAlbum?: SpotifyAlbum | DeezerAlbum | YouTubeMusicAlbum;
+	sourcePlaylist?: SourcePlaylist;
+	playlistTracks?: PlaylistTrackResult[];
+	sourceArtist?: SourceArtist;
+	deezerArtistMatches?: DeezerArtist[];
+	spotifyArtistMatches?: SpotifyArtist[];
+	youtubeArtistMatches?: YouTubeMusicArtist[];
 	sourcePlatform: 'spotify' | 'deezer' | 'youtubeMusic';
 	deezerMatches: DeezerTrack[];
 	deezerAlbumMatches?: DeezerAlbum[];
 	youtubeMatches: YouTubeMusicTrack[];
+	youtubeAlbumMatches?: YouTubeMusicTrack[];
 	spotifyMatches: SpotifyTrack[];
 	spotifyAlbumMatches?: SpotifyAlbum[];
 }
@@ -32,6 +68,9 @@ export const LinkConverter = () => {
 	const [loading, setLoading] = useState<boolean>(false);
 	const [error, setError] = useState<string>('');
 	const [result, setResult] = useState<ConversionState | null>(null);
+	// Identifies the latest conversion so progress from a cleared or
+	// superseded playlist conversion is ignored
+	const conversionIdRef = useRef(0);
 
 	// Conversion hooks
 	const { convert: convertSpotifyToDeezer } = useSpotifyToDeezer();
@@ -40,6 +79,11 @@ export const LinkConverter = () => {
 	const { convert: convertDeezerToSpotify } = useDeezerToSpotify();
 	const { convert: convertYouTubeMusicToDeezer } = useYouTubeMusicToDeezer();
 	const { convert: convertYouTubeMusicToSpotify } = useYouTubeMusicToSpotify();
+	const { convert: convertSpotifyPlaylist } = useSpotifyPlaylistConversion();
+	const { convert: convertDeezerPlaylist } = useDeezerPlaylistConversion();
+	const { convert: convertYouTubePlaylist } = useYouTubePlaylistConversion();
+	const { convert: convertArtist } = useArtistConversion();
+	const { resolve: resolveSpotifyShortLink } = useSpotifyShortLink();
 
 	const handleConvert = (): void => {
 		if (!inputUrl.trim()) {
@@ -61,6 +105,13 @@ export const LinkConverter = () => {
 		setLoading(true);
 		setError('');
 		setResult(null);
+		conversionIdRef.current += 1;
+
+		// Artist pages are converted the same way whatever their platform
+		if (parseArtistUrl(inputUrl)) {
+			handleArtistConversion(inputUrl);
+			return;
+		}
 
 		// Route to appropriate conversion based on detected platform
 		switch (platform) {
@@ -77,6 +128,34 @@ export const LinkConverter = () => {
 	};
 
 	const handleSpotifyConversion = (url: string): void => {
+		// Short links are resolved first, then converted like the canonical URL
+		if (parseSpotifyShortUrl(url)) {
+			const conversionId = conversionIdRef.current;
+			resolveSpotifyShortLink(url)
+				.then((resolvedUrl) => {
+					if (conversionIdRef.current !== conversionId) return;
+					handleSpotifyConversion(resolvedUrl);
+				})
+				.catch((err) => {
+					if (conversionIdRef.current !== conversionId) return;
+					const errorMessage =
+						err instanceof Error ? err.message : 'error.unknown';
+					setError(errorMessage);
+					setLoading(false);
+				});
+			return;
+		}
+
+		if (parseSpotifyPlaylistUrl(url)) {
+			handleSpotifyPlaylistConversion(url);
+			return;
+		}
+
+		if (parseArtistUrl(url)) {
+			handleArtistConversion(url);
+			return;
+		}
+
 		Promise.all([
 			convertSpotifyToDeezer(url),
 			convertSpotifyToYouTubeMusic(url),
@@ -102,16 +181,56 @@ export const LinkConverter = () => {
 			});
 	};
 
+	const handleSpotifyPlaylistConversion = (url: string): void => {
+		const conversionId = conversionIdRef.current;
+		const isCurrent = () => conversionIdRef.current === conversionId;
+
+		// Show the playlist as soon as it's loaded and update each track's
+		// status while matching runs
+		const showProgress = (progress: {
+			spotifyPlaylist: SourcePlaylist;
+			tracks: PlaylistTrackResult[];
+		}) => {
+			if (!isCurrent()) return;
+			setResult({
+				sourcePlaylist: progress.spotifyPlaylist,
+				playlistTracks: progress.tracks,
+				sourcePlatform: 'spotify',
+				deezerMatches: [],
+				youtubeMatches: [],
+				spotifyMatches: [],
+			});
+			setLoading(false);
+		};
+
+		convertSpotifyPlaylist(url, showProgress)
+			.then(showProgress)
+			.catch((err) => {
+				if (!isCurrent()) return;
+				const errorMessage =
+					err instanceof Error ? err.message : 'error.unknown';
+				setError(errorMessage);
+				setLoading(false);
+			});
+	};
+
 	const handleDeezerConversion = (url: string): void => {
+		if (parseDeezerPlaylistUrl(url)) {
+			handleDeezerPlaylistConversion(url);
+			return;
+		}
+
 		Promise.all([convertDeezerToYouTubeMusic(url), convertDeezerToSpotify(url)])
 			.then(([youtubeResult, spotifyResult]) => {
 				setResult({
 					sourceTrack: youtubeResult.deezerTrack,
+					sourceAlbum: youtubeResult.deezerAlbum,
 					sourcePlatform: 'deezer',
 					deezerMatches: [], // No need to show Deezer matches for Deezer source
 					youtubeMatches: youtubeResult.youtubeMatches,
+					youtubeAlbumMatches: youtubeResult.youtubeAlbumMatches,
 					spotifyMatches: spotifyResult.spotifyMatches,
-					spotifyAlbumMatches: [],
+					spotifyAlbumMatches: spotifyResult.spotifyAlbumMatches ?? [],
 				});
 				setLoading(false);
 			})
@@ -123,7 +242,43 @@ export const LinkConverter = () => {
 			});
 	};
 
+	const handleDeezerPlaylistConversion = (url: string): void => {
+		const conversionId = conversionIdRef.current;
+		const isCurrent = () => conversionIdRef.current === conversionId;
+
+		const showProgress = (progress: {
+			deezerPlaylist: SourcePlaylist;
+			tracks: PlaylistTrackResult[];
+		}) => {
+			if (!isCurrent()) return;
+			setResult({
+				sourcePlaylist: progress.deezerPlaylist,
+				playlistTracks: progress.tracks,
+				sourcePlatform: 'deezer',
+				deezerMatches: [],
+				youtubeMatches: [],
+				spotifyMatches: [],
+			});
+			setLoading(false);
+		};
+
+		convertDeezerPlaylist(url, showProgress)
+			.then(showProgress)
+			.catch((err) => {
+				if (!isCurrent()) return;
+				const errorMessage =
+					err instanceof Error ? err.message : 'error.unknown';
+				setError(errorMessage);
+				setLoading(false);
+			});
+	};
+
 	const handleYouTubeMusicConversion = (url: string): void => {
+		if (parseYouTubePlaylistUrl(url)) {
+			handleYouTubePlaylistConversion(url);
+			return;
+		}
+
 		Promise.all([
 			convertYouTubeMusicToSpotify(url),
 			convertYouTubeMusicToDeezer(url),
@@ -131,16 +286,74 @@ export const LinkConverter = () => {
 			.then(([spotifyResult, deezerResult]) => {
 				setResult({
 					sourceTrack: spotifyResult.youtubeMusicTrack,
+					sourceAlbum: spotifyResult.youtubeMusicAlbum,
 					sourcePlatform: 'youtubeMusic',
 					deezerMatches: deezerResult.deezerMatches,
 					youtubeMatches: [], // No need to show YouTube Music matches for YouTube Music source
 					spotifyMatches: spotifyResult.spotifyMatches,
-					spotifyAlbumMatches: [],
-					deezerAlbumMatches: [],
+					spotifyAlbumMatches: spotifyResult.spotifyAlbumMatches ?? [],
+					deezerAlbumMatches: deezerResult.deezerAlbumMatches ?? [],
+				});
+				setLoading(false);
+			})
+			.catch((err) => {
+				const errorMessage =
+					err instanceof Error ? err.message : 'error.unknown';
+				setError(errorMessage);
+				setLoading(false);
+			});
+	};
+
+	const handleYouTubePlaylistConversion = (url: string): void => {
+		const conversionId = conversionIdRef.current;
+		const isCurrent = () => conversionIdRef.current === conversionId;
+
+		const showProgress = (progress: {
+			youtubePlaylist: SourcePlaylist;
+			tracks: PlaylistTrackResult[];
+		}) => {
+			if (!isCurrent()) return;
+			setResult({
+				sourcePlaylist: progress.youtubePlaylist,
+				playlistTracks: progress.tracks,
+				sourcePlatform: 'youtubeMusic',
+				deezerMatches: [],
+				youtubeMatches: [],
+				spotifyMatches: [],
+			});
+			setLoading(false);
+		};
+
+		convertYouTubePlaylist(url, showProgress)
+			.then(showProgress)
+			.catch((err) => {
+				if (!isCurrent()) return;
+				const errorMessage =
+					err instanceof Error ? err.message : 'error.unknown';
+				setError(errorMessage);
+				setLoading(false);
+			});
+	};
+
+	const handleArtistConversion = (url: string): void => {
+		const conversionId = conversionIdRef.current;
+		convertArtist(url)
+			.then((artistResult) => {
+				if (conversionIdRef.current !== conversionId) return;
+				setResult({
+					sourceArtist: artistResult.artist,
+					sourcePlatform: artistResult.sourcePlatform,
+					deezerArtistMatches: artistResult.deezerArtistMatches,
+					spotifyArtistMatches: artistResult.spotifyArtistMatches,
+					youtubeArtistMatches: artistResult.youtubeArtistMatches,
+					deezerMatches: [],
+					youtubeMatches: [],
+					spotifyMatches: [],
 				});
 				setLoading(false);
 			})
 			.catch((err) => {
+				if (conversionIdRef.current !== conversionId) return;
 				const errorMessage =
 					err instanceof Error ? err.message : 'error.unknown';
 				setError(errorMessage);
@@ -149,6 +362,7 @@ export const LinkConverter = () => {
 	};
 
 	const handleClear = (): void => {
+		conversionIdRef.current += 1;
 		setInputUrl('');
 		setError('');
 		setResult(null);
@@ -189,10 +403,17 @@ export const LinkConverter = () => {
 						<ConversionResults
 							sourceTrack={result.sourceTrack}
 							sourceAlbum={result.sourceAlbum}
+							sourcePlaylist={result.sourcePlaylist}
+							playlistTracks={result.playlistTracks}
+							sourceArtist={result.sourceArtist}
+							deezerArtistMatches={result.deezerArtistMatches}
+							spotifyArtistMatches={result.spotifyArtistMatches}
+							youtubeArtistMatches={result.youtubeArtistMatches}
 							sourcePlatform={result.sourcePlatform}
 							deezerMatches={result.deezerMatches}
 							deezerAlbumMatches={result.deezerAlbumMatches}
 							youtubeMatches={result.youtubeMatches}
+							youtubeAlbumMatches={result.youtubeAlbumMatches}
 							spotifyMatches={result.spotifyMatches || []}
 							spotifyAlbumMatches={result.spotifyAlbumMatches}
 							onClear={handleClear}
@@ -0,0 +1,116 @@
+import deezerService from '../services/deezerService';
+import spotifyService from '../services/spotifyService';
+import youtubeMusicService from '../services/youtubeMusicService';
+import type { PlatformType, SourceArtist } from '../types/converter.types';
+import type { DeezerArtist } from '../types/deezer.types';
+import type { SpotifyArtist } from '../types/spotify.types';
+import type { YouTubeMusicArtist } from '../types/youtubeMusic.types';
+import {
+	parseDeezerArtistUrl,
+	parseSpotifyArtistUrl,
+	parseYouTubeMusicArtistUrl,
+} from '../utils/urlParser';
+
+/**
+ * Result interface for artist conversions
+ */
+interface ArtistConversionResult {
+	/** Platform of the pasted artist page */
+	sourcePlatform: PlatformType;
+	/** The original artist information */
+	artist: SourceArtist;
+	/** Matching artists on each other platform (empty for the source platform) */
+	deezerArtistMatches: DeezerArtist[];
+	spotifyArtistMatches: SpotifyArtist[];
+	youtubeArtistMatches: YouTubeMusicArtist[];
+}
+
+/**
+ * Load the artist of an artist page URL from its platform
+ */
+const getSourceArtist = (
+	url: string,
+): Promise<{ sourcePlatform: PlatformType; artist: SourceArtist }> | null => {
+	const spotifyId = parseSpotifyArtistUrl(url);
+	if (spotifyId) {
+		return spotifyService
+			.getArtist(spotifyId)
+			.then((artist) => ({ sourcePlatform: 'spotify', artist }));
+	}
+	const deezerId = parseDeezerArtistUrl(url);
+	if (deezerId) {
+		return deezerService
+			.getArtist(deezerId)
+			.then((artist) => ({ sourcePlatform: 'deezer', artist }));
+	}
+	const youtubeId = parseYouTubeMusicArtistUrl(url);
+	if (youtubeId) {
+		return youtubeMusicService
+			.getArtist(youtubeId)
+			.then((artist) => ({ sourcePlatform: 'youtubeMusic', artist }));
+	}
+	return null;
+};
+
+/**
+ * Hook for converting artist pages between Spotify, Deezer and YouTube Music
+ *
+ * @returns Object containing the convert function
+ */
+export const useArtistConversion = () => {
+	/**
+	 * Convert an artist page URL, finding the artist page on the other platforms
+	 *
+	 * @param artistUrl - The Spotify, Deezer or YouTube Music artist URL to convert
+	 * @returns Promise resolving to the artist and its matches on each other platform
+	 * @throws Error if URL is invalid or the artist can't be loaded
+	 */
+	const convert = (artistUrl: string): Promise<ArtistConversionResult> => {
+		const source = getSourceArtist(artistUrl);
+
+		if (!source) {
+			return Promise.reject(
+				new Error('Invalid artist URL. Please check the format and try again.'),
+			);
+		}
+
+		return source.then(({ sourcePlatform, artist }) => {
+			// Top tracks and albums tell same-named artists apart
+			const profile = {
+				name: artist.name,
+				topTracks: artist.topTracks ?? [],
+				albums: 'albums' in artist ? (artist.albums ?? []) : [],
+			};
+
+			return Promise.all([
+				sourcePlatform === 'deezer'
+					? []
+					: deezerService.findArtistMatches(profile),
+				sourcePlatform === 'spotify'
+					? []
+					: spotifyService.findArtistMatches({
+							...profile,
+							images:
+								'images' in artist ? artist.images : [{ url: artist.picture }],
+						}),
+				sourcePlatform === 'youtubeMusic'
+					? []
+					: youtubeMusicService.findArtistMatches(profile),
+			]).then(
+				([
+					deezerArtistMatches,
+					spotifyArtistMatches,
+					youtubeArtistMatches,
+				]) => ({
+					sourcePlatform,
+					artist,
+					deezerArtistMatches,
+					spotifyArtistMatches,
+					youtubeArtistMatches,
+				}),
+			);
+		});
+	};
+
+	return { convert };
+};
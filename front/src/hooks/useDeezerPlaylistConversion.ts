@@ -0,0 +1,74 @@
+import deezerService from '../services/deezerService';
+import spotifyService from '../services/spotifyService';
+import youtubeMusicService from '../services/youtubeMusicService';
+import type { PlaylistTrackResult } from '../types/converter.types';
+import type { DeezerPlaylist } from '../types/deezer.types';
+import { matchPlaylistTracks } from '../utils/playlistMatching';
+import { parseDeezerPlaylistUrl } from '../utils/urlParser';
+
+/**
+ * Result interface for Deezer playlist conversions
+ */
+interface DeezerPlaylistConversionResult {
+	/** The original Deezer playlist information */
+	deezerPlaylist: DeezerPlaylist;
+	/** Per-track matching results, in playlist order */
+	tracks: PlaylistTrackResult[];
+}
+
+/**
+ * Hook for converting Deezer playlists to Spotify and YouTube Music matches
+ *
+ * @returns Object containing the convert function
+ */
+export const useDeezerPlaylistConversion = () => {
+	/**
+	 * Convert a Deezer playlist URL, matching every track on Spotify and YouTube Music
+	 *
+	 * @param deezerUrl - The Deezer playlist URL to convert
+	 * @param onProgress - Called with the playlist and a per-track snapshot whenever a track settles
+	 * @returns Promise resolving to the playlist and its per-track results
+	 * @throws Error if URL is invalid or the playlist can't be loaded
+	 */
+	const convert = (
+		deezerUrl: string,
+		onProgress?: (result: DeezerPlaylistConversionResult) => void,
+	): Promise<DeezerPlaylistConversionResult> => {
+		const playlistId = parseDeezerPlaylistUrl(deezerUrl);
+
+		if (!playlistId) {
+			return Promise.reject(
+				new Error('Invalid Deezer URL. Please check the format and try again.'),
+			);
+		}
+
+		return deezerService.getPlaylist(playlistId).then((deezerPlaylist) =>
+			matchPlaylistTracks(
+				deezerPlaylist.tracks,
+				['spotifyMatch', 'youtubeMatch'],
+				(track) =>
+					Promise.all([
+						spotifyService.findTrackMatches({
+							name: track.title,
+							artists: [track.artist],
+							images: track.cover ? [{ url: track.cover }] : undefined,
+						}),
+						youtubeMusicService.findTrackMatches({
+							name: track.title,
+							artists: [track.artist],
+							images: track.cover ? [{ url: track.cover }] : undefined,
+							duration: track.duration * 1000,
+							explicit: track.explicit,
+							album: track.album,
+						}),
+					]).then(([spotifyMatches, youtubeMatches]) => ({
+						spotifyMatch: spotifyMatches[0],
+						youtubeMatch: youtubeMatches[0],
+					})),
+				(tracks) => onProgress?.({ deezerPlaylist, tracks }),
+			).then((tracks) => ({ deezerPlaylist, tracks })),
+		);
+	};
+
+	return { convert };
+};
@@ -1,8 +1,8 @@
 import deezerService from '../services/deezerService';
 import spotifyService from '../services/spotifyService';
-import type { DeezerTrack } from '../types/deezer.types';
-import type { SpotifyTrack } from '../types/spotify.types';
-import { parseDeezerUrl } from '../utils/urlParser';
+import type { DeezerAlbum, DeezerTrack } from '../types/deezer.types';
+import type { SpotifyAlbum, SpotifyTrack } from '../types/spotify.types';
+import { parseDeezerAlbumUrl, parseDeezerUrl } from '../utils/urlParser';
 
 /**
  * Result interface for Deezer to Spotify conversions
@@ -10,12 +10,16 @@ import { parseDeezerUrl } from '../utils/urlParser';
 interface SpotifyConversionResult {
 	/** The original Deezer track information */
 	deezerTrack?: DeezerTrack;
-	/** Array of matching Spotify tracks (up to 5 best matches) */
+	/** The original Deezer album information */
+	deezerAlbum?: DeezerAlbum;
+	/** Array of matching Spotify tracks (up to 5 best matches, or the best match of each album track) */
 	spotifyMatches: SpotifyTrack[];
+	/** Array of matching Spotify albums */
+	spotifyAlbumMatches?: SpotifyAlbum[];
 }
 
 /**
- * Hook for converting Deezer tracks to Spotify matches
+ * Hook for converting Deezer tracks and albums to Spotify matches
  *
  * @returns Object containing the convert function
  */
@@ -23,11 +27,12 @@ export const useDeezerToSpotify = () => {
 	/**
 	 * Convert a Deezer URL to Spotify matches
 	 *
-	 * @param deezerUrl - The Deezer track URL to convert
+	 * @param deezerUrl - The Deezer track or album URL to convert
 	 * @returns Promise resolving to conversion result with Deezer content and Spotify matches
 	 */
 	const convert = (deezerUrl: string): Promise<SpotifyConversionResult> => {
 		const trackId = parseDeezerUrl(deezerUrl);
+		const albumId = parseDeezerAlbumUrl(deezerUrl);
 
 		if (trackId) {
 			// Handle track conversion
@@ -46,6 +51,32 @@ export const useDeezerToSpotify = () => {
 						return { deezerTrack, spotifyMatches };
 					});
 			});
+		} else if (albumId) {
+			// Handle album conversion: album links, and the best match of every track
+			return deezerService.getAlbum(albumId).then((deezerAlbum) =>
+				Promise.all([
+					spotifyService.findAlbumMatches({
+						name: deezerAlbum.title,
+						artists: [deezerAlbum.artist],
+						images: deezerAlbum.images,
+					}),
+					Promise.all(
+						(deezerAlbum.tracks ?? []).map((track) =>
+							spotifyService
+								.findTrackMatches({
+									name: track.title,
+									artists: [track.artist || deezerAlbum.artist],
+									images: track.cover ? [{ url: track.cover }] : undefined,
+								})
+								.then((matches) => matches.slice(0, 1)),
+						),
+					),
+				]).then(([spotifyAlbumMatches, trackMatchesArray]) => ({
+					deezerAlbum,
+					spotifyMatches: trackMatchesArray.flat(),
+					spotifyAlbumMatches,
+				})),
+			);
 		} else {
 			// Return a generic track that will show as "no results found"
 			return Promise.resolve({
@@ -1,21 +1,29 @@
 import deezerService from '../services/deezerService';
 import youtubeMusicService from '../services/youtubeMusicService';
-import type { DeezerTrack } from '../types/deezer.types';
+import type { DeezerAlbum, DeezerTrack } from '../types/deezer.types';
 import type { YouTubeMusicTrack } from '../types/youtubeMusic.types';
-import { parseDeezerUrl } from '../utils/urlParser';
+import {
+	mapWithConcurrency,
+	TRACK_MATCH_CONCURRENCY,
+} from '../utils/concurrency';
+import { parseDeezerAlbumUrl, parseDeezerUrl } from '../utils/urlParser';
 
 /**
  * Result interface for Deezer to YouTube Music conversions
  */
 interface DeezerToYouTubeMusicResult {
 	/** The original Deezer track information */
-	deezerTrack: DeezerTrack;
-	/** Array of YouTube Music search links */
+	deezerTrack?: DeezerTrack;
+	/** The original Deezer album information */
+	deezerAlbum?: DeezerAlbum;
+	/** YouTube Music matches of the track, or the best match of each album track */
 	youtubeMatches: YouTubeMusicTrack[];
+	/** YouTube Music search links for the album */
+	youtubeAlbumMatches?: YouTubeMusicTrack[];
 }
 
 /**
- * Hook for converting Deezer tracks to YouTube Music search links
+ * Hook for converting Deezer tracks and albums to YouTube Music matches
  *
  * @returns Object containing the convert function
  */
@@ -23,12 +31,48 @@ export const useDeezerToYouTubeMusic = () => {
 	/**
 	 * Convert a Deezer URL to YouTube Music search links
 	 *
-	 * @param deezerUrl - The Deezer track URL to convert
+	 * @param deezerUrl - The Deezer track or album URL to convert
 	 * @returns Promise resolving to conversion result with Deezer track and YouTube Music search links
 	 * @throws Error if URL is invalid or no search links can be generated
 	 */
 	const convert = (deezerUrl: string): Promise<DeezerToYouTubeMusicResult> => {
 		const trackId = parseDeezerUrl(deezerUrl);
+		const albumId = parseDeezerAlbumUrl(deezerUrl);
+
+		if (albumId) {
+			// Handle album conversion: album links, and the best match of every track
+			return deezerService.getAlbum(albumId).then((deezerAlbum) =>
+				Promise.all([
+					youtubeMusicService.findAlbumMatches({
+						name: deezerAlbum.title,
+						artists: [deezerAlbum.artist],
+						images: deezerAlbum.images,
+					}),
+					mapWithConcurrency(
+						deezerAlbum.tracks ?? [],
+						TRACK_MATCH_CONCURRENCY,
+						(track) =>
+							youtubeMusicService
+								.findTrackMatches({
+									name: track.title,
+									artists: [track.artist || deezerAlbum.artist],
+									images: [{ url: track.cover }],
+									duration: track.duration * 1000,
+									explicit: track.explicit,
+									album: track.album,
+									album_type: track.albumType,
+									release_date: track.releaseDate,
+								})
+								.then((matches) => matches.slice(0, 1)),
+					),
+				]).then(([youtubeAlbumMatches, trackMatchesArray]) => ({
+					deezerAlbum,
+					youtubeMatches: trackMatchesArray.flat(),
+					youtubeAlbumMatches,
+				})),
+			);
+		}
+
 		if (!trackId) {
 			return Promise.reject(
 				new Error('Invalid Deezer URL. Please check the format and try again.'),
@@ -41,6 +85,11 @@ export const useDeezerToYouTubeMusic = () => {
 					name: deezerTrack.title,
 					artists: [deezerTrack.artist],
 					images: [{ url: deezerTrack.cover }],
+					duration: deezerTrack.duration * 1000,
+					explicit: deezerTrack.explicit,
+					album: deezerTrack.album,
+					album_type: deezerTrack.albumType,
+					release_date: deezerTrack.releaseDate,
 				})
 				.then((youtubeMatches) => {
 					if (youtubeMatches.length === 0) {
@@ -0,0 +1,65 @@
+import deezerService from '../services/deezerService';
+import spotifyService from '../services/spotifyService';
+import youtubeMusicService from '../services/youtubeMusicService';
+import type { PlaylistTrackResult } from '../types/converter.types';
+import type { SpotifyPlaylist } from '../types/spotify.types';
+import { matchPlaylistTracks } from '../utils/playlistMatching';
+import { parseSpotifyPlaylistUrl } from '../utils/urlParser';
+
+/**
+ * Result interface for Spotify playlist conversions
+ */
+interface SpotifyPlaylistConversionResult {
+	/** The original Spotify playlist information */
+	spotifyPlaylist: SpotifyPlaylist;
+	/** Per-track matching results, in playlist order */
+	tracks: PlaylistTrackResult[];
+}
+
+/**
+ * Hook for converting Spotify playlists to Deezer and YouTube Music matches
+ *
+ * @returns Object containing the convert function
+ */
+export const useSpotifyPlaylistConversion = () => {
+	/**
+	 * Convert a Spotify playlist URL, matching every track on Deezer and YouTube Music
+	 *
+	 * @param spotifyUrl - The Spotify playlist URL to convert
+	 * @param onProgress - Called with the playlist and a per-track snapshot whenever a track settles
+	 * @returns Promise resolving to the playlist and its per-track results
+	 * @throws Error if URL is invalid or the playlist can't be loaded
+	 */
+	const convert = (
+		spotifyUrl: string,
+		onProgress?: (result: SpotifyPlaylistConversionResult) => void,
+	): Promise<SpotifyPlaylistConversionResult> => {
+		const playlistId = parseSpotifyPlaylistUrl(spotifyUrl);
+
+		if (!playlistId) {
+			return Promise.reject(
+				new Error(
+					'Invalid Spotify URL. Please check the format and try again.',
+				),
+			);
+		}
+
+		return spotifyService.getPlaylist(playlistId).then((spotifyPlaylist) =>
+			matchPlaylistTracks(
+				spotifyPlaylist.tracks,
+				['deezerMatch', 'youtubeMatch'],
+				(track) =>
+					Promise.all([
+						deezerService.findTrackMatches(track),
+						youtubeMusicService.findTrackMatches(track),
+					]).then(([deezerMatches, youtubeMatches]) => ({
+						deezerMatch: deezerMatches[0],
+						youtubeMatch: youtubeMatches[0],
+					})),
+				(tracks) => onProgress?.({ spotifyPlaylist, tracks }),
+			).then((tracks) => ({ spotifyPlaylist, tracks })),
+		);
+	};
+
+	return { convert };
+};
@@ -0,0 +1,28 @@
+import spotifyService from '../services/spotifyService';
+import { parseSpotifyShortUrl } from '../utils/urlParser';
+
+/**
+ * Hook for resolving Spotify short links (spotify.link, spoti.fi)
+ *
+ * @returns Object containing the resolve function
+ */
+export const useSpotifyShortLink = () => {
+	/**
+	 * Resolve a Spotify short link to the canonical URL it points to
+	 *
+	 * @param spotifyUrl - A Spotify URL, possibly a short link
+	 * @returns Promise resolving to the canonical URL, or the input unchanged if it isn't a short link
+	 * @throws Error if the short link can't be resolved
+	 */
+	const resolve = (spotifyUrl: string): Promise<string> => {
+		const shortId = parseSpotifyShortUrl(spotifyUrl);
+
+		if (!shortId) {
+			return Promise.resolve(spotifyUrl);
+		}
+
+		return spotifyService.resolveShortLink(shortId);
+	};
+
+	return { resolve };
+};
@@ -2,6 +2,10 @@ import deezerService from '../services/deezerService';
 import spotifyService from '../services/spotifyService';
 import type { DeezerAlbum, DeezerTrack } from '../types/deezer.types';
 import type { SpotifyAlbum, SpotifyTrack } from '../types/spotify.types';
+import {
+	mapWithConcurrency,
+	TRACK_MATCH_CONCURRENCY,
+} from '../utils/concurrency';
 import { parseSpotifyAlbumUrl, parseSpotifyUrl } from '../utils/urlParser';
 
 /**
@@ -55,41 +59,47 @@ export const useSpotifyToDeezer = () => {
 		} else if (albumId) {
 			// Handle album conversion
 			return spotifyService.getAlbum(albumId).then((spotifyAlbum) => {
-				return deezerService
-					.findAlbumMatches(spotifyAlbum)
-					.then((deezerAlbumMatches) => {
-						// For albums, we'll also try to get tracks if available
-						return spotifyService
-							.getAlbumTracks(albumId)
-							.then((spotifyTracks) => {
-								let deezerMatches: DeezerTrack[] = [];
+				// Load the tracklist first: album matching compares it with the
+				// candidates' tracklists, and every track gets matched too. A failed
+				// tracklist fetch still leaves title-based album matches
+				return spotifyService
+					.getAlbumTracks(albumId)
+					.catch((error) => {
+						console.warn('Failed to load Spotify album tracks:', error);
+						return [] as SpotifyTrack[];
+					})
+					.then((spotifyTracks) => {
+						if (spotifyTracks.length > 0) {
+							spotifyAlbum.total_tracks = spotifyTracks.length;
+							spotifyAlbum.tracks = spotifyTracks;
+						}
 
+						return deezerService
+							.findAlbumMatches(spotifyAlbum)
+							.then((deezerAlbumMatches) => {
 								// If we have tracks, find matches for them
-								if (spotifyTracks.length > 0) {
-									const trackMatchPromises = spotifyTracks.map((track) =>
-										deezerService
-											.findTrackMatches(track)
-											.then((matches) => matches.slice(0, 1)),
-									);
-
-									return Promise.all(trackMatchPromises).then(
-										(trackMatchesArray) => {
-											deezerMatches = trackMatchesArray.flat();
-
-											return {
-												spotifyAlbum,
-												deezerMatches,
-												deezerAlbumMatches,
-											};
-										},
-									);
-								} else {
+								if (spotifyTracks.length === 0) {
 									return {
 										spotifyAlbum,
-										deezerMatches,
+										deezerMatches: [] as DeezerTrack[],
 										deezerAlbumMatches,
 									};
 								}
+
+								// Each track runs a full query ladder: keep the album within
+								// Deezer's rate quota
+								return mapWithConcurrency(
+									spotifyTracks,
+									TRACK_MATCH_CONCURRENCY,
+									(track) =>
+										deezerService
+											.findTrackMatches(track)
+											.then((matches) => matches.slice(0, 1)),
+								).then((trackMatchesArray) => ({
+									spotifyAlbum,
+									deezerMatches: trackMatchesArray.flat(),
+									deezerAlbumMatches,
+								}));
 							});
 					});
 			});
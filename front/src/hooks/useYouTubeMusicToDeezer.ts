@@ -1,8 +1,18 @@
 import deezerService from '../services/deezerService';
 import youtubeMusicService from '../services/youtubeMusicService';
-import type { DeezerTrack } from '../types/deezer.types';
-import type { YouTubeMusicTrack } from '../types/youtubeMusic.types';
-import { parseYouTubeMusicUrl } from '../utils/urlParser';
+import type { DeezerAlbum, DeezerTrack } from '../types/deezer.types';
+import type {
+	YouTubeMusicAlbum,
+	YouTubeMusicTrack,
+} from '../types/youtubeMusic.types';
+import {
+	mapWithConcurrency,
+	TRACK_MATCH_CONCURRENCY,
+} from '../utils/concurrency';
+import {
+	parseYouTubeMusicAlbumUrl,
+	parseYouTubeMusicUrl,
+} from '../utils/urlParser';
 
 /**
  * Result interface for YouTube Music to Deezer conversions
@@ -10,8 +20,12 @@ import { parseYouTubeMusicUrl } from '../utils/urlParser';
 interface DeezerConversionResult {
 	/** The original YouTube Music track information */
 	youtubeMusicTrack?: YouTubeMusicTrack;
-	/** Array of matching Deezer tracks (up to 5 best matches) */
+	/** The original YouTube Music album information */
+	youtubeMusicAlbum?: YouTubeMusicAlbum;
+	/** Array of matching Deezer tracks (up to 5 best matches, or the best match of each album track) */
 	deezerMatches: DeezerTrack[];
+	/** Array of matching Deezer albums */
+	deezerAlbumMatches?: DeezerAlbum[];
 }
 
 /**
@@ -23,13 +37,14 @@ export const useYouTubeMusicToDeezer = () => {
 	/**
 	 * Convert a YouTube Music URL to Deezer matches
 	 *
-	 * @param youtubeMusicUrl - The YouTube Music track URL to convert
+	 * @param youtubeMusicUrl - The YouTube Music track or album URL to convert
 	 * @returns Promise resolving to conversion result with YouTube Music content and Deezer matches
 	 */
 	const convert = (
 		youtubeMusicUrl: string,
 	): Promise<DeezerConversionResult> => {
 		const trackId = parseYouTubeMusicUrl(youtubeMusicUrl);
+		const albumId = parseYouTubeMusicAlbumUrl(youtubeMusicUrl);
 
 		if (trackId) {
 			// Handle track conversion
@@ -41,6 +56,26 @@ export const useYouTubeMusicToDeezer = () => {
 						return { youtubeMusicTrack, deezerMatches };
 					});
 			});
+		} else if (albumId) {
+			// Handle album conversion: album matches compare tracklists, and every
+			// track gets its best match
+			return youtubeMusicService.getAlbum(albumId).then((youtubeMusicAlbum) =>
+				Promise.all([
+					deezerService.findAlbumMatches(youtubeMusicAlbum),
+					mapWithConcurrency(
+						youtubeMusicAlbum.tracks,
+						TRACK_MATCH_CONCURRENCY,
+						(track) =>
+							deezerService
+								.findTrackMatches(track)
+								.then((matches) => matches.slice(0, 1)),
+					),
+				]).then(([deezerAlbumMatches, trackMatchesArray]) => ({
+					youtubeMusicAlbum,
+					deezerMatches: trackMatchesArray.flat(),
+					deezerAlbumMatches,
+				})),
+			);
 		} else {
 			// Return a generic track that will show as "no results found"
 			return Promise.resolve({
@@ -1,8 +1,14 @@
 import spotifyService from '../services/spotifyService';
 import youtubeMusicService from '../services/youtubeMusicService';
-import type { SpotifyTrack } from '../types/spotify.types';
-import type { YouTubeMusicTrack } from '../types/youtubeMusic.types';
-import { parseYouTubeMusicUrl } from '../utils/urlParser';
+import type { SpotifyAlbum, SpotifyTrack } from '../types/spotify.types';
+import type {
+	YouTubeMusicAlbum,
+	YouTubeMusicTrack,
+} from '../types/youtubeMusic.types';
+import {
+	parseYouTubeMusicAlbumUrl,
+	parseYouTubeMusicUrl,
+} from '../utils/urlParser';
 
 /**
  * Result interface for YouTube Music to Spotify conversions
@@ -10,8 +16,12 @@ import { parseYouTubeMusicUrl } from '../utils/urlParser';
 interface SpotifyConversionResult {
 	/** The original YouTube Music track information */
 	youtubeMusicTrack?: YouTubeMusicTrack;
-	/** Array of matching Spotify tracks (up to 5 best matches) */
+	/** The original YouTube Music album information */
+	youtubeMusicAlbum?: YouTubeMusicAlbum;
+	/** Array of matching Spotify tracks (up to 5 best matches, or the best match of each album track) */
 	spotifyMatches: SpotifyTrack[];
+	/** Array of matching Spotify albums */
+	spotifyAlbumMatches?: SpotifyAlbum[];
 }
 
 /**
@@ -23,13 +33,14 @@ export const useYouTubeMusicToSpotify = () => {
 	/**
 	 * Convert a YouTube Music URL to Spotify matches
 	 *
-	 * @param youtubeMusicUrl - The YouTube Music track URL to convert
+	 * @param youtubeMusicUrl - The YouTube Music track or album URL to convert
 	 * @returns Promise resolving to conversion result with YouTube Music content and Spotify matches
 	 */
 	const convert = (
 		youtubeMusicUrl: string,
 	): Promise<SpotifyConversionResult> => {
 		const trackId = parseYouTubeMusicUrl(youtubeMusicUrl);
+		const albumId = parseYouTubeMusicAlbumUrl(youtubeMusicUrl);
 
 		if (trackId) {
 			// Handle track conversion
@@ -41,6 +52,24 @@ export const useYouTubeMusicToSpotify = () => {
 						return { youtubeMusicTrack, spotifyMatches };
 					});
 			});
+		} else if (albumId) {
+			// Handle album conversion
+			return youtubeMusicService.getAlbum(albumId).then((youtubeMusicAlbum) =>
+				Promise.all([
+					spotifyService.findAlbumMatches(youtubeMusicAlbum),
+					Promise.all(
+						youtubeMusicAlbum.tracks.map((track) =>
+							spotifyService
+								.findTrackMatches(track)
+								.then((matches) => matches.slice(0, 1)),
+						),
+					),
+				]).then(([spotifyAlbumMatches, trackMatchesArray]) => ({
+					youtubeMusicAlbum,
+					spotifyMatches: trackMatchesArray.flat(),
+					spotifyAlbumMatches,
+				})),
+			);
 		} else {
 			// Return a generic track that will show as "no results found"
 			return Promise.resolve({
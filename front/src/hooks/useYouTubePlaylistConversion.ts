@@ -0,0 +1,65 @@
+import deezerService from '../services/deezerService';
+import spotifyService from '../services/spotifyService';
+import youtubeMusicService from '../services/youtubeMusicService';
+import type { PlaylistTrackResult } from '../types/converter.types';
+import type { YouTubeMusicPlaylist } from '../types/youtubeMusic.types';
+import { matchPlaylistTracks } from '../utils/playlistMatching';
+import { parseYouTubePlaylistUrl } from '../utils/urlParser';
+
+/**
+ * Result interface for YouTube playlist conversions
+ */
+interface YouTubePlaylistConversionResult {
+	/** The original YouTube playlist, with its skipped videos */
+	youtubePlaylist: YouTubeMusicPlaylist;
+	/** Per-track matching results, in playlist order */
+	tracks: PlaylistTrackResult[];
+}
+
+/**
+ * Hook for converting YouTube and YouTube Music playlists to Deezer and Spotify matches
+ *
+ * @returns Object containing the convert function
+ */
+export const useYouTubePlaylistConversion = () => {
+	/**
+	 * Convert a YouTube playlist URL, matching every song on Deezer and Spotify
+	 *
+	 * @param youtubeUrl - The YouTube or YouTube Music playlist URL to convert
+	 * @param onProgress - Called with the playlist and a per-track snapshot whenever a track settles
+	 * @returns Promise resolving to the playlist and its per-track results
+	 * @throws Error if URL is invalid or the playlist can't be loaded
+	 */
+	const convert = (
+		youtubeUrl: string,
+		onProgress?: (result: YouTubePlaylistConversionResult) => void,
+	): Promise<YouTubePlaylistConversionResult> => {
+		const playlistId = parseYouTubePlaylistUrl(youtubeUrl);
+
+		if (!playlistId) {
+			return Promise.reject(
+				new Error(
+					'Invalid YouTube playlist URL. Please check the format and try again.',
+				),
+			);
+		}
+
+		return youtubeMusicService.getPlaylist(playlistId).then((youtubePlaylist) =>
+			matchPlaylistTracks(
+				youtubePlaylist.tracks,
+				['deezerMatch', 'spotifyMatch'],
+				(track) =>
+					Promise.all([
+						deezerService.findTrackMatches(track),
+						spotifyService.findTrackMatches(track),
+					]).then(([deezerMatches, spotifyMatches]) => ({
+						deezerMatch: deezerMatches[0],
+						spotifyMatch: spotifyMatches[0],
+					})),
+				(tracks) => onProgress?.({ youtubePlaylist, tracks }),
+			).then((tracks) => ({ youtubePlaylist, tracks })),
+		);
+	};
+
+	return { convert };
+};
@@ -18,6 +18,10 @@ const resources = {
 				'Please enter a Spotify, Deezer or YouTube Music URL to convert',
 			'form.error.invalid':
 				'Please enter a valid Spotify, Deezer or YouTube Music URL',
+			'form.explicitPreference': 'Favour',
+			'form.explicitPreference.source': 'Same version as the source',
+			'form.explicitPreference.explicit': 'Explicit versions',
+			'form.explicitPreference.clean': 'Clean versions',
 
 			// Results
 			'results.title': 'Conversion Results',
@@ -35,7 +39,86 @@ const resources = {
 			'results.topMatch': 'Top Match',
 			'results.otherMatches': 'Other Matches',
 			'results.exploreMore': 'Explore More',
+			'results.exactMatch': 'Exact Match',
+			'results.exactMatch.badge': 'ISRC',
+			'results.exactMatch.hint':
+				'Same recording: matched by its ISRC code, not by name',
+			'results.why': 'Why this match? (score {{score}})',
+			'results.why.total': 'Total',
+			'results.why.signal.isrc': 'Same recording (ISRC)',
+			'results.why.signal.artist': 'Artist',
+			'results.why.signal.title': 'Title',
+			'results.why.signal.duration': 'Duration',
+			'results.why.signal.cover': 'Cover art',
+			'results.why.signal.version': 'Version',
+			'results.why.signal.explicit': 'Explicit / clean',
+			'results.why.signal.album': 'Album',
+			'results.why.signal.releaseYear': 'Release year',
+			'results.why.signal.compilation': 'Compilation',
+			'results.why.signal.tracklist': 'Tracklist',
+			'results.why.signal.edition': 'Edition',
+			'results.why.signal.topTracks': 'Top tracks',
+			'results.why.signal.discography': 'Discography',
+			'results.why.signal.searchRank': 'Search ranking',
+			'results.why.foundBy': 'Found by:',
+			'results.why.strategy.advanced': 'advanced search',
+			'results.why.strategy.strict': 'strict search',
+			'results.why.strategy.relaxed': 'relaxed search',
+			'results.why.strategy.stripped': 'search without tags',
+			'results.why.strategy.transliterated': 'transliterated search',
+			'version.live': 'Live',
+			'version.acoustic': 'Acoustic',
+			'version.instrumental': 'Instrumental',
+			'version.remix': 'Remix',
+			'version.remixBy': '{{remixer}} Remix',
+			'version.spedUp': 'Sped Up',
+			'version.radioEdit': 'Radio Edit',
+			'version.extendedMix': 'Extended Mix',
+			'version.remastered': 'Remastered',
+			'version.remasteredIn': 'Remastered {{year}}',
+			'explicit.badge': 'E',
+			'explicit.hint': 'Explicit lyrics',
+			'results.edition.sameEdition': 'Same edition',
+			'results.edition.expandedEdition': 'Expanded edition',
+			'results.edition.differentRelease': 'Different release',
+			'results.edition.missing': 'Missing: {{tracks}}',
+			'results.edition.extra': 'Extra: {{tracks}}',
 			'results.youtube.matches': 'YouTube Music Matches',
+			'results.playlist.matches':
+				'Matched {{matched}} of {{count}} playlist tracks on every platform.',
+
+			// Playlists
+			'playlist.title': 'Source Playlist',
+			'playlist.by': 'by {{owner}}',
+			'playlist.trackCount': '{{count}} tracks',
+			'playlist.progress': 'Matching tracks… {{done}} of {{total}} done',
+			'playlist.summary': '{{matched}} of {{total}} tracks fully matched',
+			'playlist.skipped':
+				'{{count}} local or unavailable tracks could not be converted',
+			'playlist.skippedVideos': '{{count}} videos were left out',
+			'playlist.skipReason.deleted': 'Deleted',
+			'playlist.skipReason.unavailable': 'Unavailable',
+			'playlist.skipReason.notMusic': 'Not a song',
+			'playlist.noMatchOn': 'No match on {{platform}}',
+			'playlist.searchOn': '🔍 Search on {{platform}}',
+			'playlist.status.pending': 'Matching…',
+			'playlist.status.matched': 'Matched',
+			'playlist.status.partial': 'Partial',
+			'playlist.status.notFound': 'Not found',
+			'playlist.status.error': 'Error',
+
+			// Artists
+			'results.artist.matches':
+				'Found the artist page on {{count}} of {{total}} platforms.',
+			'artist.title': 'Source Artist',
+			'artist.topTracks': 'Top tracks: {{tracks}}',
+			'artist.albumCount': '{{count}} albums',
+			'artist.matchesOn': 'Artist on {{platform}}',
+			'artist.searchOn': 'Search on {{platform}}',
+			'artist.searchOnlyNote':
+				'{{platform}} artists cannot be looked up from here: this link opens a search for the name, with no confidence score. Check that the page you open is the right artist.',
+			'artist.searchLink': '🔍 Search results, not a matched page',
+			'artist.noMatch': 'No artist found on {{platform}}',
 
 			// Track info
 			'track.by': 'by',
@@ -103,6 +186,10 @@ const resources = {
 				'Veuillez entrer une URL Spotify, Deezer ou YouTube Music à convertir',
 			'form.error.invalid':
 				'Veuillez entrer une URL Spotify, Deezer ou YouTube Music valide',
+			'form.explicitPreference': 'Privilégier',
+			'form.explicitPreference.source': 'La même version que la source',
+			'form.explicitPreference.explicit': 'Les versions explicites',
+			'form.explicitPreference.clean': 'Les versions censurées',
 
 			// Results
 			'results.title': 'Résultats de conversion',
@@ -120,7 +207,88 @@ const resources = {
 			'results.topMatch': 'Meilleure correspondance',
 			'results.otherMatches': 'Autres correspondances',
 			'results.exploreMore': 'Explorer plus',
+			'results.exactMatch': 'Correspondance exacte',
+			'results.exactMatch.badge': 'ISRC',
+			'results.exactMatch.hint':
+				'Même enregistrement : trouvé grâce à son code ISRC, pas par son nom',
+			'results.why': 'Pourquoi cette correspondance ? (score {{score}})',
+			'results.why.total': 'Total',
+			'results.why.signal.isrc': 'Même enregistrement (ISRC)',
+			'results.why.signal.artist': 'Artiste',
+			'results.why.signal.title': 'Titre',
+			'results.why.signal.duration': 'Durée',
+			'results.why.signal.cover': 'Pochette',
+			'results.why.signal.version': 'Version',
+			'results.why.signal.explicit': 'Explicite / censurée',
+			'results.why.signal.album': 'Album',
+			'results.why.signal.releaseYear': 'Année de sortie',
+			'results.why.signal.compilation': 'Compilation',
+			'results.why.signal.tracklist': 'Liste des titres',
+			'results.why.signal.edition': 'Édition',
+			'results.why.signal.topTracks': 'Titres phares',
+			'results.why.signal.discography': 'Discographie',
+			'results.why.signal.searchRank': 'Classement de recherche',
+			'results.why.foundBy': 'Trouvé par :',
+			'results.why.strategy.advanced': 'recherche avancée',
+			'results.why.strategy.strict': 'recherche stricte',
+			'results.why.strategy.relaxed': 'recherche souple',
+			'results.why.strategy.stripped': 'recherche sans mentions',
+			'results.why.strategy.transliterated': 'recherche translittérée',
+			'version.live': 'Live',
+			'version.acoustic': 'Acoustique',
+			'version.instrumental': 'Instrumental',
+			'version.remix': 'Remix',
+			'version.remixBy': 'Remix de {{remixer}}',
+			'version.spedUp': 'Accéléré',
+			'version.radioEdit': 'Version radio',
+			'version.extendedMix': 'Version longue',
+			'version.remastered': 'Remasterisé',
+			'version.remasteredIn': 'Remasterisé {{year}}',
+			'explicit.badge': 'E',
+			'explicit.hint': 'Paroles explicites',
+			'results.edition.sameEdition': 'Même édition',
+			'results.edition.expandedEdition': 'Édition augmentée',
+			'results.edition.differentRelease': 'Autre version',
+			'results.edition.missing': 'Manquants : {{tracks}}',
+			'results.edition.extra': 'En plus : {{tracks}}',
 			'results.youtube.matches': 'Correspondances YouTube Music',
+			'results.playlist.matches':
+				'{{matched}} titre(s) sur {{count}} de la playlist trouvé(s) sur toutes les plateformes.',
+
+			// Playlists
+			'playlist.title': 'Playlist source',
+			'playlist.by': 'par {{owner}}',
+			'playlist.trackCount': '{{count}} titres',
+			'playlist.progress':
+				'Recherche des titres… {{done}} sur {{total}} terminés',
+			'playlist.summary':
+				'{{matched}} titre(s) sur {{total}} trouvé(s) partout',
+			'playlist.skipped':
+				"{{count}} titre(s) locaux ou indisponibles n'ont pas pu être convertis",
+			'playlist.skippedVideos': '{{count}} vidéo(s) mise(s) de côté',
+			'playlist.skipReason.deleted': 'Supprimée',
+			'playlist.skipReason.unavailable': 'Indisponible',
+			'playlist.skipReason.notMusic': 'Pas une chanson',
+			'playlist.noMatchOn': 'Aucune correspondance sur {{platform}}',
+			'playlist.searchOn': '🔍 Rechercher sur {{platform}}',
+			'playlist.status.pending': 'Recherche…',
+			'playlist.status.matched': 'Trouvé',
+			'playlist.status.partial': 'Partiel',
+			'playlist.status.notFound': 'Introuvable',
+			'playlist.status.error': 'Erreur',
+
+			// Artists
+			'results.artist.matches':
+				"Page de l'artiste trouvée sur {{count}} plateforme(s) sur {{total}}.",
+			'artist.title': 'Artiste source',
+			'artist.topTracks': 'Titres phares : {{tracks}}',
+			'artist.albumCount': '{{count}} albums',
+			'artist.matchesOn': 'Artiste sur {{platform}}',
+			'artist.searchOn': 'Rechercher sur {{platform}}',
+			'artist.searchOnlyNote':
+				"Les artistes {{platform}} ne peuvent pas être recherchés d'ici : ce lien ouvre une recherche du nom, sans score de confiance. Vérifiez que la page ouverte est le bon artiste.",
+			'artist.searchLink': '🔍 Résultats de recherche, pas une page trouvée',
+			'artist.noMatch': 'Aucun artiste trouvé sur {{platform}}',
 
 			// Track info
 			'track.by': 'par',
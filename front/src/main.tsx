@@ -3,6 +3,23 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
 import './i18n';
+import {
+	createLazyReadingProvider,
+	setReadingProvider,
+} from './utils/transliteration';
+
+// The kanji analyzer and its dictionary (about 18 MB) only load once a title
+// with kanji is transliterated; kanji stay as written until then
+setReadingProvider(
+	createLazyReadingProvider(() =>
+		Promise.all([
+			import('./utils/kanjiReadings'),
+			import('virtual:kuromoji-dictionary'),
+		]).then(([{ createKanjiReadingProvider }, { default: dicPath }]) =>
+			createKanjiReadingProvider(dicPath),
+		),
+	),
+);
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
 	<React.StrictMode>
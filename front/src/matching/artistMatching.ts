@@ -0,0 +1,148 @@
+import type {
+	ArtistProfile,
+	MatchNormalizer,
+	ScoreBreakdown,
+	ScoredArtistMatch,
+} from '../types/matching.types';
+import { stripFeaturing } from '../utils/artistParser';
+import { roundBreakdown, sumBreakdown } from '../utils/matchScore';
+import { stripVersionSuffix } from '../utils/versionParser';
+import { defaultNormalizer } from './matchingEngine';
+
+/**
+ * Artist matching across platforms
+ *
+ * Same-named artists are common ("Nirvana", "Genesis", "Bush"), so the name
+ * alone can't pick the right page. Candidates are also compared on the
+ * titles they share with the source artist: top tracks and discography.
+ */
+
+/** Maximum points of each signal; the score is scaled to the signals that applied */
+const NAME_WEIGHT = 50;
+const TOP_TRACKS_WEIGHT = 25;
+const DISCOGRAPHY_WEIGHT = 25;
+
+/** Similarity from which two titles are considered the same track or album */
+const SAME_TITLE_THRESHOLD = 85;
+
+/** Name similarity below which a candidate is another artist, whatever it shares */
+const MIN_NAME_SIMILARITY = 85;
+
+/** Confidence from which a candidate is a high-quality match */
+const HIGH_QUALITY_SCORE = 70;
+
+/**
+ * Share of titles found on both sides, relative to the shorter list
+ *
+ * Platforms rank top tracks differently and list different singles, so
+ * half of the shorter list in common already gives full points.
+ *
+ * @returns Overlap from 0 to 1, or undefined when either list is empty
+ */
+function titleOverlap(
+	source: string[],
+	candidate: string[],
+	similarity: MatchNormalizer['similarity'],
+): number | undefined {
+	if (source.length === 0 || candidate.length === 0) {
+		return undefined;
+	}
+
+	const baseTitle = (title: string) =>
+		stripFeaturing(stripVersionSuffix(title));
+	const candidateTitles = candidate.map(baseTitle);
+	const shared = source.filter((title) => {
+		const base = baseTitle(title);
+		return candidateTitles.some(
+			(candidateTitle) =>
+				similarity(base, candidateTitle) >= SAME_TITLE_THRESHOLD,
+		);
+	}).length;
+
+	return Math.min(
+		1,
+		shared / Math.max(1, Math.min(source.length, candidate.length) / 2),
+	);
+}
+
+/**
+ * Score one artist candidate against the source artist
+ * @param source - Profile of the source artist
+ * @param candidate - Profile of the candidate artist
+ * @param normalizer - String helpers (default: Unicode-aware normalization)
+ * @returns Confidence from 0 to 100 with the points of each signal
+ */
+export function scoreArtistMatch(
+	source: ArtistProfile,
+	candidate: ArtistProfile,
+	normalizer: MatchNormalizer = defaultNormalizer,
+): Omit<ScoredArtistMatch<never>, 'item'> {
+	const nameSimilarity = normalizer.similarity(source.name, candidate.name);
+	const topTracks = titleOverlap(
+		source.topTracks,
+		candidate.topTracks,
+		normalizer.similarity,
+	);
+	const discography = titleOverlap(
+		source.albums,
+		candidate.albums,
+		normalizer.similarity,
+	);
+
+	let maximum = NAME_WEIGHT;
+	const breakdown: ScoreBreakdown = {
+		artist: (nameSimilarity / 100) * NAME_WEIGHT,
+	};
+	if (topTracks !== undefined) {
+		breakdown.topTracks = topTracks * TOP_TRACKS_WEIGHT;
+		maximum += TOP_TRACKS_WEIGHT;
+	}
+	if (discography !== undefined) {
+		breakdown.discography = discography * DISCOGRAPHY_WEIGHT;
+		maximum += DISCOGRAPHY_WEIGHT;
+	}
+
+	// Scale to 100 so a missing list neither penalizes nor inflates the score
+	const scale = 100 / maximum;
+	for (const signal of Object.keys(breakdown) as Array<keyof ScoreBreakdown>) {
+		breakdown[signal] = (breakdown[signal] ?? 0) * scale;
+	}
+
+	const score = sumBreakdown(breakdown);
+	// Only the name says nothing when several artists share it
+	const hasSharedTitles = !!topTracks || !!discography;
+	return {
+		score: Math.round(score),
+		scoreBreakdown: roundBreakdown(breakdown),
+		isHighQuality:
+			nameSimilarity >= MIN_NAME_SIMILARITY &&
+			score >= HIGH_QUALITY_SCORE &&
+			(hasSharedTitles || maximum === NAME_WEIGHT),
+	};
+}
+
+/**
+ * Score and categorize artist candidates
+ * @param source - Profile of the source artist
+ * @param candidates - Candidates with their profiles
+ * @returns High-quality and explore-more matches, highest score first
+ */
+export function matchArtists<T>(
+	source: ArtistProfile,
+	candidates: Array<{ item: T; profile: ArtistProfile }>,
+): {
+	highQuality: ScoredArtistMatch<T>[];
+	exploreMore: ScoredArtistMatch<T>[];
+} {
+	const scored = candidates
+		.map(({ item, profile }) => ({
+			item,
+			...scoreArtistMatch(source, profile),
+		}))
+		.sort((a, b) => b.score - a.score);
+
+	return {
+		highQuality: scored.filter((match) => match.isHighQuality),
+		exploreMore: scored.filter((match) => !match.isHighQuality),
+	};
+}
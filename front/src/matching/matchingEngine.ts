@@ -0,0 +1,149 @@
+import type {
+	CanonicalTrack,
+	MatchCandidate,
+	MatcherProfile,
+	MatchingResults,
+	MatchNormalizer,
+	MatchOptions,
+	MatchSignalScorer,
+	PreparedTrack,
+	ScoreBreakdown,
+	ScoredMatch,
+} from '../types/matching.types';
+import { parseArtistCredits, stripFeaturing } from '../utils/artistParser';
+import { roundBreakdown, sumBreakdown } from '../utils/matchScore';
+import {
+	calculateCrossScriptSimilarity,
+	normalizeString,
+} from '../utils/textNormalization';
+import { parseTrackVersion, stripVersionSuffix } from '../utils/versionParser';
+import { DEFAULT_MATCHER_PROFILE } from './profiles';
+import { ALBUM_SIGNALS, TRACK_SIGNALS } from './signals';
+
+/**
+ * Options of a matching engine
+ */
+export interface MatchingEngineOptions {
+	/** Signals summed into the score (default: track signals) */
+	signals?: MatchSignalScorer[];
+	/** String helpers given to the signals (default: Unicode-aware normalization) */
+	normalizer?: MatchNormalizer;
+	/** Weights and thresholds of the signals (default: DEFAULT_MATCHER_PROFILE) */
+	profile?: MatcherProfile;
+}
+
+/**
+ * Unicode-aware normalization and Levenshtein similarity, with a transliterated
+ * comparison for names written in different scripts
+ */
+export const defaultNormalizer: MatchNormalizer = {
+	normalize: normalizeString,
+	similarity: calculateCrossScriptSimilarity,
+};
+
+/**
+ * Cross-platform matching engine
+ *
+ * Scores candidates of any provider against a canonical source track by
+ * summing pluggable signals, and splits them into high-quality and
+ * explore-more matches. It holds no platform or UI code: providers convert
+ * their tracks to CanonicalTrack and map the scored items back.
+ */
+export class MatchingEngine {
+	private readonly signals: MatchSignalScorer[];
+	private readonly normalizer: MatchNormalizer;
+	readonly profile: MatcherProfile;
+
+	constructor(options: MatchingEngineOptions = {}) {
+		this.signals = options.signals ?? TRACK_SIGNALS;
+		this.normalizer = options.normalizer ?? defaultNormalizer;
+		this.profile = options.profile ?? DEFAULT_MATCHER_PROFILE;
+	}
+
+	/**
+	 * Parse the attributes the signals compare
+	 * @param track - Canonical track
+	 * @returns Track with base title, version and artist credits
+	 */
+	prepare(track: CanonicalTrack): PreparedTrack {
+		return {
+			...track,
+			baseTitle: stripFeaturing(stripVersionSuffix(track.title)),
+			version: parseTrackVersion(track.title),
+			credits: parseArtistCredits(track.artists, track.title),
+		};
+	}
+
+	/**
+	 * Score one candidate against a prepared source
+	 * @param source - Prepared source track
+	 * @param candidate - Candidate to score
+	 * @param options - Per-call options (explicit/clean preference)
+	 * @returns Scored candidate
+	 */
+	scoreCandidate<T>(
+		source: PreparedTrack,
+		candidate: MatchCandidate<T>,
+		options: MatchOptions = {},
+	): ScoredMatch<T> {
+		const prepared = this.prepare(candidate.track);
+		const breakdown: ScoreBreakdown = {};
+
+		for (const { signal, score } of this.signals) {
+			const points = score({
+				source,
+				candidate: prepared,
+				coverSimilarity: candidate.coverSimilarity,
+				tracklist: candidate.tracklist,
+				normalizer: this.normalizer,
+				profile: this.profile,
+				explicitPreference: options.explicitPreference ?? 'source',
+			});
+			if (points !== undefined) {
+				breakdown[signal] = (breakdown[signal] ?? 0) + points;
+			}
+		}
+
+		const score = sumBreakdown(breakdown);
+		return {
+			item: candidate.item,
+			score: Math.round(score),
+			scoreBreakdown: roundBreakdown(breakdown),
+			isHighQuality: score >= this.profile.threshold,
+			version: prepared.version,
+		};
+	}
+
+	/**
+	 * Score and categorize candidates
+	 * @param source - Canonical source track
+	 * @param candidates - Candidates returned by a provider
+	 * @param options - Per-call options (explicit/clean preference)
+	 * @returns High-quality and explore-more matches, highest score first
+	 */
+	match<T>(
+		source: CanonicalTrack,
+		candidates: MatchCandidate<T>[],
+		options: MatchOptions = {},
+	): MatchingResults<T> {
+		const preparedSource = this.prepare(source);
+		const scored = candidates
+			.map((candidate) =>
+				this.scoreCandidate(preparedSource, candidate, options),
+			)
+			.sort((a, b) => b.score - a.score);
+
+		return {
+			highQuality: scored.filter((match) => match.isHighQuality),
+			exploreMore: scored.filter((match) => !match.isHighQuality),
+		};
+	}
+}
+
+/** Engine for track matches */
+export const trackMatchingEngine = new MatchingEngine();
+
+/** Engine for album matches */
+export const albumMatchingEngine = new MatchingEngine({
+	signals: ALBUM_SIGNALS,
+});
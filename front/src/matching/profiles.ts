@@ -0,0 +1,95 @@
+import type { MatcherProfile } from '../types/matching.types';
+
+/**
+ * Matcher profiles
+ *
+ * The default profile is the one used by the app; the others are alternatives
+ * measured against it by the calibration command (pnpm calibrate).
+ */
+
+export const DEFAULT_MATCHER_PROFILE: MatcherProfile = {
+	name: 'default',
+	threshold: 40,
+	track: {
+		artistWeight: 0.55,
+		titleWeight: 0.45,
+		partialTitleBoost: 1.2,
+		versionWeight: 1,
+	},
+	duration: {
+		closeSeconds: 5,
+		closeBonus: 5,
+		nearSeconds: 15,
+		nearBonus: 2,
+	},
+	cover: {
+		identicalScore: 95,
+		identicalBonus: 10,
+		similarScore: 90,
+		similarBonus: 4,
+	},
+	album: {
+		artistWeight: 0.6,
+		titleWeight: 0.4,
+		closeArtistSimilarity: 85,
+		closeArtistBonus: 15,
+		nearArtistSimilarity: 70,
+		nearArtistBonus: 10,
+		closeTitleSimilarity: 80,
+		closeTitleBonus: 5,
+	},
+	release: {
+		closeAlbumSimilarity: 85,
+		closeAlbumBonus: 8,
+		nearAlbumSimilarity: 60,
+		nearAlbumBonus: 3,
+		sameYearBonus: 5,
+		nearYears: 1,
+		nearYearBonus: 2,
+		distantYears: 5,
+		distantYearPenalty: 5,
+		compilationPenalty: 10,
+	},
+	edition: {
+		sameEditionBonus: 15,
+		expandedEditionBonus: 5,
+		differentReleasePenalty: 15,
+		keywordMatchBonus: 5,
+		keywordMismatchPenalty: 8,
+	},
+	explicit: {
+		matchBonus: 5,
+		mismatchPenalty: 10,
+		preferredBonus: 8,
+	},
+};
+
+/** Fewer but surer matches: higher threshold, title and version weigh more */
+export const STRICT_MATCHER_PROFILE: MatcherProfile = {
+	...DEFAULT_MATCHER_PROFILE,
+	name: 'strict',
+	threshold: 60,
+	track: {
+		...DEFAULT_MATCHER_PROFILE.track,
+		artistWeight: 0.5,
+		titleWeight: 0.5,
+		versionWeight: 1.5,
+	},
+};
+
+/** More matches for noisy sources (e.g. YouTube titles): lower threshold */
+export const LENIENT_MATCHER_PROFILE: MatcherProfile = {
+	...DEFAULT_MATCHER_PROFILE,
+	name: 'lenient',
+	threshold: 30,
+	duration: {
+		...DEFAULT_MATCHER_PROFILE.duration,
+		nearSeconds: 30,
+	},
+};
+
+export const MATCHER_PROFILES: MatcherProfile[] = [
+	DEFAULT_MATCHER_PROFILE,
+	STRICT_MATCHER_PROFILE,
+	LENIENT_MATCHER_PROFILE,
+];
@@ -0,0 +1,19 @@
+import { stripFeaturing } from '../utils/artistParser';
+import { stripVersionSuffix } from '../utils/versionParser';
+
+/**
+ * Clean a title or artist name for a search query: drop featuring credits,
+ * version suffixes and bracketed tags, keep the spelling and case
+ * @param str - Title or artist name
+ * @returns Search-friendly string
+ */
+export function cleanForSearch(str: string): string {
+	if (!str || typeof str !== 'string') {
+		return '';
+	}
+
+	return stripFeaturing(stripVersionSuffix(str))
+		.replace(/\s*[([（［].*?[)\]）］]\s*/g, ' ')
+		.replace(/\s{2,}/g, ' ')
+		.trim();
+}
@@ -0,0 +1,333 @@
+import type { MatchSignalScorer } from '../types/matching.types';
+import { scoreArtistCredits } from '../utils/artistParser';
+import {
+	isCompilation,
+	parseEditionKeywords,
+	parseReleaseYear,
+} from '../utils/releaseParser';
+import { compareVersions } from '../utils/versionParser';
+
+/**
+ * Default scoring signals of the matching engine
+ *
+ * Each signal returns the points it contributes (negative for penalties) or
+ * undefined when it doesn't apply, e.g. duration when one side has none.
+ */
+
+/**
+ * Artist set similarity; artist is slightly more important than title
+ */
+export const artistSignal: MatchSignalScorer = {
+	signal: 'artist',
+	score: ({ source, candidate, normalizer, profile }) => {
+		if (!source.credits.primary || !candidate.credits.primary) {
+			return undefined;
+		}
+		return (
+			scoreArtistCredits(
+				source.credits,
+				candidate.credits,
+				normalizer.similarity,
+			) * profile.track.artistWeight
+		);
+	},
+};
+
+/**
+ * Base title similarity, or title-only matching when either side has no artist
+ */
+export const titleSignal: MatchSignalScorer = {
+	signal: 'title',
+	score: ({ source, candidate, normalizer, profile }) => {
+		const titleSimilarity = normalizer.similarity(
+			source.baseTitle,
+			candidate.baseTitle,
+		);
+
+		if (source.credits.primary && candidate.credits.primary) {
+			return titleSimilarity * profile.track.titleWeight;
+		}
+
+		// Title-only matching: boost titles contained in one another
+		const normalizedSource = normalizer.normalize(source.baseTitle);
+		const normalizedCandidate = normalizer.normalize(candidate.baseTitle);
+		const isPartialMatch =
+			!!normalizedSource &&
+			!!normalizedCandidate &&
+			(normalizedCandidate.includes(normalizedSource) ||
+				normalizedSource.includes(normalizedCandidate));
+
+		return isPartialMatch
+			? titleSimilarity * profile.track.partialTitleBoost
+			: titleSimilarity;
+	},
+};
+
+/**
+ * Bonus for a duration within a few seconds
+ */
+export const durationSignal: MatchSignalScorer = {
+	signal: 'duration',
+	score: ({ source, candidate, profile }) => {
+		if (!source.durationMs || !candidate.durationMs) {
+			return undefined;
+		}
+
+		const durationDiff =
+			Math.abs(source.durationMs - candidate.durationMs) / 1000;
+		const { closeSeconds, closeBonus, nearSeconds, nearBonus } =
+			profile.duration;
+		if (durationDiff < closeSeconds) {
+			return closeBonus;
+		}
+		if (durationDiff < nearSeconds) {
+			return nearBonus;
+		}
+		return undefined;
+	},
+};
+
+/**
+ * Bonus for near-identical artwork: same release rather than a compilation or
+ * re-release of the recording
+ */
+export const coverSignal: MatchSignalScorer = {
+	signal: 'cover',
+	score: ({ coverSimilarity, profile }) => {
+		if (coverSimilarity === undefined) {
+			return undefined;
+		}
+		const { identicalScore, identicalBonus, similarScore, similarBonus } =
+			profile.cover;
+		if (coverSimilarity >= identicalScore) {
+			return identicalBonus;
+		}
+		if (coverSimilarity >= similarScore) {
+			return similarBonus;
+		}
+		return undefined;
+	},
+};
+
+/**
+ * Reward the same version (live, remix...) and penalise a different one
+ */
+export const versionSignal: MatchSignalScorer = {
+	signal: 'version',
+	score: ({ source, candidate, profile }) => {
+		const points = compareVersions(source.version, candidate.version);
+		return points !== 0 ? points * profile.track.versionWeight : undefined;
+	},
+};
+
+/**
+ * Bonus when the candidate comes from the same album as the source. Different
+ * albums aren't penalised: the same recording is often on a single and an album.
+ */
+export const albumSignal: MatchSignalScorer = {
+	signal: 'album',
+	score: ({ source, candidate, normalizer, profile }) => {
+		if (!source.album || !candidate.album) {
+			return undefined;
+		}
+
+		const albumSimilarity = normalizer.similarity(
+			source.album,
+			candidate.album,
+		);
+		const {
+			closeAlbumSimilarity,
+			closeAlbumBonus,
+			nearAlbumSimilarity,
+			nearAlbumBonus,
+		} = profile.release;
+		if (albumSimilarity >= closeAlbumSimilarity) {
+			return closeAlbumBonus;
+		}
+		if (albumSimilarity >= nearAlbumSimilarity) {
+			return nearAlbumBonus;
+		}
+		return undefined;
+	},
+};
+
+/**
+ * Bonus for a release from the same year, penalty for one from years later
+ * (re-releases and compilations of an older recording)
+ */
+export const releaseYearSignal: MatchSignalScorer = {
+	signal: 'releaseYear',
+	score: ({ source, candidate, profile }) => {
+		const sourceYear = parseReleaseYear(source.releaseDate);
+		const candidateYear = parseReleaseYear(candidate.releaseDate);
+		if (sourceYear === undefined || candidateYear === undefined) {
+			return undefined;
+		}
+
+		const {
+			sameYearBonus,
+			nearYears,
+			nearYearBonus,
+			distantYears,
+			distantYearPenalty,
+		} = profile.release;
+		const yearDiff = candidateYear - sourceYear;
+		if (yearDiff === 0) {
+			return sameYearBonus;
+		}
+		if (Math.abs(yearDiff) <= nearYears) {
+			return nearYearBonus;
+		}
+		if (yearDiff >= distantYears) {
+			return -distantYearPenalty;
+		}
+		return undefined;
+	},
+};
+
+/**
+ * Penalty for compilations and "Various Artists" releases when the source
+ * comes from an original release, so singles convert to the original album
+ */
+export const compilationSignal: MatchSignalScorer = {
+	signal: 'compilation',
+	score: ({ source, candidate, profile }) => {
+		if (!source.album || isCompilation(source) || !isCompilation(candidate)) {
+			return undefined;
+		}
+		return -profile.release.compilationPenalty;
+	},
+};
+
+/**
+ * Explicit matches explicit and clean matches clean. With a preference, the
+ * favoured version gets a bonus instead, and the other one isn't penalised
+ * since it may be the only version available.
+ */
+export const explicitSignal: MatchSignalScorer = {
+	signal: 'explicit',
+	score: ({ source, candidate, explicitPreference, profile }) => {
+		if (candidate.explicit === undefined) {
+			return undefined;
+		}
+		if (explicitPreference !== 'source') {
+			return candidate.explicit === (explicitPreference === 'explicit')
+				? profile.explicit.preferredBonus
+				: undefined;
+		}
+		if (source.explicit === undefined) {
+			return undefined;
+		}
+		return source.explicit === candidate.explicit
+			? profile.explicit.matchBonus
+			: -profile.explicit.mismatchPenalty;
+	},
+};
+
+/**
+ * Artist similarity for albums, with a bonus for a very close artist
+ */
+export const albumArtistSignal: MatchSignalScorer = {
+	signal: 'artist',
+	score: ({ source, candidate, normalizer, profile }) => {
+		const artistSimilarity = scoreArtistCredits(
+			source.credits,
+			candidate.credits,
+			normalizer.similarity,
+		);
+
+		const {
+			artistWeight,
+			closeArtistSimilarity,
+			closeArtistBonus,
+			nearArtistSimilarity,
+			nearArtistBonus,
+		} = profile.album;
+		if (artistSimilarity > closeArtistSimilarity) {
+			return artistSimilarity * artistWeight + closeArtistBonus;
+		}
+		if (artistSimilarity > nearArtistSimilarity) {
+			return artistSimilarity * artistWeight + nearArtistBonus;
+		}
+		return artistSimilarity * artistWeight;
+	},
+};
+
+/**
+ * Album title similarity, with a bonus for very close titles
+ */
+export const albumTitleSignal: MatchSignalScorer = {
+	signal: 'title',
+	score: ({ source, candidate, normalizer, profile }) => {
+		const titleSimilarity = normalizer.similarity(
+			source.title,
+			candidate.title,
+		);
+		const { titleWeight, closeTitleSimilarity, closeTitleBonus } =
+			profile.album;
+		return titleSimilarity > closeTitleSimilarity
+			? titleSimilarity * titleWeight + closeTitleBonus
+			: titleSimilarity * titleWeight;
+	},
+};
+
+/**
+ * Tracklist comparison: bonus for the same or an expanded edition, penalty
+ * for a different release that lacks source tracks
+ */
+export const albumTracklistSignal: MatchSignalScorer = {
+	signal: 'tracklist',
+	score: ({ tracklist, profile }) => {
+		if (!tracklist) {
+			return undefined;
+		}
+		const { sameEditionBonus, expandedEditionBonus, differentReleasePenalty } =
+			profile.edition;
+		switch (tracklist.edition) {
+			case 'sameEdition':
+				return sameEditionBonus;
+			case 'expandedEdition':
+				return expandedEditionBonus;
+			case 'differentRelease':
+				return -differentReleasePenalty * (1 - tracklist.orderedOverlap);
+		}
+	},
+};
+
+/**
+ * Edition keywords of the album titles ("Deluxe", "Anniversary", "Remastered")
+ */
+export const albumEditionSignal: MatchSignalScorer = {
+	signal: 'edition',
+	score: ({ source, candidate, profile }) => {
+		const sourceKeywords = parseEditionKeywords(source.title);
+		const candidateKeywords = parseEditionKeywords(candidate.title);
+		if (sourceKeywords.length === 0 && candidateKeywords.length === 0) {
+			return undefined;
+		}
+		return sourceKeywords.join() === candidateKeywords.join()
+			? profile.edition.keywordMatchBonus
+			: -profile.edition.keywordMismatchPenalty;
+	},
+};
+
+/** Signals used to match tracks */
+export const TRACK_SIGNALS: MatchSignalScorer[] = [
+	artistSignal,
+	titleSignal,
+	durationSignal,
+	coverSignal,
+	versionSignal,
+	explicitSignal,
+	albumSignal,
+	releaseYearSignal,
+	compilationSignal,
+];
+
+/** Signals used to match albums */
+export const ALBUM_SIGNALS: MatchSignalScorer[] = [
+	albumArtistSignal,
+	albumTitleSignal,
+	albumTracklistSignal,
+	albumEditionSignal,
+];
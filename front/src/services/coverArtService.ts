@@ -0,0 +1,90 @@
+import { compareCoverHashes, computeDHash } from '../utils/coverHash';
+import { fetchWithProxy } from '../utils/responseWrapper';
+
+/**
+ * Service comparing cover art across platforms with a perceptual hash
+ *
+ * Covers are fetched through the backend proxy (CDNs don't all allow canvas
+ * access cross-origin), decoded with a canvas and hashed with the pure dHash
+ * helpers. Hashes are cached per URL for the whole session.
+ */
+class CoverArtService {
+	/** Covers are downscaled to this size before hashing */
+	private readonly sampleSize = 64;
+	private readonly hashes = new Map<string, Promise<string | null>>();
+
+	/**
+	 * Get the perceptual hash of a cover image
+	 * @param imageUrl - Cover image URL
+	 * @returns dHash of the cover, or null if it can't be fetched or decoded
+	 */
+	getCoverHash(imageUrl: string): Promise<string | null> {
+		const cached = this.hashes.get(imageUrl);
+		if (cached) {
+			return cached;
+		}
+
+		const hash = fetchWithProxy<Blob>(imageUrl, {
+			timeout: 10000,
+			maxRetries: 0,
+			responseType: 'blob',
+		})
+			.then((blob) => this.decodeImage(blob))
+			.then((image) => computeDHash(image))
+			.catch((error) => {
+				console.warn(`Unable to hash cover ${imageUrl}:`, error);
+				return null;
+			});
+
+		this.hashes.set(imageUrl, hash);
+		return hash;
+	}
+
+	/**
+	 * Compare two covers
+	 * @param imageUrl1 - First cover image URL
+	 * @param imageUrl2 - Second cover image URL
+	 * @returns Similarity score (0-100), or null if either cover is unavailable
+	 */
+	async compareCovers(
+		imageUrl1: string,
+		imageUrl2: string,
+	): Promise<number | null> {
+		if (!imageUrl1 || !imageUrl2) {
+			return null;
+		}
+
+		const [hash1, hash2] = await Promise.all([
+			this.getCoverHash(imageUrl1),
+			this.getCoverHash(imageUrl2),
+		]);
+		if (!hash1 || !hash2) {
+			return null;
+		}
+		return compareCoverHashes(hash1, hash2);
+	}
+
+	/**
+	 * Decode an image blob into downscaled RGBA pixels
+	 */
+	private async decodeImage(blob: Blob): Promise<ImageData> {
+		const bitmap = await createImageBitmap(blob);
+		try {
+			const canvas = document.createElement('canvas');
+			canvas.width = this.sampleSize;
+			canvas.height = this.sampleSize;
+
+			const context = canvas.getContext('2d');
+			if (!context) {
+				throw new Error('Canvas 2D context is not available');
+			}
+
+			context.drawImage(bitmap, 0, 0, this.sampleSize, this.sampleSize);
+			return context.getImageData(0, 0, this.sampleSize, this.sampleSize);
+		} finally {
+			bitmap.close();
+		}
+	}
+}
+
+export default new CoverArtService();
@@ -1,27 +1,77 @@
 import * as cheerio from 'cheerio';
-import levenshtein from 'fast-levenshtein';
+import { matchArtists } from '../matching/artistMatching';
+import {
+	albumMatchingEngine,
+	trackMatchingEngine,
+} from '../matching/matchingEngine';
+import { cleanForSearch } from '../matching/searchTerms';
 import type {
 	DeezerAlbum,
 	DeezerApiAlbum,
+	DeezerApiArtist,
+	DeezerApiArtistSearchResponse,
+	DeezerApiError,
+	DeezerApiPlaylist,
 	DeezerApiSearchResponse,
 	DeezerApiTrack,
+	DeezerArtist,
+	DeezerPlaylist,
 	DeezerSearchResponse,
 	DeezerTrack,
 } from '../types/deezer.types';
+import type {
+	AlbumType,
+	ArtistProfile,
+	ExplicitPreference,
+	MatchOptions,
+	QueryLadderOptions,
+	QueryStrategy,
+	ScoredArtistMatch,
+	ScoredMatch,
+	TracklistEntry,
+} from '../types/matching.types';
+import { splitAmbiguousCredit, splitArtistCredit } from '../utils/artistParser';
+import { createRateLimiter, mapWithConcurrency } from '../utils/concurrency';
+import { getExplicitPreference } from '../utils/explicitContent';
+import { fuseRankings, type RankedSearch } from '../utils/matchScore';
 import { fetchWithProxy } from '../utils/responseWrapper';
+import { compareTracklists } from '../utils/tracklistComparison';
+import { transliterate } from '../utils/transliteration';
+import { hasVersion, parseTrackVersion } from '../utils/versionParser';
+import coverArtService from './coverArtService';
 
-interface ScoredTrack {
-	track: DeezerTrack;
-	score: number;
-	isHighQuality?: boolean;
+/**
+ * Default query relaxation ladder, from most to least precise
+ */
+const DEFAULT_QUERY_LADDER: QueryStrategy[] = [
+	'advanced',
+	'strict',
+	'relaxed',
+	'stripped',
+	'transliterated',
+];
+
+/**
+ * One query of the relaxation ladder
+ */
+interface SearchQuery {
+	strategy: QueryStrategy;
+	query: string;
+	strict: boolean;
 }
 
 /**
- * Result interface for track matching with threshold-based filtering
+ * Deezer API quota: 50 requests per 5 seconds, with some margin
  */
-interface MatchingResults {
-	highQuality: DeezerTrack[];
-	exploreMore: DeezerTrack[];
+const API_RATE_LIMIT = { requests: 45, intervalMs: 5000 };
+
+/**
+ * Release attributes of a Deezer album, read when scoring its tracks
+ */
+interface AlbumRelease {
+	albumArtist?: string;
+	albumType?: AlbumType;
+	releaseDate?: string;
 }
 
 /**
@@ -29,6 +79,29 @@ interface MatchingResults {
  */
 class DeezerService {
 	private readonly baseURL = 'https://api.deezer.com';
+	/** Release attributes by album ID, cached for the whole session */
+	private readonly albumReleases = new Map<
+		number,
+		Promise<AlbumRelease | null>
+	>();
+	/** Shared by every API request, so parallel searches stay within the quota */
+	private readonly rateLimit = createRateLimiter(
+		API_RATE_LIMIT.requests,
+		API_RATE_LIMIT.intervalMs,
+	);
+
+	/**
+	 * Fetch a Deezer API URL through the proxy, within the rate quota
+	 * @param url - API URL
+	 * @param options - Request options of fetchWithProxy
+	 * @returns Response data
+	 */
+	private fetchApi<T = unknown>(
+		url: string,
+		options: Parameters<typeof fetchWithProxy>[1] = {},
+	): Promise<T> {
+		return this.rateLimit(() => fetchWithProxy<T>(url, options));
+	}
 
 	/**
 	 * Get track information by track ID using Deezer API
@@ -47,7 +120,7 @@ class DeezerService {
 			const trackUrl = `${this.baseURL}/track/${trackId}`;
 
 			// Use fetchWithProxy for CORS handling with automatic fallback
-			const data = await fetchWithProxy<DeezerApiTrack>(trackUrl, {
+			const data = await this.fetchApi<DeezerApiTrack>(trackUrl, {
 				timeout: 15000, // Increased timeout
 			});
 			if (!data || typeof data !== 'object' || !data.id || !data.title) {
@@ -68,6 +141,10 @@ class DeezerService {
 				preview: data.preview,
 				link: data.link,
 				cover: cover,
+				isrc: data.isrc,
+				albumId: data.album?.id,
+				releaseDate: data.album?.release_date ?? data.release_date,
+				explicit: this.readExplicit(data),
 			};
 		} catch (error) {
 			const axiosError = error as {
@@ -99,6 +176,69 @@ class DeezerService {
 		}
 	}
 
+	/**
+	 * Look up a track by its ISRC using the Deezer `/track/isrc:<code>` endpoint
+	 * @param isrc - The International Standard Recording Code
+	 * @returns The matching track, or null if Deezer has no recording for this ISRC
+	 */
+	async getTrackByIsrc(isrc: string): Promise<DeezerTrack | null> {
+		const code = isrc.trim().toUpperCase();
+		if (!/^[A-Z]{2}[A-Z0-9]{3}\d{7}$/.test(code)) {
+			return null;
+		}
+
+		try {
+			const data = await this.fetchApi<DeezerApiTrack | DeezerApiError>(
+				`${this.baseURL}/track/isrc:${code}`,
+				{ timeout: 15000 },
+			);
+
+			// Deezer answers unknown ISRCs with a 200 and an error payload
+			if (!data || typeof data !== 'object' || 'error' in data) {
+				return null;
+			}
+			if (!data.id || !data.title) {
+				return null;
+			}
+
+			return {
+				id: data.id,
+				title: data.title,
+				artist: data.artist?.name || 'Unknown Artist',
+				album: data.album?.title || '',
+				duration: data.duration,
+				preview: data.preview,
+				link: data.link,
+				cover: data.album?.cover_medium || '',
+				isrc: data.isrc || code,
+				albumId: data.album?.id,
+				releaseDate: data.album?.release_date ?? data.release_date,
+				explicit: this.readExplicit(data),
+			};
+		} catch (error) {
+			console.warn(`ISRC lookup failed for "${code}":`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Read the explicit flag of an API track
+	 * @param track - Track returned by the Deezer API
+	 * @returns True for explicit lyrics, false for clean or edited ones, undefined when Deezer doesn't know
+	 */
+	private readExplicit(track: DeezerApiTrack): boolean | undefined {
+		switch (track.explicit_content_lyrics) {
+			case 1:
+			case 4:
+				return true;
+			case 0:
+			case 3:
+				return false;
+			default:
+				return track.explicit_lyrics;
+		}
+	}
+
 	/**
 	 * Get track information from a shortened Deezer link using axios
 	 * @param shortCode - The short link code
@@ -185,64 +325,20 @@ class DeezerService {
 		}
 	}
 
-	/**
-	 * Normalize string for better matching
-	 * @param str - String to normalize
-	 * @returns Normalized string
-	 */
-	private normalizeString(str: string): string {
-		if (!str || typeof str !== 'string') {
-			return '';
-		}
-		return str
-			.toLowerCase()
-			.replace(/\s*\(.*?\)\s*/g, '') // Remove content in parentheses (feat., remix, etc.)
-			.replace(/\s*\[.*?\]\s*/g, '') // Remove content in brackets
-			.replace(/[^\w\s]/g, '') // Remove special characters
-			.replace(/\s+/g, ' ') // Normalize spaces
-			.trim();
-	}
-
-	/**
-	 * Calculate similarity between two strings using Levenshtein distance
-	 * @param str1 - First string
-	 * @param str2 - Second string
-	 * @returns Similarity score (0-100, where 100 is identical)
-	 */
-	private calculateSimilarity(str1: string, str2: string): number {
-		// Handle undefined or null strings
-		if (
-			!str1 ||
-			!str2 ||
-			typeof str1 !== 'string' ||
-			typeof str2 !== 'string'
-		) {
-			return 0;
-		}
-
-		const normalized1 = this.normalizeString(str1);
-		const normalized2 = this.normalizeString(str2);
-
-		if (normalized1 === normalized2) {
-			return 100;
-		}
-
-		const maxLength = Math.max(normalized1.length, normalized2.length);
-		if (maxLength === 0) {
-			return 100;
-		}
-
-		const distance = levenshtein.get(normalized1, normalized2);
-		return Math.round(((maxLength - distance) / maxLength) * 100);
-	}
-
 	/**
 	 * Search for tracks on Deezer using axios with responseWrapper for CORS handling
-	 * @param query - The search query
+	 * @param query - The search query (free text or Deezer advanced syntax)
 	 * @param limit - Maximum number of results to return
+	 * @param options - Search options; `strict` disables Deezer's fuzzy matching (default true)
 	 * @returns Array of matching tracks
 	 */
-	async searchTrack(query: string, limit = 10): Promise<DeezerTrack[]> {
+	async searchTrack(
+		query: string,
+		limit = 10,
+		options: { strict?: boolean } = {},
+	): Promise<DeezerTrack[]> {
+		const { strict = true } = options;
+
 		try {
 			// Validate query
 			if (!query || query.trim() === '' || query.includes('undefined')) {
@@ -252,13 +348,14 @@ class DeezerService {
 			const params = new URLSearchParams({
 				q: query.trim(),
 				limit: String(Math.min(limit, 5)), // Limit to max 5 results to avoid large responses
-				strict: 'on', // Strict search to get better matches
+				// Strict search to get better matches, unless relaxed by the caller
+				...(strict ? { strict: 'on' } : {}),
 			});
 
 			const searchUrl = `${this.baseURL}/search?${params}`;
 
 			// Use fetchWithProxy for CORS handling with automatic fallback
-			const rawResponse = await fetchWithProxy(searchUrl, {
+			const rawResponse = await this.fetchApi(searchUrl, {
 				timeout: 25000, // Increased timeout for multiple proxy attempts
 			});
 
@@ -300,6 +397,8 @@ class DeezerService {
 				preview: track.preview,
 				link: track.link,
 				cover: track.album?.cover_medium || '',
+				albumId: track.album?.id,
+				explicit: this.readExplicit(track),
 			}));
 		} catch (error) {
 			const axiosError = error as {
@@ -328,176 +427,411 @@ class DeezerService {
 
 	/**
 	 * Find best matches for a track on Deezer with threshold-based filtering
+	 *
+	 * When the source track carries an ISRC, an exact lookup is tried first and
+	 * the fuzzy search below only runs if Deezer doesn't know that recording.
+	 *
+	 * The fuzzy search climbs a ladder of increasingly relaxed queries (see
+	 * QueryStrategy), a few in parallel at a time, until one returns a confident
+	 * match. Results of every query are merged by rank fusion, and each match
+	 * records in `searchTrace` which queries returned it.
+	 *
+	 * The explicit/clean preference defaults to the one saved by the user.
+	 *
 	 * @param sourceTrack - The source track to match (from Spotify or YouTube Music)
+	 * @param options - Query ladder options and explicit/clean preference
 	 * @returns Array of Deezer tracks, prioritizing high-quality matches, then explore-more if needed
 	 */
-	async findTrackMatches(sourceTrack: {
-		name: string;
-		artists: string[];
-		images?: Array<{ url: string }>;
-	}): Promise<DeezerTrack[]> {
-		const { name, artists } = sourceTrack;
-
-		// Create search queries with different combinations
-		const searchQueries = [
-			// Most specific: artist + title (only if artist exists)
-			...(artists.length > 0 && artists[0] ? [`${artists[0]} ${name}`] : []),
-			// Just title if artist search fails or no artist available
-			name,
-		];
-
-		const allMatches: MatchingResults = {
-			highQuality: [],
-			exploreMore: [],
-		};
-
-		for (const query of searchQueries) {
-			if (!query || query.trim() === '' || query.includes('undefined'))
-				continue;
+	async findTrackMatches(
+		sourceTrack: {
+			name: string;
+			artists: string[];
+			images?: Array<{ url: string }>;
+			isrc?: string;
+			/** Duration in milliseconds */
+			duration?: number;
+			explicit?: boolean;
+			album?: string;
+			album_type?: AlbumType;
+			release_date?: string;
+		},
+		options: QueryLadderOptions & MatchOptions = {},
+	): Promise<DeezerTrack[]> {
+		const { isrc } = sourceTrack;
+		const { explicitPreference = getExplicitPreference() } = options;
+
+		if (isrc) {
+			const exactMatch = await this.getTrackByIsrc(isrc);
+			// The ISRC identifies the source recording, so it's only kept when it
+			// isn't the version the user asked to avoid
+			if (
+				exactMatch &&
+				!this.isAvoidedVersion(exactMatch.explicit, explicitPreference)
+			) {
+				const version = parseTrackVersion(exactMatch.title);
+				return [
+					{
+						...exactMatch,
+						isHighQuality: true,
+						isExactMatch: true,
+						score: 100,
+						scoreBreakdown: { isrc: 100 },
+						...(hasVersion(version) ? { version } : {}),
+					},
+				];
+			}
+		}
 
-			try {
-				const results = await this.searchTrack(query, 3); // Reduced to 3 results
+		const {
+			strategies = DEFAULT_QUERY_LADDER,
+			concurrency = 2,
+			limit = 3,
+			stopScore = 85,
+		} = options;
+		const queries = this.buildSearchQueries(sourceTrack, strategies);
+		const searches: RankedSearch<DeezerTrack>[] = [];
+
+		// Climb the ladder one rung (a batch of parallel queries) at a time, and
+		// stop as soon as a rung produced a confident match
+		for (let start = 0; start < queries.length; start += concurrency) {
+			const rung = queries.slice(start, start + concurrency);
+			const results = await Promise.all(
+				rung.map((searchQuery) =>
+					this.runSearchQuery(searchQuery, sourceTrack, limit, {
+						explicitPreference,
+					}),
+				),
+			);
+			searches.push(...results);
 
-				if (results.length > 0) {
-					// Find all matches and categorize them
-					const matches = this.findBestMatches(results, sourceTrack);
-					allMatches.highQuality.push(...matches.highQuality);
-					allMatches.exploreMore.push(...matches.exploreMore);
-				}
-			} catch (searchError) {
-				console.warn(`Search failed for query "${query}":`, searchError);
-				// Continue with other queries
-			}
+			const isConfident = results.some((search) =>
+				search.matches.some(
+					(match) => match.isHighQuality && (match.score ?? 0) >= stopScore,
+				),
+			);
+			if (isConfident) break;
 		}
 
-		// Remove duplicates and sort by score within each category
-		const uniqueHighQuality = new Map<number, DeezerTrack>();
-		const uniqueExploreMore = new Map<number, DeezerTrack>();
+		const fused = fuseRankings(searches);
+		const highQuality = fused.filter((match) => match.isHighQuality);
 
-		// Process high-quality matches first
-		for (const track of allMatches.highQuality) {
-			uniqueHighQuality.set(track.id, track);
+		// Return high-quality matches first, then explore-more if no high-quality matches exist
+		if (highQuality.length > 0) {
+			return highQuality.slice(0, 5);
 		}
+		// Explore-more results keep isHighQuality false for special handling in UI
+		return fused.slice(0, 5);
+	}
 
-		// Process explore-more matches
-		for (const track of allMatches.exploreMore) {
-			uniqueExploreMore.set(track.id, track);
+	/**
+	 * Check whether a track is the version the explicit/clean preference avoids
+	 * @param explicit - Explicit flag of the track
+	 * @param preference - Explicit/clean preference
+	 * @returns True for an explicit track when clean is preferred and vice versa
+	 */
+	private isAvoidedVersion(
+		explicit: boolean | undefined,
+		preference: ExplicitPreference,
+	): boolean {
+		if (explicit === undefined || preference === 'source') {
+			return false;
 		}
+		return explicit !== (preference === 'explicit');
+	}
 
-		// Return high-quality matches first, then explore-more if no high-quality matches exist
-		if (uniqueHighQuality.size > 0) {
-			return Array.from(uniqueHighQuality.values()).slice(0, 5);
-		} else if (uniqueExploreMore.size > 0) {
-			// Mark explore-more results for special handling in UI
-			return Array.from(uniqueExploreMore.values()).slice(0, 5);
+	/**
+	 * Build the queries of the relaxation ladder for a source track
+	 * @param sourceTrack - The source track to match
+	 * @param strategies - Strategies to build, in ladder order
+	 * @returns Queries in ladder order, without duplicates
+	 */
+	private buildSearchQueries(
+		sourceTrack: { name: string; artists: string[]; duration?: number },
+		strategies: QueryStrategy[],
+	): SearchQuery[] {
+		const { name, artists, duration } = sourceTrack;
+		const artist = artists[0] || '';
+		// Artists listed separately by the source platform are kept whole
+		// ("Tyler, The Creator"); a single credit is read split, so the query
+		// names one artist rather than "Calvin Harris, Dua Lipa"
+		const primaryArtist =
+			artists.length > 1
+				? artist
+				: splitAmbiguousCredit(splitArtistCredit(artist)[0] || '')[0] || '';
+
+		// Title without featuring, version suffix and bracketed tags, as written
+		const baseTitle = cleanForSearch(name);
+		const stripped = [primaryArtist, baseTitle].filter(Boolean).join(' ');
+		const freeText = [artist, name].filter(Boolean).join(' ');
+
+		const queries: SearchQuery[] = [];
+		for (const strategy of strategies) {
+			switch (strategy) {
+				case 'advanced': {
+					const quote = (value: string) => `"${value.replace(/"/g, '')}"`;
+					const parts = [
+						...(primaryArtist ? [`artist:${quote(primaryArtist)}`] : []),
+						`track:${quote(baseTitle || name)}`,
+					];
+					if (typeof duration === 'number' && duration > 0) {
+						const seconds = Math.round(duration / 1000);
+						parts.push(`dur_min:${seconds - 5}`, `dur_max:${seconds + 5}`);
+					}
+					queries.push({ strategy, query: parts.join(' '), strict: true });
+					break;
+				}
+				case 'strict':
+					queries.push({ strategy, query: freeText, strict: true });
+					break;
+				case 'relaxed':
+					queries.push({ strategy, query: freeText, strict: false });
+					break;
+				case 'stripped':
+					queries.push({ strategy, query: stripped, strict: false });
+					break;
+				case 'transliterated':
+					queries.push({
+						strategy,
+						query: transliterate(stripped),
+						strict: false,
+					});
+					break;
+			}
 		}
 
-		return [];
+		// Later rungs that end up identical to an earlier one are skipped
+		return queries.filter(
+			(searchQuery, index) =>
+				searchQuery.query.trim() !== '' &&
+				queries.findIndex(
+					(other) =>
+						other.query === searchQuery.query &&
+						other.strict === searchQuery.strict,
+				) === index,
+		);
 	}
 
 	/**
-	 * Find the best matching tracks from search results, separating high-quality and explore-more results
-	 * @param results - Array of Deezer search results
-	 * @param sourceTrack - The source track to match against (from Spotify or YouTube Music)
-	 * @returns MatchingResults with highQuality and exploreMore arrays
+	 * Run one query of the ladder and score its results
+	 * @param searchQuery - Query to run
+	 * @param sourceTrack - The source track to match
+	 * @param limit - Results requested from Deezer
+	 * @param matchOptions - Matching engine options (explicit/clean preference)
+	 * @returns Scored matches in Deezer's result order (empty if the search failed)
 	 */
-	private findBestMatches(
-		results: DeezerTrack[],
+	private async runSearchQuery(
+		searchQuery: SearchQuery,
 		sourceTrack: {
 			name: string;
 			artists: string[];
 			images?: Array<{ url: string }>;
+			duration?: number;
+			explicit?: boolean;
+			album?: string;
+			album_type?: AlbumType;
+			release_date?: string;
 		},
-	): MatchingResults {
-		const { name, artists } = sourceTrack;
+		limit: number,
+		matchOptions: MatchOptions,
+	): Promise<RankedSearch<DeezerTrack>> {
+		const { strategy, query, strict } = searchQuery;
 
-		// If no artist info from Spotify, use title-only matching with lower threshold
-		const hasArtist = artists.length > 0 && artists[0];
-		const threshold = 40;
-
-		const highQuality: ScoredTrack[] = [];
-		const exploreMore: ScoredTrack[] = [];
+		try {
+			const results = await this.searchTrack(query, limit, { strict });
+			if (results.length === 0) {
+				return { strategy, query, matches: [] };
+			}
 
-		for (const result of results) {
-			if (!result) continue;
+			const [coverScores, withReleases] = await Promise.all([
+				this.getCoverScores(results, sourceTrack.images?.[0]?.url),
+				sourceTrack.album || sourceTrack.release_date
+					? this.addAlbumReleases(results)
+					: results,
+			]);
+			const { highQuality, exploreMore } = this.findBestMatches(
+				withReleases,
+				sourceTrack,
+				coverScores,
+				matchOptions,
+			);
 
-			let score = 0;
+			// Keep Deezer's own ranking, which is what gets fused across strategies
+			const scored = new Map(
+				[...highQuality, ...exploreMore].map((match) => [match.id, match]),
+			);
+			const matches = results
+				.map((result) => scored.get(result.id))
+				.filter((match): match is DeezerTrack => match !== undefined);
+
+			return { strategy, query, matches };
+		} catch (searchError) {
+			console.warn(
+				`Search failed for ${strategy} query "${query}":`,
+				searchError,
+			);
+			return { strategy, query, matches: [] };
+		}
+	}
 
-			if (hasArtist && artists[0] && result.artist) {
-				// Standard matching with artist
-				const artistSimilarity = this.calculateSimilarity(
-					artists[0],
-					result.artist,
-				);
-				const titleSimilarity = this.calculateSimilarity(
-					name,
-					result.title || '',
-				);
+	/**
+	 * Compare the source cover with the cover of each search result
+	 * @param results - Array of Deezer search results
+	 * @param sourceImageUrl - Cover of the source track, if any
+	 * @returns Cover similarity (0-100) by Deezer track ID, for the covers that could be compared
+	 */
+	private async getCoverScores(
+		results: DeezerTrack[],
+		sourceImageUrl: string | undefined,
+	): Promise<Map<number, number>> {
+		const coverScores = new Map<number, number>();
+		if (!sourceImageUrl) {
+			return coverScores;
+		}
 
-				// Weighted score: artist is slightly more important
-				score = artistSimilarity * 0.55 + titleSimilarity * 0.45;
-			} else {
-				// Title-only matching (when no artist from Spotify)
-				const titleSimilarity = this.calculateSimilarity(
-					name,
-					result.title || '',
+		await Promise.all(
+			results.map(async (result) => {
+				const score = await coverArtService.compareCovers(
+					sourceImageUrl,
+					result.cover,
 				);
+				if (score !== null) {
+					coverScores.set(result.id, score);
+				}
+			}),
+		);
+		return coverScores;
+	}
 
-				// Check if Spotify title is contained in Deezer title (for partial matches)
-				const normalizedSpotify = this.normalizeString(name);
-				const normalizedDeezer = this.normalizeString(result.title || '');
+	/**
+	 * Complete search results with the release attributes of their albums
+	 * (search results don't carry release dates or album types)
+	 * @param results - Array of Deezer search results
+	 * @returns Results with album artist, type and release date when they could be read
+	 */
+	private async addAlbumReleases(
+		results: DeezerTrack[],
+	): Promise<DeezerTrack[]> {
+		return Promise.all(
+			results.map(async (result) => {
+				const release = result.albumId
+					? await this.getAlbumRelease(result.albumId)
+					: null;
+				return release ? { ...result, ...release } : result;
+			}),
+		);
+	}
 
-				if (normalizedSpotify && normalizedDeezer) {
-					const isPartialMatch =
-						normalizedDeezer.includes(normalizedSpotify) ||
-						normalizedSpotify.includes(normalizedDeezer);
+	/**
+	 * Read the release attributes of an album, cached per album
+	 * @param albumId - Deezer album ID
+	 * @returns Release attributes, or null if the album couldn't be fetched
+	 */
+	private getAlbumRelease(albumId: number): Promise<AlbumRelease | null> {
+		const cached = this.albumReleases.get(albumId);
+		if (cached) {
+			return cached;
+		}
 
-					if (isPartialMatch) {
-						// Boost score for partial matches
-						score = titleSimilarity * 1.2; // 20% bonus
-					} else {
-						score = titleSimilarity;
-					}
-				} else {
-					score = titleSimilarity;
+		const release = this.fetchApi<DeezerApiAlbum | DeezerApiError>(
+			`${this.baseURL}/album/${albumId}`,
+			{ timeout: 15000, maxRetries: 1 },
+		)
+			.then((data): AlbumRelease | null => {
+				if (!data || typeof data !== 'object' || 'error' in data) {
+					return null;
 				}
-			}
+				return {
+					albumArtist: data.artist?.name,
+					albumType: this.readAlbumType(data.record_type),
+					releaseDate: data.release_date,
+				};
+			})
+			.catch((error) => {
+				console.warn(`Album lookup failed for ${albumId}:`, error);
+				return null;
+			});
 
-			// Bonus for duration match (if available)
-			if (
-				'duration' in sourceTrack &&
-				sourceTrack.duration !== undefined &&
-				sourceTrack.duration !== null &&
-				typeof sourceTrack.duration === 'number' &&
-				result.duration
-			) {
-				const durationDiff = Math.abs(
-					sourceTrack.duration / 1000 - result.duration,
-				);
-				if (durationDiff < 5) {
-					score += 5;
-				} else if (durationDiff < 15) {
-					score += 2;
-				}
-			}
+		this.albumReleases.set(albumId, release);
+		return release;
+	}
 
-			// Categorize matches based on threshold
-			if (score >= threshold) {
-				highQuality.push({ track: result, score, isHighQuality: true });
-			} else {
-				exploreMore.push({ track: result, score, isHighQuality: false });
-			}
+	/**
+	 * Map a Deezer `record_type` to an album type
+	 */
+	private readAlbumType(recordType: string | undefined): AlbumType | undefined {
+		switch (recordType) {
+			case 'album':
+			case 'single':
+			case 'ep':
+				return recordType;
+			case 'compile':
+				return 'compilation';
+			default:
+				return undefined;
 		}
+	}
 
-		return {
-			highQuality: highQuality.map((m) => ({
-				...m.track,
-				isHighQuality: true,
-			})),
-			exploreMore: exploreMore.map((m) => ({
-				...m.track,
-				isHighQuality: false,
+	/**
+	 * Score search results against the source track with the shared matching engine
+	 * @param results - Array of Deezer search results
+	 * @param sourceTrack - The source track to match against (from Spotify or YouTube Music)
+	 * @param coverScores - Cover similarity by Deezer track ID (see getCoverScores)
+	 * @param matchOptions - Matching engine options (explicit/clean preference)
+	 * @returns Scored tracks split into high-quality and explore-more matches
+	 */
+	private findBestMatches(
+		results: DeezerTrack[],
+		sourceTrack: {
+			name: string;
+			artists: string[];
+			images?: Array<{ url: string }>;
+			duration?: number;
+			explicit?: boolean;
+			album?: string;
+			album_type?: AlbumType;
+			release_date?: string;
+		},
+		coverScores: Map<number, number> = new Map(),
+		matchOptions: MatchOptions = {},
+	): { highQuality: DeezerTrack[]; exploreMore: DeezerTrack[] } {
+		const { highQuality, exploreMore } = trackMatchingEngine.match(
+			{
+				title: sourceTrack.name,
+				artists: sourceTrack.artists,
+				durationMs: sourceTrack.duration,
+				explicit: sourceTrack.explicit,
+				album: sourceTrack.album,
+				albumType: sourceTrack.album_type,
+				releaseDate: sourceTrack.release_date,
+			},
+			results.filter(Boolean).map((result) => ({
+				item: result,
+				track: {
+					title: result.title || '',
+					artists: result.artist ? [result.artist] : [],
+					album: result.album,
+					albumArtist: result.albumArtist,
+					albumType: result.albumType,
+					releaseDate: result.releaseDate,
+					durationMs: result.duration ? result.duration * 1000 : undefined,
+					explicit: result.explicit,
+				},
+				coverSimilarity: coverScores.get(result.id),
 			})),
+			matchOptions,
+		);
+
+		const toTrack = (match: ScoredMatch<DeezerTrack>): DeezerTrack => ({
+			...match.item,
+			isHighQuality: match.isHighQuality,
+			score: match.score,
+			scoreBreakdown: match.scoreBreakdown,
+			...(hasVersion(match.version) ? { version: match.version } : {}),
+		});
+
+		return {
+			highQuality: highQuality.map(toTrack),
+			exploreMore: exploreMore.map(toTrack),
 		};
 	}
 
@@ -512,7 +846,7 @@ class DeezerService {
 			const albumUrl = `${this.baseURL}/album/${albumId}`;
 
 			// Use fetchWithProxy for CORS handling with automatic fallback
-			const data = await fetchWithProxy<DeezerApiAlbum>(albumUrl, {
+			const data = await this.fetchApi<DeezerApiAlbum>(albumUrl, {
 				timeout: 15000, // Increased timeout
 			});
 			if (!data || typeof data !== 'object' || !data.id || !data.title) {
@@ -538,6 +872,11 @@ class DeezerService {
 						preview: track.preview,
 						link: track.link,
 						cover: data.cover_medium || '',
+						albumId: data.id,
+						albumArtist: artist,
+						albumType: this.readAlbumType(data.record_type),
+						releaseDate: data.release_date,
+						explicit: this.readExplicit(track),
 					})) || [],
 				images: data.cover_medium ? [{ url: data.cover_medium }] : [],
 				name: data.title,
@@ -574,12 +913,154 @@ class DeezerService {
 		}
 	}
 
+	/**
+	 * Get the tracklist of an album, following Deezer's pagination
+	 * @param albumId - The Deezer album ID
+	 * @returns Tracks in album order
+	 * @throws Error if a page can't be fetched
+	 */
+	async getAlbumTracklist(albumId: number): Promise<TracklistEntry[]> {
+		const tracks: TracklistEntry[] = [];
+		let pageUrl: string | undefined =
+			`${this.baseURL}/album/${albumId}/tracks?limit=100`;
+
+		// Box sets can run to hundreds of tracks; stop at a sane maximum
+		while (pageUrl && tracks.length < 500) {
+			const page: DeezerSearchResponse | DeezerApiError = await this.fetchApi<
+				DeezerSearchResponse | DeezerApiError
+			>(pageUrl, {
+				timeout: 15000,
+			});
+			if (!page || typeof page !== 'object' || 'error' in page) {
+				throw new Error(`Invalid tracklist data for Deezer album ${albumId}`);
+			}
+
+			for (const track of page.data ?? []) {
+				tracks.push({
+					title: track.title,
+					durationMs: track.duration ? track.duration * 1000 : undefined,
+				});
+			}
+			pageUrl = page.next;
+		}
+
+		return tracks;
+	}
+
+	/**
+	 * Get playlist information and all its tracks by playlist ID
+	 *
+	 * The playlist endpoint only embeds the first tracks, so the tracklist
+	 * is read from `/playlist/{id}/tracks`, following `next` page by page.
+	 *
+	 * @param playlistId - The Deezer playlist ID
+	 * @returns Playlist with its playable tracks in playlist order
+	 * @throws Error if the playlist is not found, private or fetch fails
+	 */
+	async getPlaylist(playlistId: string): Promise<DeezerPlaylist> {
+		try {
+			const data = await this.fetchApi<DeezerApiPlaylist | DeezerApiError>(
+				`${this.baseURL}/playlist/${playlistId}`,
+				{ timeout: 15000 },
+			);
+			if (!data || typeof data !== 'object' || 'error' in data || !data.id) {
+				throw new Error(
+					'Playlist not found on Deezer. Please verify the URL is correct and the playlist is public.',
+				);
+			}
+
+			const tracks: DeezerTrack[] = [];
+			let seen = 0;
+			let pageUrl: string | undefined =
+				`${this.baseURL}/playlist/${playlistId}/tracks?limit=100`;
+
+			// Deezer caps playlists at 10,000 tracks; stop there whatever `next` says
+			while (pageUrl && seen < 10000) {
+				const page: DeezerSearchResponse | DeezerApiError = await this.fetchApi<
+					DeezerSearchResponse | DeezerApiError
+				>(pageUrl, {
+					timeout: 15000,
+				});
+				if (!page || typeof page !== 'object' || 'error' in page) {
+					throw new Error(
+						`Invalid tracklist data for Deezer playlist ${playlistId}`,
+					);
+				}
+
+				for (const track of page.data ?? []) {
+					seen++;
+					// Removed and region-locked tracks stay listed but can't be played
+					if (track.readable === false) {
+						continue;
+					}
+					tracks.push({
+						id: track.id,
+						title: track.title,
+						artist: track.artist?.name || '',
+						album: track.album?.title || '',
+						duration: track.duration,
+						preview: track.preview,
+						link: track.link,
+						cover: track.album?.cover_medium || '',
+						isrc: track.isrc,
+						albumId: track.album?.id,
+						explicit: this.readExplicit(track),
+					});
+				}
+				pageUrl = page.next;
+			}
+
+			return {
+				id: data.id,
+				name: data.title,
+				owner: data.creator?.name,
+				description: data.description || undefined,
+				tracks,
+				total_tracks: Math.max(data.nb_tracks ?? seen, tracks.length),
+				link: data.link,
+				images: data.picture_medium ? [{ url: data.picture_medium }] : [],
+			};
+		} catch (error) {
+			const axiosError = error as {
+				response?: { status?: number };
+				code?: string;
+			};
+			if (
+				axiosError.response?.status === 403 ||
+				axiosError.response?.status === 401
+			) {
+				throw new Error('Unable to access Deezer. Please try again later.');
+			}
+			if (
+				axiosError.code === 'ECONNABORTED' ||
+				axiosError.code === 'ETIMEDOUT'
+			) {
+				throw new Error(
+					'Connection timeout. Please check your internet connection and try again.',
+				);
+			}
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error occurred';
+			throw new Error(`Failed to fetch playlist from Deezer: ${errorMessage}`);
+		}
+	}
+
 	/**
 	 * Find album matches on Deezer based on Spotify album information with threshold-based filtering
+	 *
+	 * When the source album comes with its tracklist, the tracklists of the
+	 * best candidates are fetched and compared with it, so the same edition
+	 * ranks above deluxe, anniversary or remastered ones. Each of those
+	 * matches reports its edition verdict with the missing and extra tracks.
+	 *
 	 * @param sourceAlbum - The Spotify album to find matches for
 	 * @returns Array of matching Deezer albums, prioritizing high-quality matches, then explore-more if needed
 	 */
-	async findAlbumMatches(sourceAlbum: any): Promise<DeezerAlbum[]> {
+	async findAlbumMatches(sourceAlbum: {
+		name: string;
+		artists: string[];
+		tracks?: Array<{ name: string; duration?: number }>;
+	}): Promise<DeezerAlbum[]> {
 		try {
 			// Search for the album using the search endpoint
 			const searchQuery = encodeURIComponent(
@@ -587,7 +1068,7 @@ class DeezerService {
 			);
 			const searchUrl = `${this.baseURL}/search/album?q=${searchQuery}&limit=10`;
 
-			const data = await fetchWithProxy<DeezerApiSearchResponse>(searchUrl, {
+			const data = await this.fetchApi<DeezerApiSearchResponse>(searchUrl, {
 				timeout: 15000,
 			});
 
@@ -595,52 +1076,12 @@ class DeezerService {
 				return [];
 			}
 
-			// Score and filter matches
-			const highQualityMatches: { album: DeezerAlbum; score: number }[] = [];
-			const exploreMoreMatches: { album: DeezerAlbum; score: number }[] = [];
-
-			const threshold = 40; // Lower threshold for more inclusive matching
-
-			for (const result of data.data) {
-				if (
-					!result ||
-					typeof result !== 'object' ||
-					!result.id ||
-					!result.title
-				) {
-					continue;
-				}
-
-				let score = 0;
-
-				// Artist similarity (most important)
-				const artistSimilarity = this.calculateSimilarity(
-					sourceAlbum.artists.join(' '),
-					result.artist?.name || '',
-				);
-
-				// Title similarity
-				const titleSimilarity = this.calculateSimilarity(
-					sourceAlbum.name,
-					result.title,
-				);
-
-				// Combined score with more lenient weighting
-				score = artistSimilarity * 0.6 + titleSimilarity * 0.4;
-
-				// Bonus for exact or very close artist match
-				if (artistSimilarity > 85) {
-					score += 15;
-				} else if (artistSimilarity > 70) {
-					score += 10;
-				}
-
-				// Bonus for title matches that are very close
-				if (titleSimilarity > 80) {
-					score += 5;
-				}
-
-				const album: DeezerAlbum = {
+			const albums: DeezerAlbum[] = data.data
+				.filter(
+					(result) =>
+						result && typeof result === 'object' && result.id && result.title,
+				)
+				.map((result) => ({
 					id: result.id,
 					title: result.title,
 					artist: result.artist?.name || 'Unknown Artist',
@@ -651,33 +1092,67 @@ class DeezerService {
 					name: result.title, // Map title to name for compatibility
 					artists: result.artist?.name ? [result.artist.name] : [],
 					total_tracks: result.nb_tracks,
-				};
+				}));
 
-				// Categorize matches based on threshold
-				if (score >= threshold) {
-					highQualityMatches.push({
-						album: { ...album, isHighQuality: true },
-						score,
-					});
-				} else {
-					exploreMoreMatches.push({
-						album: { ...album, isHighQuality: false },
-						score,
-					});
-				}
+			const source = { title: sourceAlbum.name, artists: sourceAlbum.artists };
+			const toCandidate = (album: DeezerAlbum) => ({
+				item: album,
+				track: { title: album.title, artists: [album.artist] },
+				tracklist: album.edition,
+			});
+
+			// Score and filter matches
+			let { highQuality, exploreMore } = albumMatchingEngine.match(
+				source,
+				albums.map(toCandidate),
+			);
+
+			// Compare the tracklists of the best candidates and score them again
+			const sourceTracklist = (sourceAlbum.tracks ?? []).map((track) => ({
+				title: track.name,
+				durationMs: track.duration,
+			}));
+			if (sourceTracklist.length > 0) {
+				const best = [...highQuality, ...exploreMore]
+					.slice(0, 5)
+					.map((match) => match.item);
+				const withTracklists = await mapWithConcurrency(
+					best,
+					3,
+					async (album) => {
+						try {
+							const tracklist = await this.getAlbumTracklist(album.id);
+							return {
+								...album,
+								edition: compareTracklists(sourceTracklist, tracklist),
+							};
+						} catch (tracklistError) {
+							console.warn(
+								`Failed to load tracklist of Deezer album ${album.id}:`,
+								tracklistError,
+							);
+							return album;
+						}
+					},
+				);
+				({ highQuality, exploreMore } = albumMatchingEngine.match(
+					source,
+					withTracklists.map(toCandidate),
+				));
 			}
 
+			const toAlbum = (match: ScoredMatch<DeezerAlbum>): DeezerAlbum => ({
+				...match.item,
+				isHighQuality: match.isHighQuality,
+				score: match.score,
+				scoreBreakdown: match.scoreBreakdown,
+			});
+
 			// Return high-quality matches first, then explore-more if no high-quality matches exist
-			if (highQualityMatches.length > 0) {
-				return highQualityMatches
-					.sort((a, b) => b.score - a.score)
-					.slice(0, 5)
-					.map((match) => match.album);
-			} else if (exploreMoreMatches.length > 0) {
-				return exploreMoreMatches
-					.sort((a, b) => b.score - a.score)
-					.slice(0, 5)
-					.map((match) => match.album);
+			if (highQuality.length > 0) {
+				return highQuality.slice(0, 5).map(toAlbum);
+			} else if (exploreMore.length > 0) {
+				return exploreMore.slice(0, 5).map(toAlbum);
 			}
 
 			return [];
@@ -687,6 +1162,166 @@ class DeezerService {
 			return [];
 		}
 	}
+
+	/**
+	 * Get artist information by artist ID using Deezer API, with the titles
+	 * of its top tracks and albums
+	 * @param artistId - The Deezer artist ID
+	 * @returns Artist information
+	 * @throws Error if artist is not found or fetch fails
+	 */
+	async getArtist(artistId: string): Promise<DeezerArtist> {
+		try {
+			const data = await this.fetchApi<DeezerApiArtist | DeezerApiError>(
+				`${this.baseURL}/artist/${artistId}`,
+				{ timeout: 15000 },
+			);
+			if (!data || typeof data !== 'object' || 'error' in data || !data.id) {
+				throw new Error(
+					'Artist not found on Deezer. Please verify the URL is correct.',
+				);
+			}
+
+			return {
+				...this.toArtist(data),
+				...(await this.getArtistProfile(data.id)),
+			};
+		} catch (error) {
+			const axiosError = error as {
+				response?: { status?: number };
+				code?: string;
+			};
+			if (
+				axiosError.code === 'ECONNABORTED' ||
+				axiosError.code === 'ETIMEDOUT'
+			) {
+				throw new Error(
+					'Connection timeout. Please check your internet connection and try again.',
+				);
+			}
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error occurred';
+			throw new Error(`Failed to fetch artist from Deezer: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * Map an artist returned by the Deezer API
+	 */
+	private toArtist(artist: DeezerApiArtist): DeezerArtist {
+		return {
+			id: artist.id,
+			name: artist.name,
+			link: artist.link || `https://www.deezer.com/artist/${artist.id}`,
+			picture: artist.picture_medium || '',
+			nb_album: artist.nb_album,
+			nb_fan: artist.nb_fan,
+		};
+	}
+
+	/**
+	 * Read the titles of an artist's top tracks and albums
+	 * @param artistId - The Deezer artist ID
+	 * @returns Top track and album titles
+	 * @throws Error if a list can't be fetched
+	 */
+	private async getArtistProfile(
+		artistId: number,
+	): Promise<{ topTracks: string[]; albums: string[] }> {
+		const [top, albums] = await Promise.all([
+			this.fetchApi<DeezerSearchResponse | DeezerApiError>(
+				`${this.baseURL}/artist/${artistId}/top?limit=10`,
+				{ timeout: 15000 },
+			),
+			this.fetchApi<DeezerApiSearchResponse | DeezerApiError>(
+				`${this.baseURL}/artist/${artistId}/albums?limit=50`,
+				{ timeout: 15000 },
+			),
+		]);
+		if ('error' in top || 'error' in albums) {
+			throw new Error(`Invalid data for Deezer artist ${artistId}`);
+		}
+
+		return {
+			topTracks: (top.data ?? []).map((track) => track.title),
+			albums: (albums.data ?? []).map((album) => album.title),
+		};
+	}
+
+	/**
+	 * Find the artist page on Deezer for an artist from another platform
+	 *
+	 * Deezer's artist search ranks by popularity, so same-named artists are
+	 * told apart by the top tracks and albums they share with the source.
+	 *
+	 * @param sourceArtist - The source artist, with its top tracks and albums when known
+	 * @returns Array of matching Deezer artists, prioritizing high-quality matches, then explore-more if needed
+	 */
+	async findArtistMatches(sourceArtist: {
+		name: string;
+		topTracks?: string[];
+		albums?: string[];
+	}): Promise<DeezerArtist[]> {
+		try {
+			const data = await this.fetchApi<
+				DeezerApiArtistSearchResponse | DeezerApiError
+			>(
+				`${this.baseURL}/search/artist?q=${encodeURIComponent(sourceArtist.name)}&limit=10`,
+				{ timeout: 15000 },
+			);
+			if (!data || typeof data !== 'object' || 'error' in data) {
+				return [];
+			}
+
+			const candidates = await mapWithConcurrency(
+				(data.data ?? []).filter((artist) => artist?.id).slice(0, 5),
+				3,
+				async (artist) => {
+					const item = this.toArtist(artist);
+					try {
+						const profile = await this.getArtistProfile(artist.id);
+						return { item: { ...item, ...profile }, profile };
+					} catch (profileError) {
+						console.warn(
+							`Failed to load top tracks of Deezer artist ${artist.id}:`,
+							profileError,
+						);
+						return { item, profile: { topTracks: [], albums: [] } };
+					}
+				},
+			);
+
+			const source: ArtistProfile = {
+				name: sourceArtist.name,
+				topTracks: sourceArtist.topTracks ?? [],
+				albums: sourceArtist.albums ?? [],
+			};
+			const { highQuality, exploreMore } = matchArtists(
+				source,
+				candidates.map(({ item, profile }) => ({
+					item,
+					profile: { name: item.name, ...profile },
+				})),
+			);
+
+			const toMatch = (
+				match: ScoredArtistMatch<DeezerArtist>,
+			): DeezerArtist => ({
+				...match.item,
+				isHighQuality: match.isHighQuality,
+				score: match.score,
+				scoreBreakdown: match.scoreBreakdown,
+			});
+
+			return highQuality.length > 0
+				? highQuality.slice(0, 5).map(toMatch)
+				: exploreMore.slice(0, 5).map(toMatch);
+		} catch (error) {
+			// Return empty array on error rather than throwing
+			console.warn('Error searching for artist matches:', error);
+			return [];
+		}
+	}
 }
 
 export default new DeezerService();
@@ -1,17 +1,116 @@
 import type { AxiosError } from 'axios';
+import { matchArtists } from '../matching/artistMatching';
+import { trackMatchingEngine } from '../matching/matchingEngine';
+import { cleanForSearch } from '../matching/searchTerms';
+import type {
+	AlbumType,
+	MatchOptions,
+	ScoredArtistMatch,
+	ScoredMatch,
+} from '../types/matching.types';
 import type {
 	SpotifyAlbum,
+	SpotifyApiArtist,
+	SpotifyApiArtistSearch,
+	SpotifyApiPlaylistTracksPage,
+	SpotifyApiTrack,
+	SpotifyApiTrackSearch,
+	SpotifyArtist,
 	SpotifyOEmbedResponse,
+	SpotifyPageCollection,
+	SpotifyPageMetadata,
+	SpotifyPlaylist,
 	SpotifyTrack,
 } from '../types/spotify.types';
-import { fetchWithProxy } from '../utils/responseWrapper';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getExplicitPreference } from '../utils/explicitContent';
+import { fetchWithProxy, resolveWithProxy } from '../utils/responseWrapper';
+import {
+	mergeSpotifyMetadata,
+	parseSpotifyCollectionPage,
+	parseSpotifyPageMetadata,
+	readAlbumType,
+} from '../utils/spotifyMetadata';
+import { hasVersion } from '../utils/versionParser';
+
+/**
+ * Embed page read for an anonymous Web API token when no Spotify page is at
+ * hand (searches): the editorial "Today's Top Hits" playlist, which stays up
+ */
+const TOKEN_SOURCE_URL =
+	'https://open.spotify.com/embed/playlist/37i9dQZF1DXcBWIGoYBM5M';
 
 /**
  * Service for interacting with Spotify API
  */
 class SpotifyService {
+	/** Anonymous Web API token, shared by the searches until it's rejected */
+	private accessToken?: Promise<string>;
+
 	/**
-	 * Get track information by track ID using oEmbed API
+	 * Get an anonymous Web API token from the embed player
+	 * @returns Bearer token for api.spotify.com
+	 * @throws Error if the embed page carries no token
+	 */
+	private getAccessToken(): Promise<string> {
+		if (!this.accessToken) {
+			const token = fetchWithProxy<string>(TOKEN_SOURCE_URL, {
+				timeout: 15000,
+			}).then((html) => {
+				const { accessToken } = parseSpotifyCollectionPage(html);
+				if (!accessToken) {
+					throw new Error('No access token in the Spotify embed page');
+				}
+				return accessToken;
+			});
+			// A failed read is retried by the next search
+			token.catch(() => {
+				if (this.accessToken === token) this.accessToken = undefined;
+			});
+			this.accessToken = token;
+		}
+		return this.accessToken;
+	}
+
+	/**
+	 * Search the Spotify Web API with the anonymous token
+	 * @param type - Kind of item searched
+	 * @param query - Search query
+	 * @param limit - Number of results
+	 * @returns Raw search response
+	 * @throws Error if no token can be read or the search fails
+	 */
+	private async searchApi<T>(
+		type: 'artist' | 'track',
+		query: string,
+		limit: number,
+	): Promise<T> {
+		const token = await this.getAccessToken();
+		try {
+			return await fetchWithProxy<T>(
+				`https://api.spotify.com/v1/search?${new URLSearchParams({
+					q: query,
+					type,
+					limit: String(limit),
+				})}`,
+				{ timeout: 15000, headers: { Authorization: `Bearer ${token}` } },
+			);
+		} catch (error) {
+			// Tokens expire after an hour: read a new one for the next search
+			if ((error as AxiosError).response?.status === 401) {
+				this.accessToken = undefined;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Get track information by track ID
+	 *
+	 * Combines the oEmbed response with metadata scraped from the public track
+	 * and embed pages, which provide the full artist list, album, duration,
+	 * release date and (when exposed) the ISRC.
+	 *
 	 * @param trackId - The Spotify track ID
 	 * @returns Track information
 	 * @throws Error if track is not found or fetch fails
@@ -23,33 +122,52 @@ class SpotifyService {
 			// Build the full oEmbed URL, then fetch via proxy with automatic fallback
 			const oembedUrl = `https://open.spotify.com/oembed?url=${encodeURIComponent(trackUrl)}`;
 
-			// Use the new fetchWithProxy function with retry logic
-			const oembedData = await fetchWithProxy<SpotifyOEmbedResponse>(
-				oembedUrl,
-				{
+			const [oembedResult, metadataResult] = await Promise.allSettled([
+				fetchWithProxy<SpotifyOEmbedResponse>(oembedUrl, {
 					timeout: 15000, // Increased timeout
-				},
-			);
+				}),
+				this.getTrackMetadata(trackId),
+			]);
 
-			// Base object from oEmbed
+			// Page metadata is enough on its own; only give up when both sources fail
+			if (
+				oembedResult.status === 'rejected' &&
+				(metadataResult.status === 'rejected' || !metadataResult.value.name)
+			) {
+				throw oembedResult.reason;
+			}
+
+			const oembedData: SpotifyOEmbedResponse =
+				oembedResult.status === 'fulfilled' ? oembedResult.value : {};
+			const metadata: SpotifyPageMetadata =
+				metadataResult.status === 'fulfilled'
+					? metadataResult.value
+					: { artists: [] };
+
+			const imageUrl = oembedData.thumbnail_url ?? metadata.imageUrl;
+
+			// Base object from page metadata, completed by oEmbed
 			const trackInfo: SpotifyTrack = {
 				id: trackId,
-				name: oembedData.title ?? '',
-				artists: [],
-				album: '',
+				name: metadata.name ?? oembedData.title ?? '',
+				artists: metadata.artists,
+				album: metadata.album ?? '',
+				album_type: metadata.albumType,
+				duration: metadata.durationMs,
+				release_date: metadata.releaseDate,
+				isrc: metadata.isrc,
+				explicit: metadata.explicit,
 				external_urls: { spotify: trackUrl },
-				images: oembedData.thumbnail_url
-					? [{ url: oembedData.thumbnail_url }]
-					: [],
+				images: imageUrl ? [{ url: imageUrl }] : [],
 			};
 
-			// Parse artist/title from oEmbed title.
-			// Common formats observed:
+			// Fallback when the pages couldn't be read: parse artist/title from
+			// the oEmbed title. Common formats observed:
 			//  - "Song Title - Artist"
 			//  - "Song Title – Artist" (en dash)
 			//  - "Song Title — Artist" (em dash)
 			// If more than two parts (e.g., multiple artists), join the tail as artist.
-			if (oembedData.title) {
+			if (trackInfo.artists.length === 0 && oembedData.title) {
 				const parts = oembedData.title.split(/\s[-–—]\s/); // split on hyphen/en/em dash with spaces
 				if (parts.length >= 2) {
 					const [maybeTitle, ...rest] = parts;
@@ -58,7 +176,7 @@ class SpotifyService {
 						trackInfo.artists = [rest.join(' - ').trim()];
 					}
 				} else if (parts.length === 1) {
-					if (parts[0]) {
+					if (parts[0] && !metadata.name) {
 						trackInfo.name = parts[0].trim();
 					}
 				}
@@ -99,6 +217,87 @@ class SpotifyService {
 		}
 	}
 
+	/**
+	 * Read track metadata from the public embed player and track page
+	 *
+	 * Both pages are fetched in parallel; the embed payload wins for fields it
+	 * provides and the track page fills in the rest (album, ISRC).
+	 *
+	 * @param trackId - The Spotify track ID
+	 * @returns Merged page metadata
+	 * @throws Error if neither page could be fetched
+	 */
+	private async getTrackMetadata(
+		trackId: string,
+	): Promise<SpotifyPageMetadata> {
+		const pageUrls = [
+			`https://open.spotify.com/embed/track/${trackId}`,
+			`https://open.spotify.com/track/${trackId}`,
+		];
+
+		const pages = await Promise.allSettled(
+			pageUrls.map((url) =>
+				fetchWithProxy<string>(url, { timeout: 15000, maxRetries: 1 }),
+			),
+		);
+
+		const parsed = pages
+			.filter(
+				(page): page is PromiseFulfilledResult<string> =>
+					page.status === 'fulfilled' && typeof page.value === 'string',
+			)
+			.map((page) => parseSpotifyPageMetadata(page.value));
+
+		if (parsed.length === 0) {
+			throw new Error('Unable to read Spotify track pages');
+		}
+
+		return mergeSpotifyMetadata(...parsed);
+	}
+
+	/**
+	 * Resolve a Spotify short link (spotify.link, spoti.fi) to its canonical URL
+	 * @param shortId - The `short:{host}/{code}` identifier from parseSpotifyShortUrl
+	 * @returns Canonical open.spotify.com URL of the track, album, playlist or artist
+	 * @throws Error if the link can't be resolved or points to unsupported content
+	 */
+	async resolveShortLink(shortId: string): Promise<string> {
+		try {
+			const shortUrl = `https://${shortId.replace(/^short:/, '')}`;
+			const resolvedUrl = await resolveWithProxy(shortUrl, { timeout: 15000 });
+
+			// Drop locale segments (/intl-fr/) and tracking parameters (?si=...)
+			const match = resolvedUrl.match(
+				/open\.spotify\.com\/(?:intl-[a-z]{2}(?:-[a-z]{2})?\/)?(track|album|playlist|artist)\/([a-zA-Z0-9]+)/i,
+			);
+			if (!match?.[1] || !match[2]) {
+				throw new Error(
+					'This Spotify short link does not point to a track, album, playlist or artist.',
+				);
+			}
+
+			return `https://open.spotify.com/${match[1].toLowerCase()}/${match[2]}`;
+		} catch (error) {
+			const axiosError = error as AxiosError;
+			if (axiosError.response?.status === 404) {
+				throw new Error(
+					'Spotify short link not found. Please verify the URL is correct.',
+				);
+			}
+			if (
+				axiosError.code === 'ECONNABORTED' ||
+				axiosError.code === 'ETIMEDOUT'
+			) {
+				throw new Error(
+					'Connection timeout. Please check your internet connection and try again.',
+				);
+			}
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error occurred';
+			throw new Error(`Failed to resolve Spotify short link: ${errorMessage}`);
+		}
+	}
+
 	/**
 	 * Get album information by album ID using oEmbed API
 	 * @param albumId - The Spotify album ID
@@ -187,28 +386,380 @@ class SpotifyService {
 	}
 
 	/**
-	 * Get album tracks by getting individual tracks (for now, as Spotify oEmbed doesn't provide track listing)
-	 * @param _albumId - The Spotify album ID (currently unused as oEmbed doesn't provide track listings)
-	 * @returns Promise that resolves when tracks are loaded (currently returns empty array)
+	 * Get the full ordered tracklist of an album from the public embed player
+	 *
+	 * Falls back to the regular album page when the embed payload has no tracks.
+	 *
+	 * @param albumId - The Spotify album ID
+	 * @returns Album tracks in disc order, with artists and durations
 	 * @throws Error if album is not found or fetch fails
 	 */
-	async getAlbumTracks(_albumId: string): Promise<SpotifyTrack[]> {
-		// For now, return empty array as Spotify oEmbed doesn't provide track listings
-		// In a real implementation, this would require Spotify Web API access with authentication
-		return Promise.resolve([]);
+	async getAlbumTracks(albumId: string): Promise<SpotifyTrack[]> {
+		try {
+			let collection: SpotifyPageCollection = { artists: [], tracks: [] };
+			for (const pageUrl of [
+				`https://open.spotify.com/embed/album/${albumId}`,
+				`https://open.spotify.com/album/${albumId}`,
+			]) {
+				const html = await fetchWithProxy<string>(pageUrl, {
+					timeout: 15000,
+					maxRetries: 1,
+				});
+				collection = parseSpotifyCollectionPage(html);
+				if (collection.tracks.length > 0) break;
+			}
+
+			return collection.tracks.map((track) => ({
+				id: track.id,
+				name: track.name,
+				artists: track.artists.length > 0 ? track.artists : collection.artists,
+				album: collection.name ?? '',
+				duration: track.durationMs,
+				release_date: collection.releaseDate,
+				explicit: track.explicit,
+				external_urls: {
+					spotify: `https://open.spotify.com/track/${track.id}`,
+				},
+				images: collection.imageUrl ? [{ url: collection.imageUrl }] : [],
+			}));
+		} catch (error) {
+			const axiosError = error as AxiosError;
+			if (axiosError.response?.status === 404) {
+				throw new Error(
+					'Album not found on Spotify. Please verify the URL is correct.',
+				);
+			}
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error occurred';
+			throw new Error(
+				`Failed to fetch album tracks from Spotify: ${errorMessage}`,
+			);
+		}
+	}
+
+	/**
+	 * Get a public playlist with its full tracklist
+	 *
+	 * The embed player lists the first tracks and carries an anonymous Web API
+	 * token; when the token is present, the tracklist is read again from
+	 * `/v1/playlists/{id}/tracks`, following `next` until every page is loaded.
+	 * Without a token, only the tracks listed by the embed page are returned.
+	 *
+	 * @param playlistId - The Spotify playlist ID
+	 * @returns Playlist information with tracks in playlist order
+	 * @throws Error if the playlist is not found, private or fetch fails
+	 */
+	async getPlaylist(playlistId: string): Promise<SpotifyPlaylist> {
+		try {
+			const playlistUrl = `https://open.spotify.com/playlist/${playlistId}`;
+			const html = await fetchWithProxy<string>(
+				`https://open.spotify.com/embed/playlist/${playlistId}`,
+				{ timeout: 15000 },
+			);
+			const collection = parseSpotifyCollectionPage(html);
+
+			let tracks: SpotifyTrack[] = collection.tracks.map((track) => ({
+				id: track.id,
+				name: track.name,
+				artists: track.artists,
+				album: track.album ?? '',
+				duration: track.durationMs,
+				explicit: track.explicit,
+				external_urls: {
+					spotify: `https://open.spotify.com/track/${track.id}`,
+				},
+				images: [],
+			}));
+			let total = collection.totalTracks ?? tracks.length;
+
+			if (collection.accessToken) {
+				try {
+					const apiTracks = await this.getPlaylistTracksFromApi(
+						playlistId,
+						collection.accessToken,
+					);
+					if (apiTracks.tracks.length > 0) {
+						tracks = apiTracks.tracks;
+						total = apiTracks.total;
+					}
+				} catch (error) {
+					console.warn(
+						'Failed to page through Spotify playlist, using embed tracks:',
+						error,
+					);
+				}
+			}
+
+			if (!collection.name && tracks.length === 0) {
+				throw new Error(
+					'Unable to extract playlist information from Spotify. Please check the URL and try again.',
+				);
+			}
+
+			return {
+				id: playlistId,
+				name: collection.name ?? 'Spotify Playlist',
+				owner: collection.owner,
+				tracks,
+				total_tracks: Math.max(total, tracks.length),
+				external_urls: { spotify: playlistUrl },
+				images: collection.imageUrl ? [{ url: collection.imageUrl }] : [],
+			};
+		} catch (error) {
+			const axiosError = error as AxiosError;
+			if (axiosError.response?.status === 404) {
+				throw new Error(
+					'Playlist not found on Spotify. Please verify the URL is correct and the playlist is public.',
+				);
+			}
+			if (
+				axiosError.response?.status === 403 ||
+				axiosError.response?.status === 401
+			) {
+				throw new Error('Unable to access Spotify. Please try again later.');
+			}
+			if (
+				axiosError.code === 'ECONNABORTED' ||
+				axiosError.code === 'ETIMEDOUT'
+			) {
+				throw new Error(
+					'Connection timeout. Please check your internet connection and try again.',
+				);
+			}
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error occurred';
+			throw new Error(`Failed to fetch playlist from Spotify: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * Get artist information and top tracks by artist ID
+	 *
+	 * The artist embed page lists the artist's top tracks, which tell
+	 * same-named artists apart on other platforms.
+	 *
+	 * @param artistId - The Spotify artist ID
+	 * @returns Artist with the titles of its top tracks
+	 * @throws Error if the artist is not found or fetch fails
+	 */
+	async getArtist(artistId: string): Promise<SpotifyArtist> {
+		try {
+			const html = await fetchWithProxy<string>(
+				`https://open.spotify.com/embed/artist/${artistId}`,
+				{ timeout: 15000 },
+			);
+			const collection = parseSpotifyCollectionPage(html);
+			if (!collection.name) {
+				throw new Error(
+					'Unable to extract artist information from Spotify. Please check the URL and try again.',
+				);
+			}
+
+			return {
+				id: artistId,
+				name: collection.name,
+				external_urls: {
+					spotify: `https://open.spotify.com/artist/${artistId}`,
+				},
+				images: collection.imageUrl ? [{ url: collection.imageUrl }] : [],
+				topTracks: collection.tracks.map((track) => track.name),
+			};
+		} catch (error) {
+			const axiosError = error as AxiosError;
+			if (axiosError.response?.status === 404) {
+				throw new Error(
+					'Artist not found on Spotify. Please verify the URL is correct.',
+				);
+			}
+			if (
+				axiosError.code === 'ECONNABORTED' ||
+				axiosError.code === 'ETIMEDOUT'
+			) {
+				throw new Error(
+					'Connection timeout. Please check your internet connection and try again.',
+				);
+			}
+			const errorMessage =
+				error instanceof Error ? error.message : 'Unknown error occurred';
+			throw new Error(`Failed to fetch artist from Spotify: ${errorMessage}`);
+		}
+	}
+
+	/**
+	 * Read every page of a playlist's tracks from the Spotify Web API
+	 * @param playlistId - The Spotify playlist ID
+	 * @param accessToken - Anonymous token taken from the embed player
+	 * @returns All playable tracks and the total announced by the API
+	 */
+	private async getPlaylistTracksFromApi(
+		playlistId: string,
+		accessToken: string,
+	): Promise<{ tracks: SpotifyTrack[]; total: number }> {
+		const fields =
+			'items(track(id,name,duration_ms,explicit,is_local,artists(name),album(name,album_type,release_date,images),external_ids(isrc))),total,offset,next';
+		let nextUrl: string | null =
+			`https://api.spotify.com/v1/playlists/${playlistId}/tracks?${new URLSearchParams(
+				{ offset: '0', limit: '100', fields },
+			)}`;
+
+		const tracks: SpotifyTrack[] = [];
+		let total = 0;
+
+		while (nextUrl) {
+			const page: SpotifyApiPlaylistTracksPage =
+				await fetchWithProxy<SpotifyApiPlaylistTracksPage>(nextUrl, {
+					timeout: 15000,
+					headers: { Authorization: `Bearer ${accessToken}` },
+				});
+			total = page.total;
+
+			for (const item of page.items) {
+				const track = item.track;
+				// Local files and removed tracks have no ID and can't be matched
+				if (!track?.id || track.is_local) continue;
+
+				tracks.push(this.toTrack(track.id, track));
+			}
+
+			// `next` does not always keep the `fields` filter, so carry it over
+			nextUrl = page.next
+				? `${page.next}${page.next.includes('fields=') ? '' : `&fields=${encodeURIComponent(fields)}`}`
+				: null;
+		}
+
+		return { tracks, total };
+	}
+
+	/**
+	 * Convert a Spotify Web API track
+	 * @param id - Track ID (API tracks without one can't be linked)
+	 * @param track - API track
+	 * @returns Track information
+	 */
+	private toTrack(id: string, track: SpotifyApiTrack): SpotifyTrack {
+		const image = track.album?.images?.[0];
+		return {
+			id,
+			name: track.name,
+			artists: track.artists.map((artist) => artist.name),
+			album: track.album?.name ?? '',
+			album_type: readAlbumType(track.album?.album_type),
+			duration: track.duration_ms,
+			release_date: track.album?.release_date,
+			isrc: track.external_ids?.isrc,
+			explicit: track.explicit,
+			external_urls: {
+				spotify: `https://open.spotify.com/track/${id}`,
+			},
+			images: image ? [image] : [],
+		};
 	}
 
 	/**
 	 * Find best matches for a track on Spotify (up to 5)
-	 * Since Spotify doesn't provide a public search API, this method creates search URLs
+	 *
+	 * Searches tracks through the Web API with the embed player's anonymous
+	 * token and scores the results with the matching engine. Falls back to
+	 * search links when the search fails or finds nothing.
+	 *
 	 * @param sourceTrack - The source track to match (from Deezer or YouTube Music)
-	 * @returns Array of up to 5 Spotify search URLs as track objects
+	 * @param options - Explicit/clean preference
+	 * @returns High-quality matches first, or explore-more matches
 	 */
-	async findTrackMatches(sourceTrack: {
+	async findTrackMatches(
+		sourceTrack: {
+			name: string;
+			artists: string[];
+			images?: Array<{ url: string }>;
+			/** Duration in milliseconds */
+			duration?: number;
+			explicit?: boolean;
+			album?: string;
+			album_type?: AlbumType;
+			release_date?: string;
+		},
+		options: MatchOptions = {},
+	): Promise<SpotifyTrack[]> {
+		const { explicitPreference = getExplicitPreference() } = options;
+		const query = [
+			cleanForSearch(sourceTrack.artists[0] || ''),
+			cleanForSearch(sourceTrack.name),
+		]
+			.filter(Boolean)
+			.join(' ');
+
+		let tracks: SpotifyTrack[] = [];
+		try {
+			if (query) {
+				const response = await this.searchApi<SpotifyApiTrackSearch>(
+					'track',
+					query,
+					5,
+				);
+				tracks = (response.tracks?.items ?? []).flatMap((track) =>
+					track.id ? [this.toTrack(track.id, track)] : [],
+				);
+			}
+		} catch (error) {
+			console.warn('Spotify track search failed, using search links:', error);
+		}
+		if (tracks.length === 0) {
+			return this.getSearchLinks(sourceTrack);
+		}
+
+		const { highQuality, exploreMore } = trackMatchingEngine.match(
+			{
+				title: sourceTrack.name,
+				artists: sourceTrack.artists,
+				durationMs: sourceTrack.duration,
+				explicit: sourceTrack.explicit,
+				album: sourceTrack.album,
+				albumType: sourceTrack.album_type,
+				releaseDate: sourceTrack.release_date,
+			},
+			tracks.map((track, rank) => ({
+				item: {
+					...track,
+					searchTrace: [{ strategy: 'stripped' as const, query, rank }],
+				},
+				track: {
+					title: track.name,
+					artists: track.artists,
+					album: track.album,
+					albumType: track.album_type,
+					releaseDate: track.release_date,
+					durationMs: track.duration,
+					explicit: track.explicit,
+				},
+			})),
+			{ explicitPreference },
+		);
+
+		const toMatch = (match: ScoredMatch<SpotifyTrack>): SpotifyTrack => ({
+			...match.item,
+			isHighQuality: match.isHighQuality,
+			score: match.score,
+			scoreBreakdown: match.scoreBreakdown,
+			...(hasVersion(match.version) ? { version: match.version } : {}),
+		});
+
+		// Return high-quality matches first, then explore-more if no high-quality matches exist
+		if (highQuality.length > 0) {
+			return highQuality.slice(0, 5).map(toMatch);
+		}
+		return exploreMore.slice(0, 5).map(toMatch);
+	}
+
+	/**
+	 * Build Spotify search links for a track that couldn't be searched
+	 * @param sourceTrack - The source track, with name and artists
+	 * @returns Up to 5 Spotify search URLs as track objects
+	 */
+	private getSearchLinks(sourceTrack: {
 		name: string;
 		artists: string[];
 		images?: Array<{ url: string }>;
-	}): Promise<SpotifyTrack[]> {
+	}): SpotifyTrack[] {
 		const { name, artists } = sourceTrack;
 		const artist = artists[0] || '';
 		const thumbnail = sourceTrack.images?.[0]?.url || '';
@@ -228,6 +779,7 @@ class SpotifyService {
 				},
 				images: thumbnail ? [{ url: thumbnail }] : [],
 				isHighQuality: true, // Mark as high quality since it includes both artist and track
+				isSearchLink: true,
 			});
 
 			// Alternative: Track name only (if artist search doesn't work well)
@@ -242,6 +794,7 @@ class SpotifyService {
 				},
 				images: thumbnail ? [{ url: thumbnail }] : [],
 				isHighQuality: false, // Mark as explore-more since it doesn't include artist
+				isSearchLink: true,
 			});
 		} else if (name) {
 			// Fallback: Track name only if artist is missing
@@ -256,6 +809,7 @@ class SpotifyService {
 				},
 				images: thumbnail ? [{ url: thumbnail }] : [],
 				isHighQuality: false, // Mark as explore-more since artist is missing
+				isSearchLink: true,
 			});
 		}
 
@@ -268,7 +822,11 @@ class SpotifyService {
 	 * @param sourceAlbum - The source album information with name, artists, and optional images
 	 * @returns Array of Spotify search URLs as album objects
 	 */
-	async findAlbumMatches(sourceAlbum: any): Promise<SpotifyAlbum[]> {
+	async findAlbumMatches(sourceAlbum: {
+		name: string;
+		artists: string[];
+		images?: Array<{ url: string }>;
+	}): Promise<SpotifyAlbum[]> {
 		const { name, artists } = sourceAlbum;
 		const artist = artists[0] || '';
 		const thumbnail = sourceAlbum.images?.[0]?.url || '';
@@ -287,6 +845,7 @@ class SpotifyService {
 				},
 				images: thumbnail ? [{ url: thumbnail }] : [],
 				isHighQuality: true, // Mark as high quality since it includes both artist and album
+				isSearchLink: true,
 			});
 
 			// Alternative: Album name only
@@ -300,6 +859,7 @@ class SpotifyService {
 				},
 				images: thumbnail ? [{ url: thumbnail }] : [],
 				isHighQuality: false, // Mark as explore-more since it doesn't include artist
+				isSearchLink: true,
 			});
 		} else if (name) {
 			// Fallback: Album name only if artist is missing
@@ -313,11 +873,106 @@ class SpotifyService {
 				},
 				images: thumbnail ? [{ url: thumbnail }] : [],
 				isHighQuality: false, // Mark as explore-more since artist is missing
+				isSearchLink: true,
 			});
 		}
 
 		return results.slice(0, 5);
 	}
+
+	/**
+	 * Find the artist page on Spotify based on source artist information
+	 *
+	 * Searches artists through the Web API with the embed player's anonymous
+	 * token and reads the top tracks of the first results, so same-named
+	 * artists are told apart by the songs they share with the source. Falls
+	 * back to a search link.
+	 *
+	 * @param sourceArtist - The source artist, with its top tracks and albums when known
+	 * @returns High-quality matches first, or explore-more matches
+	 */
+	async findArtistMatches(sourceArtist: {
+		name: string;
+		topTracks?: string[];
+		albums?: string[];
+		images?: Array<{ url: string }>;
+	}): Promise<SpotifyArtist[]> {
+		const { name } = sourceArtist;
+		if (!name) {
+			return [];
+		}
+
+		let items: SpotifyApiArtist[] = [];
+		try {
+			const response = await this.searchApi<SpotifyApiArtistSearch>(
+				'artist',
+				name,
+				5,
+			);
+			items = response.artists?.items ?? [];
+		} catch (error) {
+			console.warn('Spotify artist search failed, using search link:', error);
+		}
+		if (items.length === 0) {
+			const query = encodeURIComponent(name);
+			return [
+				{
+					id: `artist-search-${Date.now()}`,
+					name,
+					external_urls: {
+						spotify: `https://open.spotify.com/search/${query}/artists`,
+					},
+					images: sourceArtist.images?.slice(0, 1) ?? [],
+					isHighQuality: false, // A search can't tell same-named artists apart
+					isSearchLink: true,
+				},
+			];
+		}
+
+		const candidates = await mapWithConcurrency(items, 3, (item) =>
+			this.getArtist(item.id).catch((error): SpotifyArtist => {
+				console.warn(`Failed to load Spotify artist ${item.id}:`, error);
+				return {
+					id: item.id,
+					name: item.name,
+					external_urls: {
+						spotify: `https://open.spotify.com/artist/${item.id}`,
+					},
+					images: item.images?.slice(0, 1) ?? [],
+				};
+			}),
+		);
+
+		const { highQuality, exploreMore } = matchArtists(
+			{
+				name,
+				topTracks: sourceArtist.topTracks ?? [],
+				albums: sourceArtist.albums ?? [],
+			},
+			candidates.map((artist) => ({
+				item: artist,
+				profile: {
+					name: artist.name,
+					topTracks: artist.topTracks ?? [],
+					// The embed page lists no albums
+					albums: [],
+				},
+			})),
+		);
+
+		const toMatch = (
+			match: ScoredArtistMatch<SpotifyArtist>,
+		): SpotifyArtist => ({
+			...match.item,
+			isHighQuality: match.isHighQuality,
+			score: match.score,
+			scoreBreakdown: match.scoreBreakdown,
+		});
+
+		return highQuality.length > 0
+			? highQuality.slice(0, 5).map(toMatch)
+			: exploreMore.slice(0, 5).map(toMatch);
+	}
 }
 
 export default new SpotifyService();
@@ -1,6 +1,38 @@
-import type { SpotifyAlbum } from '../types/spotify.types';
-import type { YouTubeMusicTrack } from '../types/youtubeMusic.types';
-import { fetchWithProxy } from '../utils/responseWrapper';
+import { matchArtists } from '../matching/artistMatching';
+import { trackMatchingEngine } from '../matching/matchingEngine';
+import { cleanForSearch } from '../matching/searchTerms';
+import type {
+	AlbumType,
+	MatchOptions,
+	ScoredArtistMatch,
+	ScoredMatch,
+} from '../types/matching.types';
+import type {
+	InnertubeContext,
+	YouTubeMusicAlbum,
+	YouTubeMusicArtist,
+	YouTubeMusicArtistItem,
+	YouTubeMusicCollectionPage,
+	YouTubeMusicPlaylist,
+	YouTubeMusicSkippedVideo,
+	YouTubeMusicSongItem,
+	YouTubeMusicTrack,
+} from '../types/youtubeMusic.types';
+import { mapWithConcurrency } from '../utils/concurrency';
+import {
+	getExplicitPreference,
+	parseExplicitHint,
+} from '../utils/explicitContent';
+import { fetchWithProxy, postWithProxy } from '../utils/responseWrapper';
+import { hasVersion } from '../utils/versionParser';
+import {
+	parseArtistPage,
+	parseCollectionPage,
+	parseSearchArtists,
+	parseSearchSongs,
+	parseWatchSong,
+} from '../utils/youtubeMusicMetadata';
+import { parseYouTubeTitle } from '../utils/youtubeTitleParser';
 
 interface YouTubeOEmbedResponse {
 	title: string;
@@ -18,91 +50,354 @@ interface YouTubeOEmbedResponse {
 	html: string;
 }
 
+/** YouTube Music's internal API, as used by its web player */
+const INNERTUBE_BASE_URL = 'https://music.youtube.com/youtubei/v1';
+
+const INNERTUBE_CONTEXT: InnertubeContext = {
+	client: {
+		clientName: 'WEB_REMIX',
+		clientVersion: '1.20240101.01.00',
+		hl: 'en',
+		gl: 'US',
+	},
+};
+
+/** Search filter restricting results to songs */
+const SONGS_FILTER_PARAMS = 'EgWKAQIIAWoMEA4QChADEAQQCRAF';
+
+/** Search filter restricting results to artists */
+const ARTISTS_FILTER_PARAMS = 'EgWKAQIgAWoMEA4QChADEAQQCRAF';
+
+/** Playlist pages hold about 100 songs; stop following continuations past this */
+const MAX_COLLECTION_PAGES = 50;
+
+/** Uploads longer than this are mixes, streams or talks rather than songs */
+const MAX_SONG_DURATION_MS = 20 * 60 * 1000;
+
+/** Title YouTube gives to playlist entries whose video was deleted */
+const DELETED_VIDEO_TITLE = /^\[?deleted video\]?$/i;
+
 /**
- * Service for generating YouTube Music search links and track information
+ * Service for YouTube Music track information and matches
  *
- * This service creates optimized search URLs for YouTube Music based on track information
- * from other platforms, since direct API access to YouTube Music is not available.
+ * Matches come from YouTube Music's InnerTube API (the internal API of its
+ * web player), called through the backend proxy. Search links are generated
+ * as a fallback when InnerTube is unreachable or finds nothing.
  */
 class YouTubeMusicService {
 	/**
-	 * Normalize string for better search query
-	 * @param str - String to normalize
-	 * @returns Normalized string
+	 * Albums by playlist ID: conversions to Deezer and Spotify run side by side
+	 * and both read the album
 	 */
-	private normalizeForSearch(str: string): string {
-		if (!str || typeof str !== 'string') {
-			return '';
-		}
+	private readonly albums = new Map<string, Promise<YouTubeMusicAlbum>>();
 
-		return str
-			.replace(/\s*\(feat\..*?\)/gi, '') // Remove feat. annotations
-			.replace(/\s*\[.*?\]\s*/g, '') // Remove content in brackets
-			.replace(/\s*\(.*?\)\s*/g, '') // Remove content in parentheses
-			.trim();
+	/**
+	 * Call an InnerTube endpoint
+	 * @param endpoint - Endpoint name (search, player, next, browse)
+	 * @param body - Request body, without the client context
+	 * @returns Raw InnerTube response
+	 * @throws Error if the request fails
+	 */
+	private callInnertube<T = unknown>(
+		endpoint: string,
+		body: Record<string, unknown>,
+	): Promise<T> {
+		return postWithProxy<T>(
+			`${INNERTUBE_BASE_URL}/${endpoint}?prettyPrint=false`,
+			{ context: INNERTUBE_CONTEXT, ...body },
+			{ timeout: 15000, maxRetries: 1 },
+		);
 	}
 
 	/**
-	 * Get track information by video ID using YouTube oEmbed API
+	 * Search songs on YouTube Music
+	 * @param query - Search query
+	 * @returns Songs in YouTube Music's result order
+	 * @throws Error if the search fails
+	 */
+	async searchSongs(query: string): Promise<YouTubeMusicSongItem[]> {
+		const response = await this.callInnertube('search', {
+			query,
+			params: SONGS_FILTER_PARAMS,
+		});
+		return parseSearchSongs(response);
+	}
+
+	/**
+	 * Convert an InnerTube song to a track
+	 * @param song - Song row of an InnerTube response
+	 * @returns Track linking to the song on YouTube Music
+	 */
+	private toTrack(song: YouTubeMusicSongItem): YouTubeMusicTrack {
+		const url = `https://music.youtube.com/watch?v=${song.videoId}`;
+		const thumbnail =
+			song.thumbnail ?? `https://i.ytimg.com/vi/${song.videoId}/mqdefault.jpg`;
+		return {
+			id: song.videoId,
+			name: song.title,
+			artists: song.artists,
+			channel: song.artists.join(', '),
+			url,
+			thumbnail,
+			images: [{ url: thumbnail }],
+			external_urls: { youtube: url },
+			album: song.album,
+			duration: song.durationMs,
+			explicit: song.explicit ?? parseExplicitHint(song.title),
+		};
+	}
+
+	/**
+	 * Get track information by video ID
+	 *
+	 * Reads the song from YouTube Music's `player` and `next` responses, which
+	 * give the real title, artists, album and video type. Falls back to the
+	 * oEmbed API, which only knows the video title and uploading channel.
+	 *
 	 * @param videoId - The YouTube video ID
 	 * @returns Track information
 	 * @throws Error if track is not found or fetch fails
 	 */
 	async getTrack(videoId: string): Promise<YouTubeMusicTrack> {
-		try {
-			// Use YouTube's oEmbed API to get real track information
-			const oembedUrl = `https://www.youtube.com/oembed?url=https://music.youtube.com/watch?v=${videoId}&format=json`;
+		const [player, next] = await Promise.allSettled([
+			this.callInnertube('player', { videoId }),
+			this.callInnertube('next', { videoId, isAudioOnly: true }),
+		]);
+		const song = parseWatchSong(
+			videoId,
+			player.status === 'fulfilled' ? player.value : undefined,
+			next.status === 'fulfilled' ? next.value : undefined,
+		);
 
-			// Fetch through our proxy service
-			const oembedData = await fetchWithProxy<YouTubeOEmbedResponse>(
-				oembedUrl,
-				{
-					timeout: 10000,
-				},
-			);
+		if (song) {
+			return this.toVideoTrack(song);
+		}
 
-			// Parse title and artist from the oEmbed response
-			const title = oembedData.title || 'Unknown Track';
-			const author = oembedData.author_name || 'Unknown Artist';
-
-			return {
-				id: videoId,
-				name: title,
-				artists: [author],
-				channel: author,
-				url: `https://music.youtube.com/watch?v=${videoId}`,
-				thumbnail: oembedData.thumbnail_url,
-				images: [{ url: oembedData.thumbnail_url }],
-				external_urls: {
-					youtube: `https://music.youtube.com/watch?v=${videoId}`,
-				},
-			};
-		} catch (error) {
-			// Fallback to generic track if oEmbed fails
-			console.warn(
-				'Failed to fetch YouTube track info, using generic data:',
-				error,
+		console.warn(
+			`YouTube Music watch data unavailable for ${videoId}, using oEmbed`,
+		);
+		return this.getTrackFromOEmbed(videoId);
+	}
+
+	/**
+	 * Convert an InnerTube song to a track, reading the artist and title of
+	 * videos from the video title
+	 * @param song - Song row of an InnerTube response
+	 * @returns Track linking to the song on YouTube Music
+	 */
+	private toVideoTrack(song: YouTubeMusicSongItem): YouTubeMusicTrack {
+		const track = this.toTrack(song);
+		return {
+			...track,
+			// Audio tracks carry the song title; videos carry "Artist - Title (Official Video)"
+			...(song.videoType === 'audioTrack'
+				? {}
+				: this.readVideoTitle(song.title, song.artists[0])),
+			release_date: song.year,
+			videoType: song.videoType,
+			// Music videos run longer than the song (intros, outros, skits)
+			duration: song.videoType === 'musicVideo' ? undefined : track.duration,
+		};
+	}
+
+	/**
+	 * Read the song title and artists of a video title
+	 * @param title - Video title ("Artist - Title (Official Video)")
+	 * @param channel - Uploading channel, used when the title names no artist
+	 * @returns Song title and artists, featured artists last
+	 */
+	private readVideoTitle(
+		title: string,
+		channel: string | undefined,
+	): { name: string; artists: string[] } {
+		const parsed = parseYouTubeTitle(title, channel);
+		const artists = [...parsed.artists, ...parsed.featuring];
+		return {
+			name: parsed.title || title,
+			artists: artists.length > 0 ? artists : channel ? [channel] : [],
+		};
+	}
+
+	/**
+	 * Get track information by video ID using YouTube oEmbed API
+	 * @param videoId - The YouTube video ID
+	 * @returns Track information with the video title and channel
+	 * @throws Error if the video is not found or fetch fails
+	 */
+	private async getTrackFromOEmbed(
+		videoId: string,
+	): Promise<YouTubeMusicTrack> {
+		const oembedUrl = `https://www.youtube.com/oembed?url=https://music.youtube.com/watch?v=${videoId}&format=json`;
+
+		// Fetch through our proxy service
+		const oembedData = await fetchWithProxy<YouTubeOEmbedResponse>(oembedUrl, {
+			timeout: 10000,
+		});
+
+		if (!oembedData?.title) {
+			throw new Error(`YouTube Music track ${videoId} not found`);
+		}
+
+		// Parse title and artist from the oEmbed response
+		const title = oembedData.title;
+		const author = oembedData.author_name || 'Unknown Artist';
+
+		return {
+			id: videoId,
+			...this.readVideoTitle(title, author),
+			channel: author,
+			url: `https://music.youtube.com/watch?v=${videoId}`,
+			thumbnail: oembedData.thumbnail_url,
+			images: [{ url: oembedData.thumbnail_url }],
+			external_urls: {
+				youtube: `https://music.youtube.com/watch?v=${videoId}`,
+			},
+			explicit: parseExplicitHint(title),
+		};
+	}
+
+	/**
+	 * Read every page of a playlist or album
+	 * @param playlistId - Playlist ID (PL..., or OLAK5uy_... for albums)
+	 * @returns Header of the first page, with the songs and unavailable rows of all pages
+	 * @throws Error if a page can't be fetched
+	 */
+	private async browseCollection(
+		playlistId: string,
+	): Promise<YouTubeMusicCollectionPage> {
+		const firstPage = parseCollectionPage(
+			await this.callInnertube('browse', { browseId: `VL${playlistId}` }),
+		);
+		const songs = [...firstPage.songs];
+		const unavailable = [...firstPage.unavailable];
+
+		let continuation = firstPage.continuation;
+		for (let page = 1; continuation && page < MAX_COLLECTION_PAGES; page++) {
+			const nextPage = parseCollectionPage(
+				await this.callInnertube('browse', { continuation }),
 			);
-			return {
-				id: videoId,
-				name: 'Track from YouTube Music',
-				artists: ['Unknown Artist'],
-				channel: 'Unknown Channel',
-				url: `https://music.youtube.com/watch?v=${videoId}`,
-				thumbnail: `https://i.ytimg.com/vi/${videoId}/maxresdefault.jpg`,
-				images: [
-					{ url: `https://i.ytimg.com/vi/${videoId}/maxresdefault.jpg` },
-				],
-				external_urls: {
-					youtube: `https://music.youtube.com/watch?v=${videoId}`,
-				},
-			};
+			songs.push(...nextPage.songs);
+			unavailable.push(...nextPage.unavailable);
+			continuation = nextPage.continuation;
+		}
+
+		return { header: firstPage.header, songs, unavailable };
+	}
+
+	/**
+	 * Get album information and tracklist by audio playlist ID
+	 * @param playlistId - The album's audio playlist ID (OLAK5uy_...)
+	 * @returns Album with its tracks in album order
+	 * @throws Error if the album is not found or fetch fails
+	 */
+	getAlbum(playlistId: string): Promise<YouTubeMusicAlbum> {
+		const cached = this.albums.get(playlistId);
+		if (cached) {
+			return cached;
 		}
+
+		const album = this.fetchAlbum(playlistId);
+		// Don't keep failures, so the album can be retried
+		album.catch(() => this.albums.delete(playlistId));
+		this.albums.set(playlistId, album);
+		return album;
 	}
 
 	/**
-	 * Generate YouTube Music results based on Spotify track information
-	 * Creates direct YouTube Music search URLs with optimized queries
+	 * Fetch an album and its tracklist
+	 * @param playlistId - The album's audio playlist ID (OLAK5uy_...)
+	 * @returns Album with its tracks in album order
+	 * @throws Error if the album is not found or fetch fails
+	 */
+	private async fetchAlbum(playlistId: string): Promise<YouTubeMusicAlbum> {
+		const { header, songs } = await this.browseCollection(playlistId);
+		if (!header || songs.length === 0) {
+			throw new Error(`YouTube Music album ${playlistId} not found`);
+		}
+
+		// Album rows leave out what the header already says
+		const tracks = songs.map((song) => ({
+			...this.toTrack({
+				...song,
+				artists: song.artists.length > 0 ? song.artists : header.artists,
+				album: song.album ?? header.title,
+				thumbnail: song.thumbnail ?? header.thumbnail,
+			}),
+			release_date: header.year,
+		}));
+		const url = `https://music.youtube.com/playlist?list=${playlistId}`;
+		const cover = header.thumbnail ?? tracks[0]?.thumbnail;
+
+		return {
+			id: playlistId,
+			name: header.title,
+			artists: header.artists,
+			tracks,
+			release_date: header.year,
+			total_tracks: tracks.length,
+			url,
+			images: cover ? [{ url: cover }] : [],
+			external_urls: { youtube: url },
+		};
+	}
+
+	/**
+	 * Get playlist information and all its songs by playlist ID
+	 *
+	 * Every video goes through the same title parsing as single videos.
+	 * Deleted, unavailable and non-music videos are listed in `skipped`
+	 * instead of `tracks`.
+	 *
+	 * @param playlistId - The playlist ID (PL...)
+	 * @returns Playlist with its songs in playlist order
+	 * @throws Error if the playlist is not found, private or fetch fails
+	 */
+	async getPlaylist(playlistId: string): Promise<YouTubeMusicPlaylist> {
+		const { header, songs, unavailable } =
+			await this.browseCollection(playlistId);
+		if (!header) {
+			throw new Error(`YouTube playlist ${playlistId} not found`);
+		}
+
+		const tracks: YouTubeMusicTrack[] = [];
+		const skipped: YouTubeMusicSkippedVideo[] = unavailable.map((title) => ({
+			title,
+			reason: DELETED_VIDEO_TITLE.test(title) ? 'deleted' : 'unavailable',
+		}));
+		for (const song of songs) {
+			const isLongUpload =
+				song.videoType !== 'audioTrack' &&
+				(song.durationMs ?? 0) > MAX_SONG_DURATION_MS;
+			if (song.videoType === 'podcastEpisode' || isLongUpload) {
+				skipped.push({
+					title: song.title,
+					reason: 'notMusic',
+					url: `https://music.youtube.com/watch?v=${song.videoId}`,
+				});
+				continue;
+			}
+			tracks.push(this.toVideoTrack(song));
+		}
+
+		const url = `https://music.youtube.com/playlist?list=${playlistId}`;
+		const cover = header.thumbnail ?? tracks[0]?.thumbnail;
+
+		return {
+			id: playlistId,
+			name: header.title,
+			owner: header.artists[0],
+			tracks,
+			skipped,
+			total_tracks: tracks.length + skipped.length,
+			url,
+			images: cover ? [{ url: cover }] : [],
+			external_urls: { youtube: url },
+		};
+	}
+
+	/**
+	 * Generate YouTube Music search links based on Spotify track information,
+	 * used when no song could be matched
 	 */
 	private searchYouTubeBasic(spotifyTrack: {
 		name: string;
@@ -115,8 +410,8 @@ class YouTubeMusicService {
 			images?.[0]?.url || 'https://i.ytimg.com/vi/default/mqdefault.jpg';
 
 		// Normalize track name and artist for better search results
-		const cleanTrackName = this.normalizeForSearch(name);
-		const cleanArtist = this.normalizeForSearch(artist);
+		const cleanTrackName = cleanForSearch(name);
+		const cleanArtist = cleanForSearch(artist);
 
 		const results: YouTubeMusicTrack[] = [];
 
@@ -137,6 +432,7 @@ class YouTubeMusicService {
 					youtube: `https://music.youtube.com/search?q=${primaryQuery}`,
 				},
 				isHighQuality: true,
+				isSearchLink: true,
 			});
 
 			// Alternative: Search with "official audio" for better match
@@ -155,6 +451,7 @@ class YouTubeMusicService {
 					youtube: `https://music.youtube.com/search?q=${officialQuery}`,
 				},
 				isHighQuality: true,
+				isSearchLink: true,
 			});
 
 			// Alternative: Try with YouTube main search (often has more results)
@@ -173,6 +470,7 @@ class YouTubeMusicService {
 					youtube: `https://www.youtube.com/results?search_query=${youtubeQuery}`,
 				},
 				isHighQuality: false, // Mark as explore-more since it uses main YouTube search
+				isSearchLink: true,
 			});
 		} else if (cleanTrackName) {
 			// Fallback: Track name only if artist is missing
@@ -189,6 +487,7 @@ class YouTubeMusicService {
 					youtube: `https://music.youtube.com/search?q=${fallbackQuery}`,
 				},
 				isHighQuality: false, // Mark as explore-more since artist is missing
+				isSearchLink: true,
 			});
 		}
 
@@ -196,22 +495,208 @@ class YouTubeMusicService {
 	}
 
 	/**
-	 * Generate YouTube Music search links for a track from another platform
+	 * Find YouTube Music matches for a track from another platform
 	 *
-	 * Creates multiple optimized search URLs to help users find the track on YouTube Music.
-	 * Since YouTube Music doesn't provide a public API, this method generates search links
-	 * with different query variations for better match results.
+	 * Searches songs through InnerTube and scores them with the same matcher
+	 * as Deezer. When the search fails or returns nothing, falls back to
+	 * generated search links.
 	 *
 	 * @param sourceTrack - The source track information with name, artists, and optional images
-	 * @returns Promise resolving to array of YouTube Music search track objects
+	 * @param options - Explicit/clean preference (default: the saved preference)
+	 * @returns Promise resolving to high-quality matches first, or explore-more matches
+	 */
+	async findTrackMatches(
+		sourceTrack: {
+			name: string;
+			artists: string[];
+			images?: Array<{ url: string }>;
+			duration?: number;
+			explicit?: boolean;
+			album?: string;
+			album_type?: AlbumType;
+			release_date?: string;
+		},
+		options: MatchOptions = {},
+	): Promise<YouTubeMusicTrack[]> {
+		const { explicitPreference = getExplicitPreference() } = options;
+		const query = [
+			cleanForSearch(sourceTrack.artists[0] || ''),
+			cleanForSearch(sourceTrack.name),
+		]
+			.filter(Boolean)
+			.join(' ');
+
+		let songs: YouTubeMusicSongItem[] = [];
+		try {
+			songs = query ? await this.searchSongs(query) : [];
+		} catch (error) {
+			console.warn('YouTube Music search failed, using search links:', error);
+		}
+		if (songs.length === 0) {
+			return this.searchYouTubeBasic(sourceTrack);
+		}
+
+		const { highQuality, exploreMore } = trackMatchingEngine.match(
+			{
+				title: sourceTrack.name,
+				artists: sourceTrack.artists,
+				durationMs: sourceTrack.duration,
+				explicit: sourceTrack.explicit,
+				album: sourceTrack.album,
+				albumType: sourceTrack.album_type,
+				releaseDate: sourceTrack.release_date,
+			},
+			songs.map((song, rank) => {
+				const track = this.toTrack(song);
+				return {
+					item: {
+						...track,
+						searchTrace: [{ strategy: 'stripped' as const, query, rank }],
+					},
+					track: {
+						title: track.name,
+						artists: track.artists,
+						album: track.album,
+						durationMs: track.duration,
+						explicit: track.explicit,
+					},
+				};
+			}),
+			{ explicitPreference },
+		);
+
+		const toMatch = (
+			match: ScoredMatch<YouTubeMusicTrack>,
+		): YouTubeMusicTrack => ({
+			...match.item,
+			isHighQuality: match.isHighQuality,
+			score: match.score,
+			scoreBreakdown: match.scoreBreakdown,
+			...(hasVersion(match.version) ? { version: match.version } : {}),
+		});
+
+		// Return high-quality matches first, then explore-more if no high-quality matches exist
+		if (highQuality.length > 0) {
+			return highQuality.slice(0, 5).map(toMatch);
+		}
+		return exploreMore.slice(0, 5).map(toMatch);
+	}
+
+	/**
+	 * Get artist information by channel ID, with the titles of its top songs
+	 * and albums
+	 * @param channelId - The artist's channel ID (UC...)
+	 * @returns Artist information
+	 * @throws Error if the artist is not found or fetch fails
+	 */
+	async getArtist(channelId: string): Promise<YouTubeMusicArtist> {
+		const page = parseArtistPage(
+			await this.callInnertube('browse', { browseId: channelId }),
+		);
+		if (!page) {
+			throw new Error(`YouTube Music artist ${channelId} not found`);
+		}
+
+		const url = `https://music.youtube.com/channel/${channelId}`;
+		return {
+			id: channelId,
+			name: page.name,
+			url,
+			images: page.thumbnail ? [{ url: page.thumbnail }] : [],
+			external_urls: { youtube: url },
+			topTracks: page.topTracks,
+			albums: page.albums,
+		};
+	}
+
+	/**
+	 * Find the artist page on YouTube Music for an artist from another platform
+	 *
+	 * Searches artists through InnerTube and reads the page of the first
+	 * results, so same-named artists are told apart by the songs and albums
+	 * they share with the source. Falls back to a search link.
+	 *
+	 * @param sourceArtist - The source artist, with its top tracks and albums when known
+	 * @returns Promise resolving to high-quality matches first, or explore-more matches
 	 */
-	findTrackMatches(sourceTrack: {
+	async findArtistMatches(sourceArtist: {
 		name: string;
-		artists: string[];
-		images?: Array<{ url: string }>;
-	}): Promise<YouTubeMusicTrack[]> {
-		// Generate YouTube Music results with clean, optimized queries
-		return this.searchYouTubeBasic(sourceTrack);
+		topTracks?: string[];
+		albums?: string[];
+	}): Promise<YouTubeMusicArtist[]> {
+		let items: YouTubeMusicArtistItem[] = [];
+		try {
+			const response = await this.callInnertube('search', {
+				query: sourceArtist.name,
+				params: ARTISTS_FILTER_PARAMS,
+			});
+			items = parseSearchArtists(response).slice(0, 5);
+		} catch (error) {
+			console.warn(
+				'YouTube Music artist search failed, using search link:',
+				error,
+			);
+		}
+		if (items.length === 0) {
+			const url = `https://music.youtube.com/search?q=${encodeURIComponent(sourceArtist.name)}`;
+			return [
+				{
+					id: `artist-search-${Date.now()}`,
+					name: sourceArtist.name,
+					url,
+					images: [],
+					external_urls: { youtube: url },
+					isHighQuality: false,
+					isSearchLink: true,
+				},
+			];
+		}
+
+		const candidates = await mapWithConcurrency(items, 3, (item) =>
+			this.getArtist(item.browseId).catch((error): YouTubeMusicArtist => {
+				console.warn(
+					`Failed to load YouTube Music artist ${item.browseId}:`,
+					error,
+				);
+				const url = `https://music.youtube.com/channel/${item.browseId}`;
+				return {
+					id: item.browseId,
+					name: item.name,
+					url,
+					images: item.thumbnail ? [{ url: item.thumbnail }] : [],
+					external_urls: { youtube: url },
+				};
+			}),
+		);
+
+		const { highQuality, exploreMore } = matchArtists(
+			{
+				name: sourceArtist.name,
+				topTracks: sourceArtist.topTracks ?? [],
+				albums: sourceArtist.albums ?? [],
+			},
+			candidates.map((artist) => ({
+				item: artist,
+				profile: {
+					name: artist.name,
+					topTracks: artist.topTracks ?? [],
+					albums: artist.albums ?? [],
+				},
+			})),
+		);
+
+		const toMatch = (
+			match: ScoredArtistMatch<YouTubeMusicArtist>,
+		): YouTubeMusicArtist => ({
+			...match.item,
+			isHighQuality: match.isHighQuality,
+			score: match.score,
+			scoreBreakdown: match.scoreBreakdown,
+		});
+
+		return highQuality.length > 0
+			? highQuality.slice(0, 5).map(toMatch)
+			: exploreMore.slice(0, 5).map(toMatch);
 	}
 
 	/**
@@ -224,15 +709,19 @@ class YouTubeMusicService {
 	 * @param sourceAlbum - The source album information with name, artists, and optional images
 	 * @returns Promise resolving to array of YouTube Music search track objects
 	 */
-	findAlbumMatches(sourceAlbum: SpotifyAlbum): Promise<YouTubeMusicTrack[]> {
+	findAlbumMatches(sourceAlbum: {
+		name: string;
+		artists: string[];
+		images?: Array<{ url: string }>;
+	}): Promise<YouTubeMusicTrack[]> {
 		const { name, artists, images } = sourceAlbum;
 		const artist = artists[0] || '';
 		const thumbnail =
 			images?.[0]?.url || 'https://i.ytimg.com/vi/default/mqdefault.jpg';
 
 		// Normalize album name and artist for better search results
-		const cleanAlbumName = this.normalizeForSearch(name);
-		const cleanArtist = this.normalizeForSearch(artist);
+		const cleanAlbumName = cleanForSearch(name);
+		const cleanArtist = cleanForSearch(artist);
 
 		const results: YouTubeMusicTrack[] = [];
 
@@ -253,6 +742,7 @@ class YouTubeMusicService {
 					youtube: `https://music.youtube.com/search?q=${primaryQuery}`,
 				},
 				isHighQuality: true,
+				isSearchLink: true,
 			});
 
 			// Alternative: Search for full album
@@ -271,6 +761,7 @@ class YouTubeMusicService {
 					youtube: `https://music.youtube.com/search?q=${fullAlbumQuery}`,
 				},
 				isHighQuality: true,
+				isSearchLink: true,
 			});
 		} else if (cleanAlbumName) {
 			// Fallback: Album name only if artist is missing
@@ -287,6 +778,7 @@ class YouTubeMusicService {
 					youtube: `https://music.youtube.com/search?q=${fallbackQuery}`,
 				},
 				isHighQuality: false, // Mark as explore-more since artist is missing
+				isSearchLink: true,
 			});
 		}
 
@@ -2,14 +2,60 @@
  * Converter component type definitions
  */
 
-import type { DeezerAlbum, DeezerTrack } from './deezer.types';
-import type { SpotifyAlbum, SpotifyTrack } from './spotify.types';
-import type { YouTubeMusicTrack } from './youtubeMusic.types';
+import type {
+	DeezerAlbum,
+	DeezerArtist,
+	DeezerPlaylist,
+	DeezerTrack,
+} from './deezer.types';
+import type {
+	SpotifyAlbum,
+	SpotifyArtist,
+	SpotifyPlaylist,
+	SpotifyTrack,
+} from './spotify.types';
+import type {
+	YouTubeMusicAlbum,
+	YouTubeMusicArtist,
+	YouTubeMusicPlaylist,
+	YouTubeMusicTrack,
+} from './youtubeMusic.types';
 
 export type PlatformType = 'spotify' | 'deezer' | 'youtubeMusic';
 
 export type SourceTrack = SpotifyTrack | DeezerTrack | YouTubeMusicTrack;
-export type SourceAlbum = SpotifyAlbum | DeezerAlbum;
+export type SourceAlbum = SpotifyAlbum | DeezerAlbum | YouTubeMusicAlbum;
+export type SourceArtist = SpotifyArtist | DeezerArtist | YouTubeMusicArtist;
+export type SourcePlaylist =
+	| SpotifyPlaylist
+	| DeezerPlaylist
+	| YouTubeMusicPlaylist;
+
+/**
+ * Matching state of one playlist entry:
+ * - pending: not matched yet
+ * - matched: every target platform has a high-quality match
+ * - partial: some target platforms only have weak or no matches
+ * - notFound: no target platform returned anything
+ * - error: matching failed for this entry
+ */
+export type PlaylistTrackStatus =
+	| 'pending'
+	| 'matched'
+	| 'partial'
+	| 'notFound'
+	| 'error';
+
+export interface PlaylistTrackResult {
+	/** Position in the source playlist (0-based) */
+	position: number;
+	source: SourceTrack;
+	status: PlaylistTrackStatus;
+	deezerMatch?: DeezerTrack;
+	spotifyMatch?: SpotifyTrack;
+	youtubeMatch?: YouTubeMusicTrack;
+	error?: string;
+}
 
 export interface ConversionResult {
 	source: SourceTrack | SourceAlbum;
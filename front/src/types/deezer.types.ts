@@ -2,6 +2,14 @@
  * Deezer API type definitions
  */
 
+import type {
+	AlbumType,
+	ScoreBreakdown,
+	SearchTraceEntry,
+	TracklistComparison,
+	TrackVersion,
+} from './matching.types';
+
 export interface DeezerTrack {
 	id: number;
 	title: string;
@@ -11,7 +19,26 @@ export interface DeezerTrack {
 	preview: string;
 	link: string;
 	cover: string;
+	isrc?: string;
+	albumId?: number;
+	/** Album artist, which may differ from the track artist ("Various Artists") */
+	albumArtist?: string;
+	albumType?: AlbumType;
+	/** Release date of the album (YYYY-MM-DD) */
+	releaseDate?: string;
+	/** Explicit lyrics flag; undefined when Deezer doesn't know */
+	explicit?: boolean;
 	isHighQuality?: boolean;
+	/** True when the match was resolved by ISRC rather than fuzzy search */
+	isExactMatch?: boolean;
+	/** Version parsed from the title (live, remix, remaster...) */
+	version?: TrackVersion;
+	/** Match confidence, when this track is a match for another platform's track */
+	score?: number;
+	/** Points contributed by each signal to `score` */
+	scoreBreakdown?: ScoreBreakdown;
+	/** Searches of the query ladder that returned this match */
+	searchTrace?: SearchTraceEntry[];
 }
 
 export interface DeezerApiTrack {
@@ -20,12 +47,27 @@ export interface DeezerApiTrack {
 	duration: number;
 	preview: string;
 	link: string;
+	isrc?: string;
+	explicit_lyrics?: boolean;
+	/**
+	 * Parental advisory of the lyrics: 0 not explicit, 1 explicit, 2 unknown,
+	 * 3 edited, 4 partially explicit, 5 partially unknown, 6 no advice
+	 * available, 7 partially no advice available
+	 */
+	explicit_content_lyrics?: number;
+	/** Only on `/track/{id}` */
+	release_date?: string;
+	/** False when the track can't be played (removed or region-locked) */
+	readable?: boolean;
 	artist: {
 		name: string;
 	};
 	album: {
+		id?: number;
 		title: string;
 		cover_medium: string;
+		/** Only on `/track/{id}` */
+		release_date?: string;
 	};
 }
 
@@ -47,6 +89,12 @@ export interface DeezerAlbum {
 	artists?: string[];
 	total_tracks?: number;
 	isHighQuality?: boolean;
+	/** Match confidence, when this album is a match for another platform's album */
+	score?: number;
+	/** Points contributed by each signal to `score` */
+	scoreBreakdown?: ScoreBreakdown;
+	/** Tracklist comparison with the source album, when both tracklists are known */
+	edition?: TracklistComparison;
 }
 
 export interface DeezerApiAlbum {
@@ -55,6 +103,9 @@ export interface DeezerApiAlbum {
 	link: string;
 	cover_medium: string;
 	nb_tracks?: number;
+	release_date?: string;
+	/** 'album', 'single', 'ep' or 'compile' */
+	record_type?: string;
 	artist: {
 		name: string;
 	};
@@ -63,6 +114,63 @@ export interface DeezerApiAlbum {
 	};
 }
 
+export interface DeezerPlaylist {
+	id: number;
+	name: string;
+	owner?: string;
+	description?: string;
+	/** Tracks in playlist order (unreadable tracks excluded) */
+	tracks: DeezerTrack[];
+	total_tracks: number;
+	link: string;
+	images: Array<{ url: string }>;
+}
+
+export interface DeezerApiPlaylist {
+	id: number;
+	title: string;
+	description?: string;
+	link: string;
+	picture_medium?: string;
+	nb_tracks?: number;
+	creator?: {
+		name: string;
+	};
+}
+
+export interface DeezerArtist {
+	id: number;
+	name: string;
+	link: string;
+	picture: string;
+	nb_album?: number;
+	nb_fan?: number;
+	/** Titles of the artist's most played tracks, when read */
+	topTracks?: string[];
+	/** Titles of the artist's albums and singles, when read */
+	albums?: string[];
+	isHighQuality?: boolean;
+	/** Match confidence (0-100), when this artist is a match for another platform's artist */
+	score?: number;
+	/** Points contributed by each signal to `score` */
+	scoreBreakdown?: ScoreBreakdown;
+}
+
+export interface DeezerApiArtist {
+	id: number;
+	name: string;
+	link: string;
+	picture_medium?: string;
+	nb_album?: number;
+	nb_fan?: number;
+}
+
+export interface DeezerApiArtistSearchResponse {
+	data: DeezerApiArtist[];
+	total?: number;
+	next?: string;
+}
+
 export interface DeezerApiSearchResponse {
 	data: DeezerApiAlbum[];
 	total?: number;
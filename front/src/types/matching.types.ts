@@ -0,0 +1,375 @@
+/**
+ * Track matching type definitions
+ */
+
+/**
+ * Version attributes parsed from a track title. A plain studio version has
+ * none of them set.
+ */
+export interface TrackVersion {
+	remix?: boolean;
+	/** Artist credited for the remix ("Calvin Harris Remix" → "Calvin Harris") */
+	remixer?: string;
+	live?: boolean;
+	acoustic?: boolean;
+	instrumental?: boolean;
+	remastered?: boolean;
+	remasterYear?: number;
+	radioEdit?: boolean;
+	extendedMix?: boolean;
+	spedUp?: boolean;
+}
+
+/**
+ * Normalized artist credits of a track, from its artist field(s) and the
+ * featured artists in its title
+ */
+export interface ArtistCredits {
+	/** First credited artist, normalized */
+	primary?: string;
+	/** Every credited artist, normalized and deduplicated, primary first */
+	all: string[];
+	/**
+	 * Same credits with names also split on commas, slashes and ampersands,
+	 * when that gives another set ("AC/DC" may be one act or two artists)
+	 */
+	split?: Omit<ArtistCredits, 'split'>;
+}
+
+/**
+ * Signals contributing to a match score
+ */
+export type MatchSignal =
+	| 'isrc'
+	| 'artist'
+	| 'title'
+	| 'duration'
+	| 'cover'
+	| 'version'
+	| 'explicit'
+	| 'album'
+	| 'releaseYear'
+	| 'compilation'
+	| 'tracklist'
+	| 'edition'
+	| 'topTracks'
+	| 'discography'
+	| 'searchRank';
+
+/**
+ * Points contributed by each signal; their sum is the match score. Signals
+ * that didn't apply are left out, penalties are negative.
+ */
+export type ScoreBreakdown = Partial<Record<MatchSignal, number>>;
+
+/**
+ * Search strategies of the query relaxation ladder, from most to least precise:
+ * - advanced: Deezer advanced syntax (`artist:"" track:"" dur_min/dur_max`)
+ * - strict: "artist title" free text with strict matching
+ * - relaxed: the same free text without strict matching
+ * - stripped: primary artist and title without featuring, version or bracketed tags
+ * - transliterated: the stripped query transliterated to Latin script
+ */
+export type QueryStrategy =
+	| 'advanced'
+	| 'strict'
+	| 'relaxed'
+	| 'stripped'
+	| 'transliterated';
+
+/**
+ * Options of the query relaxation ladder
+ */
+export interface QueryLadderOptions {
+	/** Strategies to run, in ladder order */
+	strategies?: QueryStrategy[];
+	/**
+	 * Number of queries sent at the same time (one rung of the ladder); they
+	 * still wait for the service's shared rate limiter
+	 */
+	concurrency?: number;
+	/** Results requested per query */
+	limit?: number;
+	/** Score from which a match is confident enough to stop climbing the ladder */
+	stopScore?: number;
+}
+
+/**
+ * One search that returned a match: which strategy, with which query, at which rank
+ */
+export interface SearchTraceEntry {
+	strategy: QueryStrategy;
+	query: string;
+	/** Position in that search's results (0-based) */
+	rank: number;
+}
+
+/**
+ * Kind of release an album is, as platforms report it
+ */
+export type AlbumType = 'album' | 'single' | 'ep' | 'compilation';
+
+/**
+ * Platform-independent description of a track (or album) given to the
+ * matching engine. Providers convert their own types to and from it.
+ */
+export interface CanonicalTrack {
+	title: string;
+	/** Credited artists, primary artist first */
+	artists: string[];
+	album?: string;
+	/** Album artist, which may differ from the track artists ("Various Artists") */
+	albumArtist?: string;
+	albumType?: AlbumType;
+	/** Release date of the album, as YYYY, YYYY-MM or YYYY-MM-DD */
+	releaseDate?: string;
+	durationMs?: number;
+	isrc?: string;
+	imageUrl?: string;
+	/** Explicit lyrics flag; undefined when the platform doesn't say */
+	explicit?: boolean;
+}
+
+/**
+ * Which version to favour when a track exists both explicit and clean:
+ * - source: the same as the source track
+ * - explicit: the explicit version
+ * - clean: the clean (edited) version
+ */
+export type ExplicitPreference = 'source' | 'explicit' | 'clean';
+
+/**
+ * Per-call options of the matching engine
+ */
+export interface MatchOptions {
+	/** Version to favour between explicit and clean (default: source) */
+	explicitPreference?: ExplicitPreference;
+}
+
+/**
+ * Edition keywords of an album title ("Deluxe Edition", "Remastered 2011"...)
+ */
+export type EditionKeyword =
+	| 'deluxe'
+	| 'expanded'
+	| 'anniversary'
+	| 'remastered'
+	| 'special'
+	| 'bonusTracks'
+	| 'live';
+
+/**
+ * How a candidate album relates to the source album, from their tracklists:
+ * - sameEdition: the same tracks, in the same order, with the same total duration
+ * - expandedEdition: every source track plus extra ones (deluxe, bonus tracks...)
+ * - differentRelease: source tracks are missing, or the recordings differ
+ */
+export type EditionMatch =
+	| 'sameEdition'
+	| 'expandedEdition'
+	| 'differentRelease';
+
+/**
+ * One track of an album tracklist
+ */
+export interface TracklistEntry {
+	title: string;
+	durationMs?: number;
+}
+
+/**
+ * Comparison of a candidate album's tracklist with the source album's
+ */
+export interface TracklistComparison {
+	edition: EditionMatch;
+	/** Source tracks not found on the candidate, as titled on the source */
+	missingTracks: string[];
+	/** Candidate tracks not found on the source, as titled on the candidate */
+	extraTracks: string[];
+	/** Share of tracks found in the same order on both sides (0-1) */
+	orderedOverlap: number;
+	/** Total duration of the candidate minus the source's, when both are known */
+	durationDiffSeconds?: number;
+}
+
+/**
+ * A candidate track as returned by a provider, with its canonical form
+ */
+export interface MatchCandidate<T> {
+	item: T;
+	track: CanonicalTrack;
+	/** Cover art similarity with the source (0-100), when it could be computed */
+	coverSimilarity?: number;
+	/** Tracklist comparison with the source album, when both tracklists are known */
+	tracklist?: TracklistComparison;
+}
+
+/**
+ * A canonical track with the parsed attributes signals compare
+ */
+export interface PreparedTrack extends CanonicalTrack {
+	/** Title without version suffix and featuring credits */
+	baseTitle: string;
+	version: TrackVersion;
+	credits: ArtistCredits;
+}
+
+/**
+ * String helpers used by the signals, replaceable per engine
+ */
+export interface MatchNormalizer {
+	normalize: (str: string) => string;
+	/** Similarity of two strings (0-100) */
+	similarity: (str1: string, str2: string) => number;
+}
+
+/**
+ * Tunable weights and thresholds of the matching signals
+ */
+export interface MatcherProfile {
+	name: string;
+	/** Score from which a candidate is a high-quality match */
+	threshold: number;
+	track: {
+		/** Weight of the artist set similarity (0-100) */
+		artistWeight: number;
+		/** Weight of the title similarity when both sides have artists */
+		titleWeight: number;
+		/** Multiplier of the title similarity when a title contains the other (title-only matching) */
+		partialTitleBoost: number;
+		/** Multiplier of the version agreement points */
+		versionWeight: number;
+	};
+	duration: {
+		/** Bonus when durations differ by less than `closeSeconds` */
+		closeSeconds: number;
+		closeBonus: number;
+		/** Bonus when durations differ by less than `nearSeconds` */
+		nearSeconds: number;
+		nearBonus: number;
+	};
+	cover: {
+		/** Bonus when cover similarity reaches `identicalScore` */
+		identicalScore: number;
+		identicalBonus: number;
+		/** Bonus when cover similarity reaches `similarScore` */
+		similarScore: number;
+		similarBonus: number;
+	};
+	album: {
+		artistWeight: number;
+		titleWeight: number;
+		/** Bonus when artist similarity is above `closeArtistSimilarity` */
+		closeArtistSimilarity: number;
+		closeArtistBonus: number;
+		/** Bonus when artist similarity is above `nearArtistSimilarity` */
+		nearArtistSimilarity: number;
+		nearArtistBonus: number;
+		/** Bonus when title similarity is above `closeTitleSimilarity` */
+		closeTitleSimilarity: number;
+		closeTitleBonus: number;
+	};
+	release: {
+		/** Bonus when album similarity is above `closeAlbumSimilarity` */
+		closeAlbumSimilarity: number;
+		closeAlbumBonus: number;
+		/** Bonus when album similarity is above `nearAlbumSimilarity` */
+		nearAlbumSimilarity: number;
+		nearAlbumBonus: number;
+		/** Bonus when both releases came out the same year */
+		sameYearBonus: number;
+		/** Bonus when the years differ by at most `nearYears` */
+		nearYears: number;
+		nearYearBonus: number;
+		/** Penalty when the candidate came out `distantYears` or more after the source */
+		distantYears: number;
+		distantYearPenalty: number;
+		/** Penalty for a compilation when the source comes from an original release */
+		compilationPenalty: number;
+	};
+	edition: {
+		/** Bonus for a candidate album with the same tracklist */
+		sameEditionBonus: number;
+		/** Bonus for a candidate album with every source track plus extra ones */
+		expandedEditionBonus: number;
+		/** Penalty for a different release, scaled by the share of tracks out of order or missing */
+		differentReleasePenalty: number;
+		/** Bonus when both album titles carry the same edition keywords */
+		keywordMatchBonus: number;
+		/** Penalty when their edition keywords differ */
+		keywordMismatchPenalty: number;
+	};
+	explicit: {
+		/** Bonus when both sides have the same explicit flag */
+		matchBonus: number;
+		/** Penalty when the flags differ */
+		mismatchPenalty: number;
+		/** Bonus for the version favoured by an explicit/clean preference */
+		preferredBonus: number;
+	};
+}
+
+/**
+ * What a signal sees when scoring one candidate
+ */
+export interface SignalContext {
+	source: PreparedTrack;
+	candidate: PreparedTrack;
+	coverSimilarity?: number;
+	tracklist?: TracklistComparison;
+	normalizer: MatchNormalizer;
+	profile: MatcherProfile;
+	explicitPreference: ExplicitPreference;
+}
+
+/**
+ * A pluggable scoring signal
+ */
+export interface MatchSignalScorer {
+	signal: MatchSignal;
+	/** Points for this candidate, or undefined when the signal doesn't apply */
+	score: (context: SignalContext) => number | undefined;
+}
+
+/**
+ * A candidate with its score
+ */
+export interface ScoredMatch<T> {
+	item: T;
+	score: number;
+	scoreBreakdown: ScoreBreakdown;
+	isHighQuality: boolean;
+	/** Version parsed from the candidate title */
+	version: TrackVersion;
+}
+
+/**
+ * Scored candidates split by the engine threshold, highest score first
+ */
+export interface MatchingResults<T> {
+	highQuality: ScoredMatch<T>[];
+	exploreMore: ScoredMatch<T>[];
+}
+
+/**
+ * What an artist page says about the artist, compared across platforms to
+ * tell same-named artists apart
+ */
+export interface ArtistProfile {
+	name: string;
+	/** Titles of the artist's most played tracks */
+	topTracks: string[];
+	/** Titles of the artist's albums and singles */
+	albums: string[];
+}
+
+/**
+ * Scored artist candidate
+ */
+export interface ScoredArtistMatch<T> {
+	item: T;
+	/** Confidence from 0 to 100 */
+	score: number;
+	scoreBreakdown: ScoreBreakdown;
+	isHighQuality: boolean;
+}
@@ -2,6 +2,13 @@
  * Spotify API type definitions
  */
 
+import type {
+	AlbumType,
+	ScoreBreakdown,
+	SearchTraceEntry,
+	TrackVersion,
+} from './matching.types';
+
 export interface SpotifyImage {
 	url: string;
 	height?: number;
@@ -17,10 +24,24 @@ export interface SpotifyTrack {
 	name: string;
 	artists: string[];
 	album: string;
+	album_type?: AlbumType;
 	duration?: number;
+	release_date?: string;
+	isrc?: string;
+	explicit?: boolean;
 	external_urls: SpotifyExternalUrls;
 	images: SpotifyImage[];
 	isHighQuality?: boolean;
+	/** True for generated search links, which stand in for track pages */
+	isSearchLink?: boolean;
+	/** Version parsed from the title (live, remix, remaster...) */
+	version?: TrackVersion;
+	/** Match confidence, when this track is a match for another platform's track */
+	score?: number;
+	/** Points contributed by each signal to `score` */
+	scoreBreakdown?: ScoreBreakdown;
+	/** Search that returned this match */
+	searchTrace?: SearchTraceEntry[];
 }
 
 export interface SpotifyAlbum {
@@ -33,6 +54,24 @@ export interface SpotifyAlbum {
 	external_urls: SpotifyExternalUrls;
 	images: SpotifyImage[];
 	isHighQuality?: boolean;
+	/** True for generated search links, which stand in for album pages */
+	isSearchLink?: boolean;
+}
+
+export interface SpotifyArtist {
+	id: string;
+	name: string;
+	external_urls: SpotifyExternalUrls;
+	images: SpotifyImage[];
+	/** Titles of the artist's most played tracks, when read */
+	topTracks?: string[];
+	isHighQuality?: boolean;
+	/** True for generated search links, which stand in for artist pages */
+	isSearchLink?: boolean;
+	/** Match confidence (0-100), when this artist is a match for another platform's artist */
+	score?: number;
+	/** Points contributed by each signal to `score` */
+	scoreBreakdown?: ScoreBreakdown;
 }
 
 export interface SpotifyOEmbedResponse {
@@ -40,3 +79,121 @@ export interface SpotifyOEmbedResponse {
 	thumbnail_url?: string;
 	html?: string;
 }
+
+/**
+ * Track metadata scraped from public Spotify pages (track page or embed player)
+ */
+export interface SpotifyPageMetadata {
+	name?: string;
+	artists: string[];
+	album?: string;
+	albumType?: AlbumType;
+	/** Duration in milliseconds */
+	durationMs?: number;
+	/** Release date as YYYY, YYYY-MM or YYYY-MM-DD */
+	releaseDate?: string;
+	isrc?: string;
+	imageUrl?: string;
+	explicit?: boolean;
+}
+
+/**
+ * A track entry listed on a public Spotify album or playlist page
+ */
+export interface SpotifyPageTrack {
+	id: string;
+	name: string;
+	artists: string[];
+	album?: string;
+	/** Duration in milliseconds */
+	durationMs?: number;
+	explicit?: boolean;
+}
+
+/**
+ * Album or playlist data scraped from public Spotify pages
+ */
+export interface SpotifyPageCollection {
+	name?: string;
+	artists: string[];
+	/** Playlist owner display name */
+	owner?: string;
+	releaseDate?: string;
+	imageUrl?: string;
+	/** Total number of tracks announced by the page, when known */
+	totalTracks?: number;
+	/** Tracks in page order */
+	tracks: SpotifyPageTrack[];
+	/** Anonymous Web API token embedded in the player, if any */
+	accessToken?: string;
+}
+
+export interface SpotifyPlaylist {
+	id: string;
+	name: string;
+	owner?: string;
+	description?: string;
+	/** Tracks in playlist order (local files and unavailable items excluded) */
+	tracks: SpotifyTrack[];
+	total_tracks: number;
+	external_urls: SpotifyExternalUrls;
+	images: SpotifyImage[];
+}
+
+/**
+ * Track object returned by the Spotify Web API
+ */
+export interface SpotifyApiTrack {
+	id: string | null;
+	name: string;
+	duration_ms: number;
+	explicit?: boolean;
+	is_local?: boolean;
+	artists: Array<{ name: string }>;
+	album?: {
+		name: string;
+		album_type?: string;
+		release_date?: string;
+		images?: SpotifyImage[];
+	};
+	external_ids?: {
+		isrc?: string;
+	};
+}
+
+/**
+ * Page of `GET /v1/playlists/{id}/tracks`
+ */
+export interface SpotifyApiPlaylistTracksPage {
+	items: Array<{ track: SpotifyApiTrack | null }>;
+	total: number;
+	offset: number;
+	next: string | null;
+}
+
+/**
+ * Artist object returned by the Spotify Web API search
+ */
+export interface SpotifyApiArtist {
+	id: string;
+	name: string;
+	images?: SpotifyImage[];
+}
+
+/**
+ * Response of `GET /v1/search?type=artist`
+ */
+export interface SpotifyApiArtistSearch {
+	artists: {
+		items: SpotifyApiArtist[];
+	};
+}
+
+/**
+ * Response of `GET /v1/search?type=track`
+ */
+export interface SpotifyApiTrackSearch {
+	tracks: {
+		items: SpotifyApiTrack[];
+	};
+}
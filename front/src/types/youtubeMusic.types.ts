@@ -2,6 +2,12 @@
  * YouTube Music API type definitions
  */
 
+import type {
+	ScoreBreakdown,
+	SearchTraceEntry,
+	TrackVersion,
+} from './matching.types';
+
 export interface YouTubeMusicOEmbedResponse {
 	title: string;
 	author_name: string;
@@ -27,5 +33,179 @@ export interface YouTubeMusicTrack {
 	thumbnail: string;
 	images: Array<{ url: string }>;
 	external_urls: { youtube: string };
+	/** Album name, when YouTube Music lists the song under one */
+	album?: string;
+	/** Release year of the album (YYYY), when known */
+	release_date?: string;
+	/** Duration in milliseconds, when known */
+	duration?: number;
+	/** Kind of video: official audio track, music video or user upload */
+	videoType?: YouTubeMusicVideoType;
+	/** Explicit or clean version, from the explicit badge or the title */
+	explicit?: boolean;
+	isHighQuality?: boolean;
+	/** True for generated search links, which stand in when no song was found */
+	isSearchLink?: boolean;
+	/** Version parsed from the title (live, remix, remaster...) */
+	version?: TrackVersion;
+	/** Match confidence, when this track is a match for another platform's track */
+	score?: number;
+	/** Points contributed by each signal to `score` */
+	scoreBreakdown?: ScoreBreakdown;
+	/** Search that returned this match */
+	searchTrace?: SearchTraceEntry[];
+}
+
+export interface YouTubeMusicAlbum {
+	/** Audio playlist ID of the album (OLAK5uy_...) */
+	id: string;
+	name: string;
+	artists: string[];
+	tracks: YouTubeMusicTrack[];
+	/** Release year (YYYY), when known */
+	release_date?: string;
+	total_tracks: number;
+	url: string;
+	images: Array<{ url: string }>;
+	external_urls: { youtube: string };
+}
+
+export interface YouTubeMusicArtist {
+	/** Channel ID of the artist (UC...) */
+	id: string;
+	name: string;
+	url: string;
+	images: Array<{ url: string }>;
+	external_urls: { youtube: string };
+	/** Titles of the artist's most played songs, when read */
+	topTracks?: string[];
+	/** Titles of the artist's albums and singles, when read */
+	albums?: string[];
 	isHighQuality?: boolean;
+	/** True for generated search links, which stand in when no artist was found */
+	isSearchLink?: boolean;
+	/** Match confidence (0-100), when this artist is a match for another platform's artist */
+	score?: number;
+	/** Points contributed by each signal to `score` */
+	scoreBreakdown?: ScoreBreakdown;
+}
+
+/**
+ * Artist row of an InnerTube search response
+ */
+export interface YouTubeMusicArtistItem {
+	/** Channel ID of the artist (UC...) */
+	browseId: string;
+	name: string;
+	thumbnail?: string;
+}
+
+/**
+ * Artist page of InnerTube (`browse` response of a channel ID)
+ */
+export interface YouTubeMusicArtistPage {
+	name: string;
+	thumbnail?: string;
+	/** Titles of the "Top songs" shelf */
+	topTracks: string[];
+	/** Titles of the album and single carousels */
+	albums: string[];
+}
+
+/**
+ * Why a playlist entry was left out of the conversion:
+ * - deleted: the video was deleted
+ * - unavailable: the video is private or blocked
+ * - notMusic: the video isn't a song (podcast episode, long upload)
+ */
+export type YouTubeMusicSkipReason = 'deleted' | 'unavailable' | 'notMusic';
+
+export interface YouTubeMusicSkippedVideo {
+	title: string;
+	reason: YouTubeMusicSkipReason;
+	/** Link to the video, when it still has one */
+	url?: string;
+}
+
+export interface YouTubeMusicPlaylist {
+	/** Playlist ID (PL...) */
+	id: string;
+	name: string;
+	owner?: string;
+	/** Songs in playlist order, with artist and title read from video titles */
+	tracks: YouTubeMusicTrack[];
+	/** Entries left out of `tracks`, in playlist order */
+	skipped: YouTubeMusicSkippedVideo[];
+	total_tracks: number;
+	url: string;
+	images: Array<{ url: string }>;
+	external_urls: { youtube: string };
+}
+
+/**
+ * Header of an InnerTube playlist or album page
+ */
+export interface YouTubeMusicCollectionHeader {
+	title: string;
+	/** Album artists, or the playlist author */
+	artists: string[];
+	year?: string;
+	thumbnail?: string;
+}
+
+/**
+ * One page of an InnerTube playlist or album (`browse` response or continuation)
+ */
+export interface YouTubeMusicCollectionPage {
+	/** Only present on the first page */
+	header?: YouTubeMusicCollectionHeader;
+	songs: YouTubeMusicSongItem[];
+	/** Titles of rows that can't be played (deleted, private or blocked videos) */
+	unavailable: string[];
+	/** Token of the next page, when there is one */
+	continuation?: string;
+}
+
+/**
+ * Kind of a YouTube Music video, from InnerTube's `musicVideoType`:
+ * - audioTrack: official audio track of a release (ATV), as on "Topic" channels
+ * - musicVideo: official music video (OMV)
+ * - userUpload: any other upload (UGC), including re-uploads and covers
+ * - podcastEpisode: episode of a podcast
+ */
+export type YouTubeMusicVideoType =
+	| 'audioTrack'
+	| 'musicVideo'
+	| 'userUpload'
+	| 'podcastEpisode';
+
+/**
+ * Song row of an InnerTube response (`musicResponsiveListItemRenderer`)
+ */
+export interface YouTubeMusicSongItem {
+	videoId: string;
+	title: string;
+	artists: string[];
+	album?: string;
+	/** Browse ID of the album (MPREb_...), when linked */
+	albumBrowseId?: string;
+	durationMs?: number;
+	thumbnail?: string;
+	/** True when the row carries the explicit badge */
+	explicit?: boolean;
+	videoType?: YouTubeMusicVideoType;
+	/** Release year of the album, when listed */
+	year?: string;
+}
+
+/**
+ * Client context sent with every InnerTube request
+ */
+export interface InnertubeContext {
+	client: {
+		clientName: string;
+		clientVersion: string;
+		hl: string;
+		gl: string;
+	};
 }
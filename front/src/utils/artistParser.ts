@@ -0,0 +1,221 @@
+import type { ArtistCredits } from '../types/matching.types';
+import { calculateSimilarity, foldText } from './textNormalization';
+
+/**
+ * Artist credit parsing for collaborations ("A feat. B", "A x B", "A, B & C")
+ *
+ * Platforms disagree on where featured artists go: Spotify lists them in the
+ * artist field, Deezer search results only carry the main artist and leave the
+ * rest in the title. Both sides are reduced to the same normalized set so they
+ * can be compared.
+ *
+ * Explicit credit markers always split a credit, and the list that follows
+ * them is split on commas and ampersands too ("A feat. B, C & D"). Before any
+ * marker, commas, slashes and ampersands may be part of a single act name
+ * ("AC/DC", "Simon & Garfunkel", "Earth, Wind & Fire"), so splitting there
+ * only gives an alternative reading.
+ */
+
+/** Explicit credit markers between artists inside a single credit string */
+const ARTIST_SEPARATOR = /\s+(?:x|×|vs\.?|feat\.?|ft\.?|featuring|with)\s+/i;
+
+/** Separators that may join several artists or belong to one act name */
+const AMBIGUOUS_ARTIST_SEPARATOR = /\s*(?:,|;|\/|&|＆|、)\s*/;
+
+/** Featuring fragment in a title, bracketed or not ("Song (feat. B)", "Song ft. B") */
+const TITLE_FEATURING =
+	/[([（［]\s*(?:feat\.?|ft\.?|featuring|with)\s+([^)\]）］]+)[)\]）］]|\s+(?:feat\.?|ft\.?|featuring)\s+(.+)$/gi;
+
+/** Similarity from which two names are considered the same artist */
+const SAME_ARTIST_THRESHOLD = 80;
+
+/** Weight of a score that relies on split names: the whole name reads first */
+const SPLIT_READING_WEIGHT = 0.9;
+
+/**
+ * Split an artist credit into individual names on explicit credit markers,
+ * and the names listed after a marker on every separator
+ * @param credit - Artist credit ("A feat. B", "A x B", "A feat. B, C & D"...)
+ * @returns Individual artist names, as written (a leading "Simon & Garfunkel" stays whole)
+ */
+export function splitArtistCredit(credit: string): string[] {
+	if (!credit || typeof credit !== 'string') {
+		return [];
+	}
+	const [main = '', ...listed] = credit.split(ARTIST_SEPARATOR);
+	return [main, ...listed.flatMap(splitAmbiguousCredit)]
+		.map((name) => name.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Split a name on the separators that may join several artists
+ * @param name - Artist name or credit ("Calvin Harris, Dua Lipa", "AC/DC")
+ * @returns Parts of the name, as written; the name itself when it has no separator
+ */
+export function splitAmbiguousCredit(name: string): string[] {
+	if (!name || typeof name !== 'string') {
+		return [];
+	}
+	return name
+		.split(AMBIGUOUS_ARTIST_SEPARATOR)
+		.map((part) => part.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Normalize and deduplicate artist names, keeping their order
+ */
+function toArtistSet(names: string[]): string[] {
+	const all: string[] = [];
+	for (const name of names) {
+		const normalized = foldText(name);
+		if (normalized && !all.includes(normalized)) {
+			all.push(normalized);
+		}
+	}
+	return all;
+}
+
+/**
+ * Read featured artists from a track title
+ * @param title - Track title ("Song (feat. B & C)")
+ * @returns Featured artist names, as written
+ */
+export function readFeaturedArtists(title: string): string[] {
+	if (!title || typeof title !== 'string') {
+		return [];
+	}
+
+	// Whatever follows "feat." is a list of artists ("feat. B, C & D")
+	const featured: string[] = [];
+	for (const match of title.matchAll(TITLE_FEATURING)) {
+		featured.push(
+			...splitArtistCredit(match[1] ?? match[2] ?? '').flatMap(
+				splitAmbiguousCredit,
+			),
+		);
+	}
+	return featured;
+}
+
+/**
+ * Remove featuring fragments from a title ("Song (feat. B)" → "Song")
+ * @param title - Track title
+ * @returns Title without featured artists
+ */
+export function stripFeaturing(title: string): string {
+	if (!title || typeof title !== 'string') {
+		return '';
+	}
+	return title
+		.replace(TITLE_FEATURING, '')
+		.replace(/\s{2,}/g, ' ')
+		.trim();
+}
+
+/**
+ * Build the normalized artist set of a track
+ * @param artists - Artist field(s) of the track; the first one is the primary artist
+ * @param title - Track title, read for "feat./ft./with" credits
+ * @returns Primary artist and the deduplicated set of every credited artist,
+ * with the reading that also splits on commas, slashes and ampersands
+ */
+export function parseArtistCredits(
+	artists: string[],
+	title?: string,
+): ArtistCredits {
+	const names = [
+		...artists.flatMap(splitArtistCredit),
+		...(title ? readFeaturedArtists(title) : []),
+	];
+
+	const all = toArtistSet(names);
+	const splitAll = toArtistSet(names.flatMap(splitAmbiguousCredit));
+	const credits: ArtistCredits = { primary: all[0], all };
+	if (splitAll.join('|') !== all.join('|')) {
+		credits.split = { primary: splitAll[0], all: splitAll };
+	}
+	return credits;
+}
+
+/**
+ * Compare two artist sets
+ *
+ * The primary artist carries most of the weight (and counts fully only when it
+ * is also the candidate's primary artist); the rest rewards the share of
+ * artists credited on both sides. Names that may hold several artists are
+ * also compared split, at a slightly lower weight than the whole names.
+ *
+ * @param source - Artist credits of the source track
+ * @param candidate - Artist credits of the candidate track
+ * @param similarity - Name similarity (0-100), Levenshtein-based by default
+ * @returns Similarity score (0-100)
+ */
+export function scoreArtistCredits(
+	source: ArtistCredits,
+	candidate: ArtistCredits,
+	similarity: (name1: string, name2: string) => number = calculateSimilarity,
+): number {
+	const sourceReadings = source.split ? [source, source.split] : [source];
+	const candidateReadings = candidate.split
+		? [candidate, candidate.split]
+		: [candidate];
+
+	let best = 0;
+	for (const sourceReading of sourceReadings) {
+		for (const candidateReading of candidateReadings) {
+			const score = scoreArtistSets(
+				sourceReading,
+				candidateReading,
+				similarity,
+			);
+			const isWhole =
+				sourceReading === source && candidateReading === candidate;
+			best = Math.max(
+				best,
+				isWhole ? score : Math.round(score * SPLIT_READING_WEIGHT),
+			);
+		}
+	}
+	return best;
+}
+
+/**
+ * Compare one reading of each artist set
+ */
+function scoreArtistSets(
+	source: ArtistCredits,
+	candidate: ArtistCredits,
+	similarity: (name1: string, name2: string) => number,
+): number {
+	if (!source.primary || !candidate.primary) {
+		return 0;
+	}
+
+	let primaryScore = 0;
+	candidate.all.forEach((name, index) => {
+		const nameSimilarity = similarity(source.primary ?? '', name);
+		// A primary artist that is only featured on the candidate is a weaker sign
+		primaryScore = Math.max(
+			primaryScore,
+			index === 0 ? nameSimilarity : nameSimilarity * 0.85,
+		);
+	});
+
+	const unmatched = [...candidate.all];
+	let shared = 0;
+	for (const name of source.all) {
+		const index = unmatched.findIndex(
+			(other) => similarity(name, other) >= SAME_ARTIST_THRESHOLD,
+		);
+		if (index !== -1) {
+			unmatched.splice(index, 1);
+			shared++;
+		}
+	}
+	const union = source.all.length + candidate.all.length - shared;
+	const overlap = union > 0 ? shared / union : 0;
+
+	return Math.round(primaryScore * 0.7 + overlap * 30);
+}
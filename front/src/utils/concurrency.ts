@@ -0,0 +1,75 @@
+/** Number of tracks of a playlist or album matched at the same time */
+export const TRACK_MATCH_CONCURRENCY = 3;
+
+/**
+ * Map over items with a bounded number of promises in flight
+ *
+ * Used for per-track matching of long playlists and albums, where firing every
+ * search at once would exceed the public APIs' rate limits.
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of workers running at the same time
+ * @param worker - Async function called for each item with its index
+ * @returns Results in the same order as the input items
+ */
+export async function mapWithConcurrency<T, R>(
+	items: readonly T[],
+	limit: number,
+	worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let nextIndex = 0;
+
+	const runWorker = async (): Promise<void> => {
+		while (nextIndex < items.length) {
+			const index = nextIndex++;
+			results[index] = await worker(items[index] as T, index);
+		}
+	};
+
+	const workerCount = Math.max(1, Math.min(limit, items.length));
+	await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+	return results;
+}
+
+/**
+ * Create a limiter keeping requests within a rate quota
+ *
+ * Requests start in call order, at most `maxRequests` within any sliding window
+ * of `intervalMs`; the others wait for a slot. Share one limiter between every
+ * caller of the same API so parallel searches can't exceed its quota together.
+ *
+ * @param maxRequests - Requests allowed within one window
+ * @param intervalMs - Window length in milliseconds
+ * @returns Function running a task once a slot is free
+ */
+export function createRateLimiter(
+	maxRequests: number,
+	intervalMs: number,
+): <T>(task: () => Promise<T>) => Promise<T> {
+	const startTimes: number[] = [];
+	let queue: Promise<void> = Promise.resolve();
+
+	const waitForSlot = async (): Promise<void> => {
+		const now = Date.now();
+		while (startTimes.length > 0 && now - (startTimes[0] ?? 0) >= intervalMs) {
+			startTimes.shift();
+		}
+		if (startTimes.length < maxRequests) {
+			startTimes.push(now);
+			return;
+		}
+
+		await new Promise((resolve) =>
+			setTimeout(resolve, intervalMs - (now - (startTimes[0] ?? 0))),
+		);
+		return waitForSlot();
+	};
+
+	return <T>(task: () => Promise<T>): Promise<T> => {
+		const slot = queue.then(waitForSlot);
+		queue = slot;
+		return slot.then(task);
+	};
+}
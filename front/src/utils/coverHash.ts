@@ -0,0 +1,129 @@
+/**
+ * Perceptual hashing of cover art (dHash)
+ *
+ * Pure functions over raw RGBA pixels, with no DOM or native dependency, so the
+ * same code hashes covers decoded by a browser canvas, by the backend, or by the
+ * fixture checks from local files.
+ */
+
+/**
+ * Decoded image as RGBA bytes, row by row (the layout of canvas `ImageData`)
+ */
+export interface RgbaImage {
+	width: number;
+	height: number;
+	data: ArrayLike<number>;
+}
+
+/** dHash grid: 9 columns give 8 horizontal differences per row, 64 bits total */
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+const HASH_BITS = (HASH_COLUMNS - 1) * HASH_ROWS;
+
+/**
+ * Downscale an image to a grayscale grid by averaging each cell's pixels
+ * @param image - Source RGBA image
+ * @param columns - Grid width
+ * @param rows - Grid height
+ * @returns Luminance values (0-255), row by row
+ */
+export function toGrayscaleGrid(
+	image: RgbaImage,
+	columns: number,
+	rows: number,
+): number[] {
+	const { width, height, data } = image;
+	if (width <= 0 || height <= 0 || data.length < width * height * 4) {
+		throw new Error('Invalid image data');
+	}
+
+	const grid: number[] = [];
+	for (let row = 0; row < rows; row++) {
+		const top = Math.floor((row * height) / rows);
+		const bottom = Math.max(top + 1, Math.floor(((row + 1) * height) / rows));
+
+		for (let column = 0; column < columns; column++) {
+			const left = Math.floor((column * width) / columns);
+			const right = Math.max(
+				left + 1,
+				Math.floor(((column + 1) * width) / columns),
+			);
+
+			let sum = 0;
+			for (let y = top; y < bottom; y++) {
+				for (let x = left; x < right; x++) {
+					const offset = (y * width + x) * 4;
+					// ITU-R BT.601 luma
+					sum +=
+						(data[offset] ?? 0) * 0.299 +
+						(data[offset + 1] ?? 0) * 0.587 +
+						(data[offset + 2] ?? 0) * 0.114;
+				}
+			}
+			grid.push(sum / ((bottom - top) * (right - left)));
+		}
+	}
+	return grid;
+}
+
+/**
+ * Compute the 64-bit difference hash of an image
+ * @param image - Decoded RGBA image (any size)
+ * @returns Hash as a 16-character hex string
+ */
+export function computeDHash(image: RgbaImage): string {
+	const grid = toGrayscaleGrid(image, HASH_COLUMNS, HASH_ROWS);
+
+	let hash = '';
+	let nibble = 0;
+	let bitCount = 0;
+	for (let row = 0; row < HASH_ROWS; row++) {
+		for (let column = 0; column < HASH_COLUMNS - 1; column++) {
+			const left = grid[row * HASH_COLUMNS + column] ?? 0;
+			const right = grid[row * HASH_COLUMNS + column + 1] ?? 0;
+			nibble = (nibble << 1) | (left > right ? 1 : 0);
+			bitCount++;
+
+			if (bitCount % 4 === 0) {
+				hash += nibble.toString(16);
+				nibble = 0;
+			}
+		}
+	}
+	return hash;
+}
+
+/**
+ * Count the differing bits of two hashes
+ * @param hash1 - First hex hash
+ * @param hash2 - Second hex hash
+ * @returns Number of differing bits
+ * @throws Error if the hashes don't have the same length
+ */
+export function hammingDistance(hash1: string, hash2: string): number {
+	if (hash1.length !== hash2.length) {
+		throw new Error('Cannot compare hashes of different lengths');
+	}
+
+	let distance = 0;
+	for (let i = 0; i < hash1.length; i++) {
+		let diff =
+			Number.parseInt(hash1.charAt(i), 16) ^
+			Number.parseInt(hash2.charAt(i), 16);
+		while (diff) {
+			distance += diff & 1;
+			diff >>= 1;
+		}
+	}
+	return distance;
+}
+
+/**
+ * Similarity of two cover hashes
+ * @param hash1 - First dHash
+ * @param hash2 - Second dHash
+ * @returns Similarity score (0-100, where 100 is the same artwork)
+ */
+export function compareCoverHashes(hash1: string, hash2: string): number {
+	return Math.round((1 - hammingDistance(hash1, hash2) / HASH_BITS) * 100);
+}
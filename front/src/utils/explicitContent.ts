@@ -0,0 +1,66 @@
+import type { ExplicitPreference } from '../types/matching.types';
+import { foldText, getTitleFragments } from './textNormalization';
+
+/**
+ * Explicit / clean version detection and the user's preference between them
+ *
+ * Deezer and Spotify flag explicit tracks in their metadata. YouTube has no
+ * such flag, but uploads often say it in the title ("Song (Explicit)",
+ * "Song [Clean Version]").
+ */
+
+/**
+ * Hints must be the whole fragment, so "Rockabye - Clean Bandit" or
+ * "(Dirty Computer)" don't count
+ */
+const EXPLICIT_HINT =
+	/^(explicit|uncensored|dirty)( (version|lyrics|audio|album version))?$/;
+const CLEAN_HINT =
+	/^(clean|censored|edited)( (version|lyrics|audio|edit|album version))?$/;
+
+const PREFERENCE_STORAGE_KEY = 'explicitPreference';
+const PREFERENCES: ExplicitPreference[] = ['source', 'explicit', 'clean'];
+
+/**
+ * Read an explicit or clean hint from a title
+ * @param title - Track or video title
+ * @returns True for an explicit hint, false for a clean one, undefined when the title says nothing
+ */
+export function parseExplicitHint(title: string): boolean | undefined {
+	if (!title || typeof title !== 'string') {
+		return undefined;
+	}
+
+	for (const rawFragment of getTitleFragments(title)) {
+		const fragment = foldText(rawFragment);
+		if (EXPLICIT_HINT.test(fragment)) return true;
+		if (CLEAN_HINT.test(fragment)) return false;
+	}
+	return undefined;
+}
+
+/**
+ * Read the saved explicit/clean preference
+ * @returns Saved preference, or 'source' when none was saved
+ */
+export function getExplicitPreference(): ExplicitPreference {
+	try {
+		const saved = globalThis.localStorage?.getItem(PREFERENCE_STORAGE_KEY);
+		return PREFERENCES.find((preference) => preference === saved) ?? 'source';
+	} catch {
+		// Storage can be unavailable (private browsing, scripts run by Node)
+		return 'source';
+	}
+}
+
+/**
+ * Save the explicit/clean preference
+ * @param preference - Version to favour
+ */
+export function setExplicitPreference(preference: ExplicitPreference): void {
+	try {
+		globalThis.localStorage?.setItem(PREFERENCE_STORAGE_KEY, preference);
+	} catch {
+		// Not persisted; matching falls back to the default preference
+	}
+}
@@ -0,0 +1,41 @@
+import kuromoji from 'kuromoji';
+import type { ReadingProvider } from './transliteration';
+
+/**
+ * Kanji readings from the kuromoji morphological analyzer (IPADIC dictionary)
+ *
+ * The analyzer splits a run of Japanese text into words and gives the
+ * dictionary reading of each one ("千本桜" → "センボンザクラ"). Coined readings
+ * of song titles and artist names ("紅蓮華" read "ぐれんげ") are not in the
+ * dictionary and get its usual reading instead.
+ */
+
+/**
+ * Load the analyzer dictionary and build a reading provider
+ * @param dicPath - Directory (or URL path) holding kuromoji's dictionary files
+ * @returns Reading provider for setReadingProvider
+ */
+export function createKanjiReadingProvider(
+	dicPath: string,
+): Promise<ReadingProvider> {
+	return new Promise((resolve, reject) => {
+		kuromoji.builder({ dicPath }).build((error, tokenizer) => {
+			if (error) {
+				reject(error);
+				return;
+			}
+
+			resolve((text) =>
+				tokenizer
+					.tokenize(text)
+					// Unknown words have no reading and are kept as written
+					.map((token) =>
+						token.reading && token.reading !== '*'
+							? token.reading
+							: token.surface_form,
+					)
+					.join(''),
+			);
+		});
+	});
+}
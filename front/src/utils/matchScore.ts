@@ -0,0 +1,113 @@
+import type {
+	QueryStrategy,
+	ScoreBreakdown,
+	SearchTraceEntry,
+} from '../types/matching.types';
+
+/**
+ * Total score of a breakdown
+ * @param breakdown - Points contributed by each signal
+ * @returns Sum of every signal's points
+ */
+export function sumBreakdown(breakdown: ScoreBreakdown): number {
+	return Object.values(breakdown).reduce((total, points) => total + points, 0);
+}
+
+/**
+ * Round every signal's points for display
+ * @param breakdown - Points contributed by each signal
+ * @returns Breakdown with integer points
+ */
+export function roundBreakdown(breakdown: ScoreBreakdown): ScoreBreakdown {
+	return Object.fromEntries(
+		Object.entries(breakdown).map(([signal, points]) => [
+			signal,
+			Math.round(points),
+		]),
+	);
+}
+
+/**
+ * Matches returned by one search of the query ladder, in the search engine's order
+ */
+export interface RankedSearch<T> {
+	strategy: QueryStrategy;
+	query: string;
+	matches: T[];
+}
+
+/** Points given to a match ranked first by every search that ran */
+const SEARCH_RANK_WEIGHT = 10;
+
+/**
+ * Merge the results of several searches with reciprocal rank fusion
+ *
+ * Each search contributes 1 / (rank + 1) for every match it returned; the sum,
+ * relative to the best sum the searches that returned results allow, becomes
+ * the `searchRank` signal added to the match score (capped at 100). The
+ * best-scored copy of a match is kept and every search that returned it is
+ * recorded in its `searchTrace`.
+ *
+ * @param searches - Ranked results of each search
+ * @returns Unique matches with fused scores, highest score first
+ */
+export function fuseRankings<
+	T extends {
+		id: number;
+		score?: number;
+		scoreBreakdown?: ScoreBreakdown;
+		isHighQuality?: boolean;
+		searchTrace?: SearchTraceEntry[];
+	},
+>(searches: RankedSearch<T>[]): T[] {
+	const fused = new Map<
+		number,
+		{ match: T; rrf: number; trace: SearchTraceEntry[] }
+	>();
+
+	for (const { strategy, query, matches } of searches) {
+		matches.forEach((match, rank) => {
+			const entry = fused.get(match.id);
+			const traceEntry = { strategy, query, rank };
+
+			if (!entry) {
+				fused.set(match.id, {
+					match,
+					rrf: 1 / (rank + 1),
+					trace: [traceEntry],
+				});
+				return;
+			}
+
+			entry.rrf += 1 / (rank + 1);
+			entry.trace.push(traceEntry);
+			if ((match.score ?? 0) > (entry.match.score ?? 0)) {
+				entry.match = {
+					...match,
+					isHighQuality: match.isHighQuality || entry.match.isHighQuality,
+				};
+			} else if (match.isHighQuality && !entry.match.isHighQuality) {
+				entry.match = { ...entry.match, isHighQuality: true };
+			}
+		});
+	}
+
+	// A search can add at most 1 (its first result); failed or empty searches
+	// couldn't rank anything, so they don't count towards the maximum
+	const maxRrf = Math.max(
+		1,
+		searches.filter((search) => search.matches.length > 0).length,
+	);
+	const merged = Array.from(fused.values()).map(({ match, rrf, trace }) => {
+		const searchRank = Math.round((SEARCH_RANK_WEIGHT * rrf) / maxRrf);
+		const scoreBreakdown = { ...match.scoreBreakdown, searchRank };
+		return {
+			...match,
+			score: Math.min(100, (match.score ?? 0) + searchRank),
+			scoreBreakdown,
+			searchTrace: trace,
+		};
+	});
+
+	return merged.sort((a, b) => b.score - a.score);
+}
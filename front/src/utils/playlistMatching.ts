@@ -0,0 +1,106 @@
+import type {
+	PlaylistTrackResult,
+	PlaylistTrackStatus,
+	SourceTrack,
+} from '../types/converter.types';
+import { mapWithConcurrency, TRACK_MATCH_CONCURRENCY } from './concurrency';
+
+type PlaylistTarget = 'deezerMatch' | 'spotifyMatch' | 'youtubeMatch';
+type PlaylistTrackMatches = Pick<PlaylistTrackResult, PlaylistTarget>;
+
+interface PlaylistMatch {
+	id?: string | number;
+	isHighQuality?: boolean;
+	isSearchLink?: boolean;
+}
+
+/**
+ * Check whether a match is only a generated search link, not a resolved track
+ * @param match - Top match on a target platform
+ * @returns True for search links (flagged, or with a generated `search-` ID)
+ */
+export function isSearchLinkMatch(match: PlaylistMatch): boolean {
+	return (
+		!!match.isSearchLink ||
+		(typeof match.id === 'string' && match.id.startsWith('search-'))
+	);
+}
+
+/**
+ * Derive an entry's status from the top match found on each target platform
+ *
+ * Search links don't count as matches: an entry with only search links is not
+ * found, whatever quality the search claims.
+ *
+ * @param matches - Top match per target platform (undefined when none was found)
+ * @returns The entry status
+ */
+export function getPlaylistTrackStatus(
+	matches: Array<PlaylistMatch | undefined>,
+): PlaylistTrackStatus {
+	const resolved = matches.filter(
+		(match): match is PlaylistMatch => !!match && !isSearchLinkMatch(match),
+	);
+	if (resolved.length === 0) return 'notFound';
+	if (
+		resolved.length === matches.length &&
+		resolved.every((match) => match.isHighQuality !== false)
+	) {
+		return 'matched';
+	}
+	return 'partial';
+}
+
+/**
+ * Match every track of a playlist, reporting per-track status as it goes
+ *
+ * A failure on one entry marks that entry as `error` and never aborts the
+ * remaining entries.
+ *
+ * @param sources - Source tracks in playlist order
+ * @param targets - Target platforms each entry is matched on
+ * @param matcher - Finds the top match on each target platform for one track
+ * @param onProgress - Called with a fresh snapshot after every entry settles
+ * @returns Final per-track results in playlist order
+ */
+export async function matchPlaylistTracks<T extends SourceTrack>(
+	sources: readonly T[],
+	targets: readonly PlaylistTarget[],
+	matcher: (track: T) => Promise<PlaylistTrackMatches>,
+	onProgress?: (tracks: PlaylistTrackResult[]) => void,
+): Promise<PlaylistTrackResult[]> {
+	const results: PlaylistTrackResult[] = sources.map((source, position) => ({
+		position,
+		source,
+		status: 'pending',
+	}));
+	onProgress?.([...results]);
+
+	await mapWithConcurrency(
+		sources,
+		TRACK_MATCH_CONCURRENCY,
+		async (source, position) => {
+			try {
+				const matches = await matcher(source);
+				results[position] = {
+					position,
+					source,
+					...matches,
+					status: getPlaylistTrackStatus(
+						targets.map((target) => matches[target]),
+					),
+				};
+			} catch (error) {
+				results[position] = {
+					position,
+					source,
+					status: 'error',
+					error: error instanceof Error ? error.message : 'error.unknown',
+				};
+			}
+			onProgress?.([...results]);
+		},
+	);
+
+	return results;
+}
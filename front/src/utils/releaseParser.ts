@@ -0,0 +1,88 @@
+import type { AlbumType, EditionKeyword } from '../types/matching.types';
+import { foldText, getTitleFragments } from './textNormalization';
+
+/**
+ * Release attributes of albums: release year, edition keywords and whether
+ * an album is a compilation rather than an original release
+ */
+
+/** Album titles of compilations ("Greatest Hits", "The Best of...", "Now 85") */
+const COMPILATION_TITLE =
+	/\b(greatest hits|best of|the very best|the essential|essentials|anthology|the collection|platinum collection|definitive collection|compilation|number ones|now thats what i call|the singles|retrospective|best hits|les plus grands succes|grandes exitos)\b/;
+
+/** Album artist credited on various-artists compilations */
+const VARIOUS_ARTISTS =
+	/^(various artists|various|va|artistes divers|artisti vari|varios artistas|verschiedene interpreten)$/;
+
+/** Edition keywords, matched in bracketed or " - " fragments of album titles */
+const EDITION_PATTERNS: Array<[EditionKeyword, RegExp]> = [
+	['deluxe', /\bdeluxe\b/],
+	['expanded', /\bexpanded\b/],
+	['anniversary', /\banniversary\b/],
+	['remastered', /\bremaster(ed)?\b/],
+	['special', /\b(special|collectors|limited|platinum) edition\b/],
+	['bonusTracks', /\bbonus tracks?\b/],
+	['live', /\blive\b/],
+];
+
+/**
+ * Read the edition keywords of an album title
+ *
+ * Only bracketed and " - " fragments count, so albums such as "Live Through
+ * This" are not mistaken for live editions.
+ *
+ * @param title - Album title ("Album (Super Deluxe Edition)", "Album - Remastered 2011")
+ * @returns Edition keywords found, in a fixed order
+ */
+export function parseEditionKeywords(title: string): EditionKeyword[] {
+	if (!title || typeof title !== 'string') {
+		return [];
+	}
+
+	const fragments = getTitleFragments(title).map(foldText);
+
+	return EDITION_PATTERNS.filter(([, pattern]) =>
+		fragments.some((fragment) => pattern.test(fragment)),
+	).map(([keyword]) => keyword);
+}
+
+/**
+ * Read the year of a release date
+ * @param date - Release date as YYYY, YYYY-MM or YYYY-MM-DD
+ * @returns Year, or undefined if the date doesn't start with one
+ */
+export function parseReleaseYear(date: string | undefined): number | undefined {
+	const year = date?.match(/^(\d{4})/)?.[1];
+	return year ? Number.parseInt(year, 10) : undefined;
+}
+
+/**
+ * Check whether an album artist is the "Various Artists" credit
+ * @param artist - Album artist name
+ */
+export function isVariousArtists(artist: string | undefined): boolean {
+	return !!artist && VARIOUS_ARTISTS.test(foldText(artist));
+}
+
+/**
+ * Check whether an album is a compilation, from its type, album artist and
+ * title (platforms often file best-ofs as regular albums)
+ * @param album - Album title, album artist and album type, as known
+ * @returns True for compilations and "Various Artists" releases
+ */
+export function isCompilation(album: {
+	album?: string;
+	albumArtist?: string;
+	albumType?: AlbumType;
+}): boolean {
+	if (
+		album.albumType === 'compilation' ||
+		isVariousArtists(album.albumArtist)
+	) {
+		return true;
+	}
+	if (album.albumType === 'single' || album.albumType === 'ep') {
+		return false;
+	}
+	return !!album.album && COMPILATION_TITLE.test(foldText(album.album));
+}
@@ -1,4 +1,4 @@
-import axios, { type AxiosResponse } from 'axios';
+import axios, { type AxiosResponse, type ResponseType } from 'axios';
 
 /**
  * Makes a request with automatic proxy fallback and retry logic
@@ -12,9 +12,19 @@ export async function fetchWithProxy<T = any>(
 		timeout?: number;
 		maxRetries?: number;
 		retryDelay?: number;
+		/** Extra headers for the target (the proxy forwards `Authorization`) */
+		headers?: Record<string, string>;
+		/** Use `blob` or `arraybuffer` for binary targets such as cover images */
+		responseType?: ResponseType;
 	} = {},
 ): Promise<T> {
-	const { timeout = 15000, maxRetries = 2, retryDelay = 1000 } = options;
+	const {
+		timeout = 15000,
+		maxRetries = 2,
+		retryDelay = 1000,
+		headers,
+		responseType,
+	} = options;
 
 	const backendProxyUrl = createProxyUrl(targetUrl);
 
@@ -26,6 +36,8 @@ export async function fetchWithProxy<T = any>(
 
 			const response = await axios.get(backendProxyUrl, {
 				timeout,
+				headers,
+				responseType,
 				validateStatus: (status) => status >= 200 && status < 400,
 			});
 
@@ -47,6 +59,54 @@ export async function fetchWithProxy<T = any>(
 	throw new Error('Backend proxy failed after retries');
 }
 
+/**
+ * Sends a JSON POST request through the backend proxy, with retry logic
+ * @param targetUrl - The URL to post to
+ * @param body - JSON request body, forwarded as-is
+ * @param options - Request options
+ * @returns Promise with the response data
+ */
+export async function postWithProxy<T = unknown>(
+	targetUrl: string,
+	body: unknown,
+	options: {
+		timeout?: number;
+		maxRetries?: number;
+		retryDelay?: number;
+	} = {},
+): Promise<T> {
+	const { timeout = 15000, maxRetries = 2, retryDelay = 1000 } = options;
+
+	const backendProxyUrl = createProxyUrl(targetUrl);
+
+	for (let attempt = 0; attempt <= maxRetries; attempt++) {
+		try {
+			console.log(
+				`Posting through backend proxy to ${targetUrl} (attempt ${attempt + 1})`,
+			);
+
+			const response = await axios.post(backendProxyUrl, body, {
+				timeout,
+				headers: { 'Content-Type': 'application/json' },
+				validateStatus: (status) => status >= 200 && status < 400,
+			});
+
+			console.log(`✅ Success with backend proxy`);
+			return response.data as T;
+		} catch (error) {
+			console.warn(`❌ Failed with backend proxy:`, (error as Error).message);
+
+			if (attempt === maxRetries) {
+				throw error;
+			}
+
+			await new Promise((resolve) => setTimeout(resolve, retryDelay));
+		}
+	}
+
+	throw new Error('Backend proxy failed after retries');
+}
+
 /**
  * Unwraps response data from CORS proxy services (legacy function)
  * @param response - Axios response object
@@ -84,11 +144,44 @@ export function unwrapProxyResponse<T>(response: AxiosResponse): T {
  * @returns Proxied URL or direct URL depending on environment
  */
 export function createProxyUrl(url: string): string {
+	return createBackendUrl('/proxy', url);
+}
+
+/**
+ * Follows the redirects of a short link through the backend `/resolve` endpoint
+ * @param targetUrl - The short link to resolve (e.g. https://spotify.link/...)
+ * @param options - Request options
+ * @returns The URL the short link points to
+ */
+export async function resolveWithProxy(
+	targetUrl: string,
+	options: { timeout?: number } = {},
+): Promise<string> {
+	const { timeout = 15000 } = options;
+
+	const response = await axios.get<{ url?: string }>(
+		createBackendUrl('/resolve', targetUrl),
+		{ timeout },
+	);
+
+	if (!response.data?.url) {
+		throw new Error(`Unable to resolve ${targetUrl}`);
+	}
+	return response.data.url;
+}
+
+/**
+ * Builds a backend endpoint URL carrying the target URL as query parameter
+ * @param path - Backend endpoint path (e.g. /proxy)
+ * @param url - The target URL
+ * @returns Relative URL in development, absolute backend URL otherwise
+ */
+function createBackendUrl(path: string, url: string): string {
 	if (import.meta.env.MODE === 'development') {
-		return `/proxy?url=${encodeURIComponent(url)}`;
+		return `${path}?url=${encodeURIComponent(url)}`;
 	}
 
 	const backendProxyUrl = import.meta.env.VITE_PROXY_TARGET;
 
-	return `${backendProxyUrl}/proxy?url=${encodeURIComponent(url)}`;
+	return `${backendProxyUrl}${path}?url=${encodeURIComponent(url)}`;
 }
@@ -0,0 +1,529 @@
+import * as cheerio from 'cheerio';
+import type { AlbumType } from '../types/matching.types';
+import type {
+	SpotifyPageCollection,
+	SpotifyPageMetadata,
+	SpotifyPageTrack,
+} from '../types/spotify.types';
+
+/**
+ * Metadata extraction for public Spotify track, album and embed pages
+ *
+ * Spotify's oEmbed endpoint only returns a title and a thumbnail. The public
+ * pages carry much more: OpenGraph/music tags on open.spotify.com and an
+ * embedded Next.js payload on the embed player. Each extractor below reads one
+ * of those sources; `parseSpotifyPageMetadata` merges them, keeping the first
+ * value found for every field.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+const ISRC_PATTERN = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/;
+
+function isObject(value: unknown): value is JsonObject {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+	return typeof value === 'string' && value.trim() !== ''
+		? value.trim()
+		: undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+	if (typeof value === 'number' && Number.isFinite(value)) return value;
+	if (typeof value === 'string' && /^\d+(\.\d+)?$/.test(value)) {
+		return Number(value);
+	}
+	return undefined;
+}
+
+/**
+ * Decode a base64 string holding UTF-8 text (atob alone mangles non-ASCII)
+ */
+function decodeBase64Utf8(encoded: string): string {
+	const binary = atob(encoded.trim());
+	const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+	return new TextDecoder().decode(bytes);
+}
+
+function safeJsonParse(raw: string | undefined | null): unknown {
+	if (!raw) return undefined;
+	try {
+		return JSON.parse(raw);
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Depth-first search for the first object accepted by the predicate
+ */
+function findObject(
+	root: unknown,
+	predicate: (node: JsonObject) => boolean,
+	maxDepth = 12,
+): JsonObject | undefined {
+	if (maxDepth < 0) return undefined;
+	if (Array.isArray(root)) {
+		for (const item of root) {
+			const found = findObject(item, predicate, maxDepth - 1);
+			if (found) return found;
+		}
+		return undefined;
+	}
+	if (!isObject(root)) return undefined;
+	if (predicate(root)) return root;
+	for (const value of Object.values(root)) {
+		const found = findObject(value, predicate, maxDepth - 1);
+		if (found) return found;
+	}
+	return undefined;
+}
+
+/**
+ * Find an ISRC anywhere in a payload (`isrc` or `external_ids.isrc`)
+ */
+function findIsrc(root: unknown): string | undefined {
+	const holder = findObject(root, (node) => {
+		const isrc = asString(node.isrc)?.toUpperCase();
+		return !!isrc && ISRC_PATTERN.test(isrc);
+	});
+	return asString(holder?.isrc)?.toUpperCase();
+}
+
+/**
+ * Turn a Spotify artist list (`[{ name }]` or `[{ profile: { name } }]`) into names
+ */
+function readArtistNames(value: unknown): string[] {
+	const items =
+		isObject(value) && Array.isArray(value.items) ? value.items : value;
+	if (!Array.isArray(items)) return [];
+
+	return items
+		.map((artist) => {
+			if (!isObject(artist)) return undefined;
+			const profile = isObject(artist.profile) ? artist.profile : undefined;
+			return asString(artist.name) ?? asString(profile?.name);
+		})
+		.filter((name): name is string => !!name);
+}
+
+function readReleaseDate(value: unknown): string | undefined {
+	if (isObject(value)) {
+		return asString(value.isoString)?.slice(0, 10) ?? asString(value.date);
+	}
+	return asString(value)?.slice(0, 10);
+}
+
+/**
+ * Read the explicit flag of a track node (`isExplicit: true` in the embed
+ * payload, `contentRating: { label: 'EXPLICIT' }` in the web player)
+ */
+function readExplicit(node: JsonObject): boolean | undefined {
+	if (typeof node.isExplicit === 'boolean') return node.isExplicit;
+	if (typeof node.explicit === 'boolean') return node.explicit;
+	const contentRating = isObject(node.contentRating)
+		? node.contentRating
+		: undefined;
+	const label = asString(contentRating?.label);
+	return label ? label === 'EXPLICIT' : undefined;
+}
+
+/**
+ * Map a Spotify album type ("ALBUM", "single", "COMPILATION"...) to an album type
+ */
+export function readAlbumType(value: unknown): AlbumType | undefined {
+	const type = asString(value)?.toLowerCase();
+	return type === 'album' ||
+		type === 'single' ||
+		type === 'ep' ||
+		type === 'compilation'
+		? type
+		: undefined;
+}
+
+function readImageUrl(value: unknown): string | undefined {
+	if (!Array.isArray(value)) return undefined;
+	// Spotify lists images from largest to smallest or the other way around
+	// depending on the payload, so pick the widest one explicitly
+	const images = value.filter(isObject);
+	images.sort(
+		(a, b) =>
+			(asNumber(b.maxWidth ?? b.width) ?? 0) -
+			(asNumber(a.maxWidth ?? a.width) ?? 0),
+	);
+	return asString(images[0]?.url);
+}
+
+/**
+ * Extract metadata from the embed player's `__NEXT_DATA__` payload
+ * (open.spotify.com/embed/track/{id})
+ */
+export function extractFromEmbedPayload(
+	$: cheerio.CheerioAPI,
+): SpotifyPageMetadata {
+	const payload = safeJsonParse($('script#__NEXT_DATA__').html());
+	const entity = findObject(
+		payload,
+		(node) =>
+			typeof node.uri === 'string' &&
+			node.uri.startsWith('spotify:') &&
+			Array.isArray(node.artists),
+	);
+	if (!entity) return { artists: [] };
+
+	const visualIdentity = isObject(entity.visualIdentity)
+		? entity.visualIdentity
+		: undefined;
+
+	return {
+		name: asString(entity.name) ?? asString(entity.title),
+		artists: readArtistNames(entity.artists),
+		durationMs: asNumber(entity.duration),
+		releaseDate: readReleaseDate(entity.releaseDate),
+		isrc: findIsrc(entity),
+		imageUrl: readImageUrl(visualIdentity?.image),
+		explicit: readExplicit(entity),
+	};
+}
+
+/**
+ * Extract metadata from the web player's base64 `initial-state` payload
+ * (open.spotify.com/track/{id})
+ */
+export function extractFromInitialState(
+	$: cheerio.CheerioAPI,
+): SpotifyPageMetadata {
+	const raw = $('script#initial-state').html();
+	if (!raw) return { artists: [] };
+
+	let payload: unknown;
+	try {
+		payload = safeJsonParse(decodeBase64Utf8(raw));
+	} catch {
+		return { artists: [] };
+	}
+
+	const track = findObject(
+		payload,
+		(node) => node.__typename === 'Track' || isObject(node.albumOfTrack),
+	);
+	if (!track) return { artists: [], isrc: findIsrc(payload) };
+
+	const album = isObject(track.albumOfTrack) ? track.albumOfTrack : undefined;
+	const duration = isObject(track.duration) ? track.duration : undefined;
+	const coverArt = isObject(album?.coverArt) ? album.coverArt : undefined;
+
+	return {
+		name: asString(track.name),
+		artists: [
+			...readArtistNames(track.firstArtist),
+			...readArtistNames(track.otherArtists),
+			...readArtistNames(track.artists),
+		],
+		album: asString(album?.name),
+		albumType: readAlbumType(album?.type),
+		durationMs: asNumber(duration?.totalMilliseconds),
+		releaseDate: readReleaseDate(album?.date),
+		isrc: findIsrc(track) ?? findIsrc(payload),
+		imageUrl: readImageUrl(coverArt?.sources),
+		explicit: readExplicit(track),
+	};
+}
+
+/**
+ * Extract metadata from JSON-LD blocks (`MusicRecording` schema)
+ */
+export function extractFromJsonLd($: cheerio.CheerioAPI): SpotifyPageMetadata {
+	const metadata: SpotifyPageMetadata = { artists: [] };
+
+	$('script[type="application/ld+json"]').each((_index, element) => {
+		const recording = findObject(
+			safeJsonParse($(element).html()),
+			(node) => node['@type'] === 'MusicRecording',
+		);
+		if (!recording) return;
+
+		const byArtist = Array.isArray(recording.byArtist)
+			? recording.byArtist
+			: [recording.byArtist];
+		const inAlbum = isObject(recording.inAlbum) ? recording.inAlbum : undefined;
+
+		metadata.name ??= asString(recording.name);
+		if (metadata.artists.length === 0) {
+			metadata.artists = readArtistNames(byArtist);
+		}
+		metadata.album ??= asString(inAlbum?.name);
+		metadata.durationMs ??= parseIsoDuration(asString(recording.duration));
+		metadata.releaseDate ??= readReleaseDate(recording.datePublished);
+		metadata.isrc ??= asString(recording.isrcCode)?.toUpperCase();
+	});
+
+	return metadata;
+}
+
+/**
+ * Extract metadata from OpenGraph and `music:*` meta tags
+ */
+export function extractFromMetaTags(
+	$: cheerio.CheerioAPI,
+): SpotifyPageMetadata {
+	const meta = (key: string) =>
+		asString(
+			$(`meta[property="${key}"]`).attr('content') ??
+				$(`meta[name="${key}"]`).attr('content'),
+		);
+
+	const metadata: SpotifyPageMetadata = {
+		name: meta('og:title'),
+		artists: [],
+		durationMs: (() => {
+			const seconds = asNumber(meta('music:duration'));
+			return seconds !== undefined ? seconds * 1000 : undefined;
+		})(),
+		releaseDate: meta('music:release_date')?.slice(0, 10),
+		imageUrl: meta('og:image'),
+	};
+
+	// og:description looks like "Artist · Album · Song · 2020"
+	const descriptionParts = (meta('og:description') ?? '')
+		.split(' · ')
+		.map((part) => part.trim());
+	const songIndex = descriptionParts.indexOf('Song');
+	if (songIndex >= 2) {
+		const [artistPart, albumPart] = descriptionParts;
+		if (artistPart) metadata.artists = splitArtistList(artistPart);
+		metadata.album = albumPart;
+	}
+
+	const musician = meta('music:musician_description');
+	if (musician) {
+		metadata.artists = splitArtistList(musician);
+	}
+
+	return metadata;
+}
+
+/**
+ * Split a display string such as "Artist A, Artist B" into artist names
+ */
+function splitArtistList(value: string): string[] {
+	return value
+		.split(/\s*,\s*/)
+		.map((name) => name.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Convert an ISO 8601 duration (e.g. "PT3M25S") to milliseconds
+ */
+function parseIsoDuration(value: string | undefined): number | undefined {
+	const match = value?.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/);
+	if (!match) return undefined;
+	const [, hours = '0', minutes = '0', seconds = '0'] = match;
+	return Math.round(
+		(Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000,
+	);
+}
+
+/**
+ * Merge metadata sources, keeping the first non-empty value for every field
+ * (except artists, where the longest list wins)
+ */
+export function mergeSpotifyMetadata(
+	...sources: SpotifyPageMetadata[]
+): SpotifyPageMetadata {
+	const merged: SpotifyPageMetadata = { artists: [] };
+
+	for (const source of sources) {
+		merged.name ??= source.name;
+		merged.album ??= source.album;
+		merged.albumType ??= source.albumType;
+		merged.durationMs ??= source.durationMs;
+		merged.releaseDate ??= source.releaseDate;
+		merged.isrc ??= source.isrc;
+		merged.imageUrl ??= source.imageUrl;
+		merged.explicit ??= source.explicit;
+		// Display strings sometimes list only the main artist, so keep the
+		// most complete credit list rather than the first one
+		const artists = [...new Set(source.artists)];
+		if (artists.length > merged.artists.length) {
+			merged.artists = artists;
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Parse every metadata source available in a Spotify track or embed page
+ * @param html - Raw HTML of open.spotify.com/track/{id} or /embed/track/{id}
+ * @returns Merged metadata; fields stay undefined when no source provides them
+ */
+export function parseSpotifyPageMetadata(html: string): SpotifyPageMetadata {
+	const $ = cheerio.load(html);
+
+	// Structured payloads first: they list every artist and exact durations,
+	// while meta tags only carry display strings
+	return mergeSpotifyMetadata(
+		extractFromEmbedPayload($),
+		extractFromInitialState($),
+		extractFromJsonLd($),
+		extractFromMetaTags($),
+	);
+}
+
+/**
+ * Collect every track-like object (`uri: spotify:track:*` with a name) in page
+ * order, without descending into a track once found
+ */
+function collectTrackNodes(
+	root: unknown,
+	found: JsonObject[] = [],
+): JsonObject[] {
+	if (Array.isArray(root)) {
+		for (const item of root) collectTrackNodes(item, found);
+		return found;
+	}
+	if (!isObject(root)) return found;
+
+	const uri = asString(root.uri);
+	if (
+		uri?.startsWith('spotify:track:') &&
+		(asString(root.name) || asString(root.title))
+	) {
+		found.push(root);
+		return found;
+	}
+
+	for (const value of Object.values(root)) {
+		collectTrackNodes(value, found);
+	}
+	return found;
+}
+
+/**
+ * Map a track-like node from any Spotify payload to a page track
+ */
+function toPageTrack(node: JsonObject): SpotifyPageTrack | undefined {
+	const id = asString(node.uri)?.split(':')[2];
+	const name = asString(node.name) ?? asString(node.title);
+	if (!id || !name) return undefined;
+
+	const duration = isObject(node.duration)
+		? node.duration
+		: isObject(node.trackDuration)
+			? node.trackDuration
+			: undefined;
+	const album = isObject(node.albumOfTrack) ? node.albumOfTrack : undefined;
+
+	// Embed track lists only carry a "subtitle" display string for artists
+	let artists = readArtistNames(node.artists);
+	const subtitle = asString(node.subtitle);
+	if (artists.length === 0 && subtitle) {
+		artists = splitArtistList(subtitle);
+	}
+
+	return {
+		id,
+		name,
+		artists,
+		album: asString(album?.name),
+		durationMs:
+			asNumber(duration?.totalMilliseconds) ?? asNumber(node.duration),
+		explicit: readExplicit(node),
+	};
+}
+
+/**
+ * Read an album, playlist or artist entity (name, artists, tracks) from a
+ * payload; artist pages list their top tracks
+ */
+function readCollection(payload: unknown): SpotifyPageCollection {
+	const entity = findObject(payload, (node) => {
+		const uri = asString(node.uri);
+		return (
+			!!uri &&
+			(uri.startsWith('spotify:album:') ||
+				uri.startsWith('spotify:playlist:') ||
+				uri.startsWith('spotify:artist:'))
+		);
+	});
+	if (!entity) return { artists: [], tracks: [] };
+
+	const tracks = collectTrackNodes(entity)
+		.map(toPageTrack)
+		.filter((track): track is SpotifyPageTrack => !!track);
+
+	const visualIdentity = isObject(entity.visualIdentity)
+		? entity.visualIdentity
+		: undefined;
+	const coverArt = isObject(entity.coverArt) ? entity.coverArt : undefined;
+	const tracksV2 = isObject(entity.tracksV2) ? entity.tracksV2 : undefined;
+	const content = isObject(entity.content) ? entity.content : undefined;
+
+	const isPlaylist = asString(entity.uri)?.startsWith('spotify:playlist:');
+	const isArtist = asString(entity.uri)?.startsWith('spotify:artist:');
+	let artists = readArtistNames(entity.artists);
+	const subtitle = asString(entity.subtitle);
+	if (artists.length === 0 && subtitle && !isPlaylist && !isArtist) {
+		artists = splitArtistList(subtitle);
+	}
+
+	// Playlists show their owner where albums show artists
+	const ownerV2 = isObject(entity.ownerV2) ? entity.ownerV2 : undefined;
+	const ownerData = isObject(ownerV2?.data) ? ownerV2.data : undefined;
+	const owner = isPlaylist
+		? (asString(ownerData?.name) ?? subtitle)
+		: undefined;
+
+	return {
+		name: asString(entity.name) ?? asString(entity.title),
+		artists,
+		owner,
+		releaseDate: readReleaseDate(entity.releaseDate ?? entity.date),
+		imageUrl:
+			readImageUrl(visualIdentity?.image) ?? readImageUrl(coverArt?.sources),
+		totalTracks:
+			asNumber(tracksV2?.totalCount) ?? asNumber(content?.totalCount),
+		tracks,
+	};
+}
+
+/**
+ * Parse an album, playlist or artist from a Spotify embed or web player page
+ *
+ * The embed payload (`__NEXT_DATA__`) is preferred as it lists the whole
+ * tracklist with durations; the web player's `initial-state` is the fallback.
+ *
+ * @param html - Raw HTML of open.spotify.com/embed/{album|playlist|artist}/{id} or the regular page
+ * @returns Collection data with tracks in page order
+ */
+export function parseSpotifyCollectionPage(
+	html: string,
+): SpotifyPageCollection {
+	const $ = cheerio.load(html);
+
+	const embedPayload = safeJsonParse($('script#__NEXT_DATA__').html());
+	const session = findObject(
+		embedPayload,
+		(node) => typeof node.accessToken === 'string',
+	);
+	const fromEmbed: SpotifyPageCollection = {
+		...readCollection(embedPayload),
+		accessToken: asString(session?.accessToken),
+	};
+	if (fromEmbed.tracks.length > 0) return fromEmbed;
+
+	const initialState = $('script#initial-state').html();
+	if (!initialState) return fromEmbed;
+	try {
+		return {
+			...readCollection(safeJsonParse(decodeBase64Utf8(initialState))),
+			accessToken: fromEmbed.accessToken,
+		};
+	} catch {
+		return fromEmbed;
+	}
+}
@@ -0,0 +1,247 @@
+import levenshtein from 'fast-levenshtein';
+import { hasNonLatinLetters, transliterate } from './transliteration';
+
+/**
+ * Unicode-aware text normalization and similarity for track matching
+ *
+ * Titles and artist names come from every script, so normalization must keep
+ * letters and digits of all alphabets (CJK, Hangul, Cyrillic, Greek, Arabic...)
+ * and only fold what doesn't change meaning: case, width, Latin-style accents,
+ * optional vowel marks and punctuation.
+ */
+
+/**
+ * Letters that don't decompose under NFD but have a conventional ASCII fold
+ */
+const SPECIAL_FOLDS: Record<string, string> = {
+	ß: 'ss',
+	æ: 'ae',
+	œ: 'oe',
+	ø: 'o',
+	đ: 'd',
+	ð: 'd',
+	þ: 'th',
+	ł: 'l',
+	ı: 'i',
+};
+
+const SPECIAL_FOLD_PATTERN = new RegExp(
+	`[${Object.keys(SPECIAL_FOLDS).join('')}]`,
+	'g',
+);
+
+/** Combining diacritics used by Latin, Greek and Cyrillic (é, ά, ё...) */
+const COMBINING_DIACRITICS = /[\u0300-\u036f]/g;
+
+/** Arabic harakat and tatweel, Hebrew niqqud and cantillation marks */
+const OPTIONAL_VOWEL_MARKS =
+	/[\u0591-\u05c7\u0610-\u061a\u0640\u064b-\u065f\u0670\u06d6-\u06ed]/g;
+
+/** Apostrophes and similar intra-word marks, removed without leaving a gap */
+const INTRA_WORD_MARKS = /['`\u00b4\u02bc\u2018\u2019]/g;
+
+/** Any punctuation or symbol, in any script (。、・「」!?…/&♪...) */
+const PUNCTUATION_AND_SYMBOLS = /[\p{P}\p{S}]/gu;
+
+/** Anything that isn't a letter, a combining mark, a digit or whitespace */
+const NON_TEXT = /[^\p{L}\p{M}\p{N}\s]/gu;
+
+/**
+ * Fold a string to a script-preserving comparable form, without removing
+ * bracketed content
+ * @param str - String to fold
+ * @returns Lowercased, width- and accent-folded text with punctuation removed
+ */
+export function foldText(str: string): string {
+	if (!str || typeof str !== 'string') {
+		return '';
+	}
+
+	return (
+		str
+			// Full-width Latin/digits → ASCII, half-width katakana → full-width,
+			// ligatures and other compatibility forms → canonical letters
+			.normalize('NFKC')
+			.toLowerCase()
+			.replace(SPECIAL_FOLD_PATTERN, (char) => SPECIAL_FOLDS[char] ?? char)
+			// Split accents off their letters, drop them, then recompose so that
+			// Hangul syllables and kana with dakuten come back whole
+			.normalize('NFD')
+			.replace(COMBINING_DIACRITICS, '')
+			.replace(OPTIONAL_VOWEL_MARKS, '')
+			.normalize('NFC')
+			.replace(INTRA_WORD_MARKS, '')
+			.replace(PUNCTUATION_AND_SYMBOLS, ' ')
+			.replace(NON_TEXT, ' ')
+			.replace(/\s+/g, ' ')
+			.trim()
+	);
+}
+
+/**
+ * Bracketed fragment of a title, with the whitespace before it
+ * ("Song (Live)", "Song [Remix]", "曲（ライブ）", "曲【MV】")
+ */
+export const BRACKETED_FRAGMENT = /\s*[([（［【]([^)\]）］】]*)[)\]）］】]/g;
+
+/** Separator before a title suffix ("Song - Live", "Song – 2011 Remaster") */
+export const DASH_SEPARATOR = /\s+[-–—]\s+/;
+
+/**
+ * Split a title into the fragments that may carry tags (version, edition,
+ * explicit hint...): bracketed contents and " - " suffixes
+ *
+ * Tags only count there, so titles like "Live Forever" or "Dirty Computer"
+ * keep their meaning.
+ *
+ * @param title - Track, album or video title
+ * @returns Non-empty fragments, bracketed ones first
+ */
+export function getTitleFragments(title: string): string[] {
+	if (!title || typeof title !== 'string') {
+		return [];
+	}
+
+	return [
+		...Array.from(title.matchAll(BRACKETED_FRAGMENT), (match) => match[1]),
+		...title.replace(BRACKETED_FRAGMENT, ' ').split(DASH_SEPARATOR).slice(1),
+	].filter((fragment): fragment is string => !!fragment?.trim());
+}
+
+/**
+ * Normalize string for better matching
+ * @param str - String to normalize
+ * @returns Normalized string
+ */
+export function normalizeString(str: string): string {
+	if (!str || typeof str !== 'string') {
+		return '';
+	}
+	return foldText(
+		str
+			.replace(/\s*[(\uff08].*?[)\uff09]\s*/g, ' ') // Remove content in parentheses (feat., remix, etc.)
+			.replace(/\s*[[\uff3b].*?[\]\uff3d]\s*/g, ' '), // Remove content in brackets
+	);
+}
+
+/**
+ * Calculate similarity between two strings using Levenshtein distance
+ *
+ * Strings that normalize to nothing (e.g. "!!!" or "...") are only considered
+ * identical when their raw forms are; they never match a real title.
+ *
+ * @param str1 - First string
+ * @param str2 - Second string
+ * @returns Similarity score (0-100, where 100 is identical)
+ */
+export function calculateSimilarity(str1: string, str2: string): number {
+	// Handle undefined or null strings
+	if (!str1 || !str2 || typeof str1 !== 'string' || typeof str2 !== 'string') {
+		return 0;
+	}
+
+	const normalized1 = normalizeString(str1);
+	const normalized2 = normalizeString(str2);
+
+	if (!normalized1 || !normalized2) {
+		return str1.trim().toLowerCase() === str2.trim().toLowerCase() ? 100 : 0;
+	}
+
+	if (normalized1 === normalized2) {
+		return 100;
+	}
+
+	const distance = levenshtein.get(
+		...toComparableUnits(normalized1, normalized2),
+	);
+	const maxLength = Math.max(
+		Array.from(normalized1).length,
+		Array.from(normalized2).length,
+	);
+	return Math.round(((maxLength - distance) / maxLength) * 100);
+}
+
+/**
+ * Spelling variants of the same sounds across romanization systems, folded to
+ * one form ("Toukyou" / "Tokyo", "Khorosho" / "Horosho")
+ */
+const ROMANIZATION_VARIANTS: Array<[RegExp, string]> = [
+	[/ou|oo/g, 'o'],
+	[/uu/g, 'u'],
+	[/kh/g, 'h'],
+];
+
+/**
+ * Reduce a string to a romanized key: transliterated, normalized, with
+ * romanization variants folded and without spaces (Japanese doesn't mark word
+ * boundaries, so "Yoru ni Kakeru" must equal "よるにかける")
+ */
+function toRomanizedKey(str: string): string {
+	let key = normalizeString(transliterate(str)).replace(/\s+/g, '');
+	for (const [pattern, replacement] of ROMANIZATION_VARIANTS) {
+		key = key.replace(pattern, replacement);
+	}
+	return key;
+}
+
+/**
+ * Calculate similarity between two strings that may be written in different
+ * scripts ("Kino" / "Кино", "Gurenge" / "紅蓮華")
+ *
+ * The direct comparison is kept when it is better; otherwise both strings are
+ * transliterated to Latin and compared again. Strings with only Latin letters
+ * skip the second comparison.
+ *
+ * @param str1 - First string
+ * @param str2 - Second string
+ * @returns Similarity score (0-100, where 100 is identical)
+ */
+export function calculateCrossScriptSimilarity(
+	str1: string,
+	str2: string,
+): number {
+	const direct = calculateSimilarity(str1, str2);
+	if (
+		direct === 100 ||
+		!str1 ||
+		!str2 ||
+		(!hasNonLatinLetters(str1) && !hasNonLatinLetters(str2))
+	) {
+		return direct;
+	}
+
+	return Math.max(
+		direct,
+		calculateSimilarity(toRomanizedKey(str1), toRomanizedKey(str2)),
+	);
+}
+
+/**
+ * Make both strings safe for a UTF-16 based Levenshtein implementation
+ *
+ * When either string holds astral characters (rare CJK ideographs), every code
+ * point is re-encoded as a single private-use character from a shared
+ * alphabet, so each one counts as one edit instead of two.
+ */
+function toComparableUnits(str1: string, str2: string): [string, string] {
+	const chars1 = Array.from(str1);
+	const chars2 = Array.from(str2);
+	if (chars1.length === str1.length && chars2.length === str2.length) {
+		return [str1, str2];
+	}
+
+	const alphabet = new Map<string, string>();
+	const encode = (chars: string[]) =>
+		chars
+			.map((char) => {
+				let unit = alphabet.get(char);
+				if (!unit) {
+					unit = String.fromCharCode(0xe000 + alphabet.size);
+					alphabet.set(char, unit);
+				}
+				return unit;
+			})
+			.join('');
+
+	return [encode(chars1), encode(chars2)];
+}
@@ -0,0 +1,157 @@
+import type {
+	EditionMatch,
+	TracklistComparison,
+	TracklistEntry,
+} from '../types/matching.types';
+import { stripFeaturing } from './artistParser';
+import { calculateCrossScriptSimilarity } from './textNormalization';
+import { stripVersionSuffix } from './versionParser';
+
+/**
+ * Tracklist comparison of two albums, to tell the same edition from an
+ * expanded one (deluxe, bonus tracks) or a different release altogether
+ */
+
+/** Similarity from which two track titles are considered the same track */
+const SAME_TRACK_THRESHOLD = 85;
+
+/** Total duration difference tolerated for the same edition: 2%, at least 10 s */
+const DURATION_TOLERANCE_RATIO = 0.02;
+const MIN_DURATION_TOLERANCE_SECONDS = 10;
+
+/**
+ * Pair every source track with the most similar unpaired candidate track
+ * @returns Candidate index of each source track (-1 when unpaired)
+ */
+function pairTracks(
+	source: TracklistEntry[],
+	candidate: TracklistEntry[],
+	similarity: (title1: string, title2: string) => number,
+): number[] {
+	const baseTitle = (entry: TracklistEntry) =>
+		stripFeaturing(stripVersionSuffix(entry.title));
+	const candidateTitles = candidate.map(baseTitle);
+	const paired = new Set<number>();
+
+	return source.map((entry, sourceIndex) => {
+		const title = baseTitle(entry);
+		let bestIndex = -1;
+		let bestScore = SAME_TRACK_THRESHOLD - 1;
+
+		candidateTitles.forEach((candidateTitle, candidateIndex) => {
+			if (paired.has(candidateIndex)) return;
+			const score = similarity(title, candidateTitle);
+			// On equal scores, prefer the track at the closest position
+			const isCloser =
+				score === bestScore &&
+				Math.abs(candidateIndex - sourceIndex) <
+					Math.abs(bestIndex - sourceIndex);
+			if (score > bestScore || isCloser) {
+				bestIndex = candidateIndex;
+				bestScore = score;
+			}
+		});
+
+		if (bestIndex !== -1) {
+			paired.add(bestIndex);
+		}
+		return bestIndex;
+	});
+}
+
+/**
+ * Length of the longest increasing subsequence: the most pairs kept in order
+ */
+function countInOrder(indexes: number[]): number {
+	const tails: number[] = [];
+	for (const index of indexes) {
+		let low = 0;
+		let high = tails.length;
+		while (low < high) {
+			const middle = (low + high) >> 1;
+			if ((tails[middle] ?? 0) < index) {
+				low = middle + 1;
+			} else {
+				high = middle;
+			}
+		}
+		tails[low] = index;
+	}
+	return tails.length;
+}
+
+/**
+ * Sum track durations, or undefined when any of them is unknown
+ */
+function totalDurationMs(tracks: TracklistEntry[]): number | undefined {
+	let total = 0;
+	for (const track of tracks) {
+		if (!track.durationMs) return undefined;
+		total += track.durationMs;
+	}
+	return total;
+}
+
+/**
+ * Compare a candidate album's tracklist with the source album's
+ * @param source - Tracklist of the source album
+ * @param candidate - Tracklist of the candidate album
+ * @param similarity - Title similarity (0-100), cross-script by default
+ * @returns Edition verdict with the missing and extra tracks
+ */
+export function compareTracklists(
+	source: TracklistEntry[],
+	candidate: TracklistEntry[],
+	similarity: (
+		title1: string,
+		title2: string,
+	) => number = calculateCrossScriptSimilarity,
+): TracklistComparison {
+	const pairs = pairTracks(source, candidate, similarity);
+	const pairedCandidates = new Set(pairs.filter((index) => index !== -1));
+
+	const missingTracks = source
+		.filter((_track, index) => pairs[index] === -1)
+		.map((track) => track.title);
+	const extraTracks = candidate
+		.filter((_track, index) => !pairedCandidates.has(index))
+		.map((track) => track.title);
+
+	const longest = Math.max(source.length, candidate.length);
+	const orderedOverlap =
+		longest > 0
+			? countInOrder(pairs.filter((index) => index !== -1)) / longest
+			: 0;
+
+	const sourceDuration = totalDurationMs(source);
+	const candidateDuration = totalDurationMs(candidate);
+	const durationDiffSeconds =
+		sourceDuration !== undefined && candidateDuration !== undefined
+			? Math.round((candidateDuration - sourceDuration) / 1000)
+			: undefined;
+	const durationTolerance = Math.max(
+		MIN_DURATION_TOLERANCE_SECONDS,
+		((sourceDuration ?? 0) / 1000) * DURATION_TOLERANCE_RATIO,
+	);
+
+	let edition: EditionMatch = 'differentRelease';
+	if (source.length > 0 && missingTracks.length === 0) {
+		if (extraTracks.length > 0) {
+			edition = 'expandedEdition';
+		} else if (
+			orderedOverlap === 1 &&
+			(durationDiffSeconds === undefined ||
+				Math.abs(durationDiffSeconds) <= durationTolerance)
+		) {
+			edition = 'sameEdition';
+		}
+	}
+
+	return {
+		edition,
+		missingTracks,
+		extraTracks,
+		orderedOverlap,
+		...(durationDiffSeconds !== undefined ? { durationDiffSeconds } : {}),
+	};
+}
@@ -0,0 +1,529 @@
+/**
+ * Transliteration of titles and artist names to Latin script
+ *
+ * Used for extra search queries and for comparing a native title with its
+ * romanized form ("Кино" / "Kino", "봄날" / "Bomnal", "ぐれんげ" / "Gurenge").
+ * Kana, Hangul, Cyrillic, Greek and Arabic are converted algorithmically.
+ * Kanji (and hanzi) have no algorithmic reading: they are only converted when a
+ * reading provider is registered, and kept as they are otherwise. The app
+ * registers the kuromoji analyzer of kanjiReadings.ts lazily: its dictionary
+ * is only downloaded once a title with kanji is transliterated.
+ */
+
+/** Combining diacritics used by Latin, Greek and Cyrillic (é, ά, ё...) */
+const COMBINING_DIACRITICS = /[\u0300-\u036f]/g;
+
+/**
+ * Letters that don't decompose under NFD but have a conventional Latin spelling
+ */
+const LATIN_FOLDS: Record<string, string> = {
+	ß: 'ss',
+	æ: 'ae',
+	Æ: 'Ae',
+	œ: 'oe',
+	Œ: 'Oe',
+	ø: 'o',
+	Ø: 'O',
+	đ: 'd',
+	Đ: 'D',
+	ð: 'd',
+	þ: 'th',
+	ł: 'l',
+	Ł: 'L',
+	ı: 'i',
+};
+
+const LATIN_FOLD_PATTERN = new RegExp(
+	`[${Object.keys(LATIN_FOLDS).join('')}]`,
+	'g',
+);
+
+/** Russian, Ukrainian and Belarusian letters (BGN/PCGN-style, as used by labels) */
+const CYRILLIC: Record<string, string> = {
+	а: 'a',
+	б: 'b',
+	в: 'v',
+	г: 'g',
+	ґ: 'g',
+	д: 'd',
+	е: 'e',
+	ё: 'yo',
+	є: 'ye',
+	ж: 'zh',
+	з: 'z',
+	и: 'i',
+	і: 'i',
+	ї: 'yi',
+	й: 'y',
+	к: 'k',
+	л: 'l',
+	м: 'm',
+	н: 'n',
+	о: 'o',
+	п: 'p',
+	р: 'r',
+	с: 's',
+	т: 't',
+	у: 'u',
+	ў: 'u',
+	ф: 'f',
+	х: 'kh',
+	ц: 'ts',
+	ч: 'ch',
+	ш: 'sh',
+	щ: 'shch',
+	ъ: '',
+	ы: 'y',
+	ь: '',
+	э: 'e',
+	ю: 'yu',
+	я: 'ya',
+};
+
+/** Greek digraphs, checked before single letters */
+const GREEK_DIGRAPHS: Record<string, string> = {
+	ου: 'ou',
+	γγ: 'ng',
+	γκ: 'gk',
+};
+
+/** Modern Greek letters (ELOT 743, simplified) */
+const GREEK: Record<string, string> = {
+	α: 'a',
+	β: 'v',
+	γ: 'g',
+	δ: 'd',
+	ε: 'e',
+	ζ: 'z',
+	η: 'i',
+	θ: 'th',
+	ι: 'i',
+	κ: 'k',
+	λ: 'l',
+	μ: 'm',
+	ν: 'n',
+	ξ: 'x',
+	ο: 'o',
+	π: 'p',
+	ρ: 'r',
+	σ: 's',
+	ς: 's',
+	τ: 't',
+	υ: 'y',
+	φ: 'f',
+	χ: 'ch',
+	ψ: 'ps',
+	ω: 'o',
+};
+
+/**
+ * Arabic consonants. Short vowels are rarely written, so و and ي are read as
+ * the long vowels u and i except at the start of a word.
+ */
+const ARABIC: Record<string, string> = {
+	ا: 'a',
+	أ: 'a',
+	إ: 'i',
+	آ: 'a',
+	ء: '',
+	ؤ: 'u',
+	ئ: 'i',
+	ب: 'b',
+	ت: 't',
+	ث: 'th',
+	ج: 'j',
+	ح: 'h',
+	خ: 'kh',
+	د: 'd',
+	ذ: 'dh',
+	ر: 'r',
+	ز: 'z',
+	س: 's',
+	ش: 'sh',
+	ص: 's',
+	ض: 'd',
+	ط: 't',
+	ظ: 'z',
+	ع: '',
+	غ: 'gh',
+	ف: 'f',
+	ق: 'q',
+	ك: 'k',
+	ل: 'l',
+	م: 'm',
+	ن: 'n',
+	ه: 'h',
+	ة: 'a',
+	ى: 'a',
+	پ: 'p',
+	چ: 'ch',
+	گ: 'g',
+	ک: 'k',
+	ی: 'i',
+};
+
+/** Hiragana syllables (katakana is shifted to hiragana first), Hepburn */
+const KANA: Record<string, string> = {
+	あ: 'a',
+	い: 'i',
+	う: 'u',
+	え: 'e',
+	お: 'o',
+	か: 'ka',
+	き: 'ki',
+	く: 'ku',
+	け: 'ke',
+	こ: 'ko',
+	が: 'ga',
+	ぎ: 'gi',
+	ぐ: 'gu',
+	げ: 'ge',
+	ご: 'go',
+	さ: 'sa',
+	し: 'shi',
+	す: 'su',
+	せ: 'se',
+	そ: 'so',
+	ざ: 'za',
+	じ: 'ji',
+	ず: 'zu',
+	ぜ: 'ze',
+	ぞ: 'zo',
+	た: 'ta',
+	ち: 'chi',
+	つ: 'tsu',
+	て: 'te',
+	と: 'to',
+	だ: 'da',
+	ぢ: 'ji',
+	づ: 'zu',
+	で: 'de',
+	ど: 'do',
+	な: 'na',
+	に: 'ni',
+	ぬ: 'nu',
+	ね: 'ne',
+	の: 'no',
+	は: 'ha',
+	ひ: 'hi',
+	ふ: 'fu',
+	へ: 'he',
+	ほ: 'ho',
+	ば: 'ba',
+	び: 'bi',
+	ぶ: 'bu',
+	べ: 'be',
+	ぼ: 'bo',
+	ぱ: 'pa',
+	ぴ: 'pi',
+	ぷ: 'pu',
+	ぺ: 'pe',
+	ぽ: 'po',
+	ま: 'ma',
+	み: 'mi',
+	む: 'mu',
+	め: 'me',
+	も: 'mo',
+	や: 'ya',
+	ゆ: 'yu',
+	よ: 'yo',
+	ら: 'ra',
+	り: 'ri',
+	る: 'ru',
+	れ: 're',
+	ろ: 'ro',
+	わ: 'wa',
+	ゐ: 'i',
+	ゑ: 'e',
+	を: 'o',
+	ん: 'n',
+	ゔ: 'vu',
+	ぁ: 'a',
+	ぃ: 'i',
+	ぅ: 'u',
+	ぇ: 'e',
+	ぉ: 'o',
+	ゎ: 'wa',
+};
+
+/** Small ya/yu/yo, merged with the preceding i-row syllable (きゃ → kya) */
+const SMALL_Y: Record<string, string> = { ゃ: 'a', ゅ: 'u', ょ: 'o' };
+
+/** Hangul Revised Romanization: initial consonants, vowels, final consonants */
+const HANGUL_INITIALS = [
+	'g',
+	'kk',
+	'n',
+	'd',
+	'tt',
+	'r',
+	'm',
+	'b',
+	'pp',
+	's',
+	'ss',
+	'',
+	'j',
+	'jj',
+	'ch',
+	'k',
+	't',
+	'p',
+	'h',
+];
+const HANGUL_VOWELS = [
+	'a',
+	'ae',
+	'ya',
+	'yae',
+	'eo',
+	'e',
+	'yeo',
+	'ye',
+	'o',
+	'wa',
+	'wae',
+	'oe',
+	'yo',
+	'u',
+	'wo',
+	'we',
+	'wi',
+	'yu',
+	'eu',
+	'ui',
+	'i',
+];
+const HANGUL_FINALS = [
+	'',
+	'k',
+	'k',
+	'k',
+	'n',
+	'n',
+	'n',
+	't',
+	'l',
+	'k',
+	'm',
+	'l',
+	'l',
+	'l',
+	'p',
+	'l',
+	'm',
+	'p',
+	'p',
+	't',
+	't',
+	'ng',
+	't',
+	't',
+	'k',
+	't',
+	'p',
+	't',
+];
+
+const HANGUL_FIRST = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+
+/** Runs of kanji, optionally mixed with kana (one reading request per run) */
+const KANJI_RUN =
+	/[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\u3005][\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\u3005]*/g;
+
+/**
+ * Returns the kana reading of a run of Japanese text containing kanji, or
+ * undefined when it doesn't know it
+ */
+export type ReadingProvider = (text: string) => string | undefined;
+
+let readingProvider: ReadingProvider | null = null;
+
+/**
+ * Register where kanji readings come from (a dictionary, a morphological
+ * analyzer...). Without one, kanji are left untransliterated.
+ * @param provider - Reading provider, or null to remove it
+ */
+export function setReadingProvider(provider: ReadingProvider | null): void {
+	readingProvider = provider;
+}
+
+/**
+ * Wrap a reading provider that takes time to load (a dynamically imported
+ * dictionary...) so it only loads when a reading is first asked for
+ *
+ * Until it is ready, no reading is given and kanji stay as written.
+ *
+ * @param load - Loads the actual provider
+ * @returns Provider to register with setReadingProvider
+ */
+export function createLazyReadingProvider(
+	load: () => Promise<ReadingProvider>,
+): ReadingProvider {
+	let provider: ReadingProvider | null = null;
+	let isLoading = false;
+
+	return (text) => {
+		if (provider) {
+			return provider(text);
+		}
+		if (!isLoading) {
+			isLoading = true;
+			load()
+				.then((loaded) => {
+					provider = loaded;
+				})
+				.catch((error) => {
+					console.warn('Failed to load the kanji reading provider:', error);
+				});
+		}
+		return undefined;
+	};
+}
+
+/**
+ * Romanize kana (hiragana or katakana) with Hepburn rules
+ */
+function romanizeKana(text: string): string {
+	// Katakana → hiragana, so one table covers both
+	const hiragana = text.replace(/[\u30a1-\u30f6]/g, (char) =>
+		String.fromCharCode(char.charCodeAt(0) - 0x60),
+	);
+
+	let result = '';
+	let doubleNext = false;
+	for (let i = 0; i < hiragana.length; i++) {
+		const char = hiragana.charAt(i);
+
+		// Sokuon doubles the next consonant (がっこう → gakkou)
+		if (char === 'っ') {
+			doubleNext = true;
+			continue;
+		}
+
+		// Long vowel mark repeats the previous vowel (ゴースト → goosuto)
+		if (char === 'ー') {
+			result += result.match(/[aeiou]$/)?.[0] ?? '';
+			continue;
+		}
+
+		let syllable = KANA[char];
+		if (syllable === undefined) {
+			result += char;
+			doubleNext = false;
+			continue;
+		}
+
+		const smallY = SMALL_Y[hiragana.charAt(i + 1)];
+		if (smallY && syllable.endsWith('i') && syllable.length > 1) {
+			const consonant = syllable.slice(0, -1);
+			// し/ち/じ drop the y (しゃ → sha), the others keep it (きゃ → kya)
+			syllable = /(sh|ch|j)$/.test(consonant)
+				? `${consonant}${smallY}`
+				: `${consonant}y${smallY}`;
+			i++;
+		}
+
+		if (doubleNext) {
+			syllable = syllable.startsWith('ch')
+				? `t${syllable}`
+				: `${syllable.charAt(0)}${syllable}`;
+			doubleNext = false;
+		}
+		result += syllable;
+	}
+	return result;
+}
+
+/**
+ * Romanize one Hangul syllable by decomposing it into its jamo
+ */
+function romanizeHangulSyllable(code: number): string {
+	const index = code - HANGUL_FIRST;
+	const initial = Math.floor(index / (21 * 28));
+	const vowel = Math.floor((index % (21 * 28)) / 28);
+	const final = index % 28;
+	return `${HANGUL_INITIALS[initial]}${HANGUL_VOWELS[vowel]}${HANGUL_FINALS[final]}`;
+}
+
+/**
+ * Transliterate non-Latin letters of a lowercased string
+ */
+function transliterateScripts(text: string): string {
+	let result = '';
+	for (let i = 0; i < text.length; i++) {
+		const char = text.charAt(i);
+		const code = char.charCodeAt(0);
+
+		if (code >= HANGUL_FIRST && code <= HANGUL_LAST) {
+			result += romanizeHangulSyllable(code);
+			continue;
+		}
+
+		const greekDigraph = GREEK_DIGRAPHS[text.slice(i, i + 2)];
+		if (greekDigraph !== undefined) {
+			result += greekDigraph;
+			i++;
+			continue;
+		}
+
+		const isWordStart = i === 0 || /\s/.test(text.charAt(i - 1));
+		if (char === 'و' || char === 'ي') {
+			result += isWordStart
+				? char === 'و'
+					? 'w'
+					: 'y'
+				: char === 'و'
+					? 'u'
+					: 'i';
+			continue;
+		}
+
+		result += CYRILLIC[char] ?? GREEK[char] ?? ARABIC[char] ?? char;
+	}
+
+	return result.replace(/[\u3040-\u30ff]+/g, romanizeKana);
+}
+
+/**
+ * Transliterate a string to Latin script
+ *
+ * Latin text keeps its case and only loses its diacritics; other scripts come
+ * out lowercase. Characters of unsupported scripts are kept as they are.
+ *
+ * @param str - String to transliterate
+ * @returns Transliterated string
+ */
+export function transliterate(str: string): string {
+	if (!str || typeof str !== 'string') {
+		return '';
+	}
+
+	const withReadings = readingProvider
+		? str.replace(KANJI_RUN, (run) => readingProvider?.(run) ?? run)
+		: str;
+
+	const segments = withReadings
+		.normalize('NFKD')
+		.replace(COMBINING_DIACRITICS, '')
+		.replace(LATIN_FOLD_PATTERN, (char) => LATIN_FOLDS[char] ?? char)
+		.normalize('NFC')
+		// Latin runs pass through untouched, everything else is lowercased and mapped
+		.split(/([\p{Script=Latin}\d\s\p{P}\p{S}]+)/u);
+
+	return segments
+		.map((segment, index) =>
+			index % 2 === 1 ? segment : transliterateScripts(segment.toLowerCase()),
+		)
+		.join('');
+}
+
+/**
+ * Check whether a string contains letters that transliteration would change
+ * @param str - String to check
+ * @returns True when the string has non-Latin letters
+ */
+export function hasNonLatinLetters(str: string): boolean {
+	return /[^\p{Script=Latin}\P{L}]/u.test(str);
+}
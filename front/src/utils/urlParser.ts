@@ -71,6 +71,99 @@ export function parseSpotifyAlbumUrl(
 	return null;
 }
 
+/**
+ * Extracts the playlist ID from a Spotify URL or URI
+ * Supports:
+ * - https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M
+ * - https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M?si=...
+ * - spotify:playlist:37i9dQZF1DXcBWIGoYBM5M
+ * - spotify:user:{user}:playlist:37i9dQZF1DXcBWIGoYBM5M (legacy URI)
+ * @param url - The Spotify URL or URI to parse
+ * @returns The playlist ID if found, null otherwise
+ */
+export function parseSpotifyPlaylistUrl(
+	url: string | null | undefined,
+): string | null {
+	if (!url) return null;
+
+	// Remove whitespace
+	const trimmedUrl = url.trim();
+
+	// Handle Spotify URI format (spotify:playlist:id, optionally user-scoped)
+	const uriMatch = trimmedUrl.match(
+		/spotify:(?:user:[^:]+:)?playlist:([a-zA-Z0-9]+)/,
+	);
+	if (uriMatch?.[1]) {
+		return uriMatch[1];
+	}
+
+	// Handle HTTP/HTTPS URLs
+	const urlMatch = trimmedUrl.match(
+		/(?:https?:\/\/)?(?:open\.)?spotify\.com\/playlist\/([a-zA-Z0-9]+)/,
+	);
+	if (urlMatch?.[1]) {
+		return urlMatch[1];
+	}
+
+	return null;
+}
+
+/**
+ * Extracts the artist ID from a Spotify URL or URI
+ * Supports:
+ * - https://open.spotify.com/artist/0OdUWJ0sBjDrqHygGUXeCF
+ * - spotify:artist:0OdUWJ0sBjDrqHygGUXeCF
+ * @param url - The Spotify URL or URI to parse
+ * @returns The artist ID if found, null otherwise
+ */
+export function parseSpotifyArtistUrl(
+	url: string | null | undefined,
+): string | null {
+	if (!url) return null;
+
+	const trimmedUrl = url.trim();
+
+	const uriMatch = trimmedUrl.match(/spotify:artist:([a-zA-Z0-9]+)/);
+	if (uriMatch?.[1]) {
+		return uriMatch[1];
+	}
+
+	const urlMatch = trimmedUrl.match(
+		/(?:https?:\/\/)?(?:open\.)?spotify\.com\/artist\/([a-zA-Z0-9]+)/,
+	);
+	if (urlMatch?.[1]) {
+		return urlMatch[1];
+	}
+
+	return null;
+}
+
+/**
+ * Extracts a Spotify short link produced by the mobile apps' share sheet
+ * Supports:
+ * - https://spotify.link/AbCdEfGhIj
+ * - https://spoti.fi/3xYzAbC
+ * @param url - The Spotify short link to parse
+ * @returns A `short:{host}/{code}` identifier if found, null otherwise
+ */
+export function parseSpotifyShortUrl(
+	url: string | null | undefined,
+): string | null {
+	if (!url) return null;
+
+	// Remove whitespace
+	const trimmedUrl = url.trim();
+
+	const shortMatch = trimmedUrl.match(
+		/(?:https?:\/\/)?(spotify\.link|spoti\.fi)\/([a-zA-Z0-9_-]+)/,
+	);
+	if (shortMatch?.[1] && shortMatch[2]) {
+		return `short:${shortMatch[1]}/${shortMatch[2]}`;
+	}
+
+	return null;
+}
+
 /**
  * Extracts the track ID from a YouTube Music URL
  * Supports:
@@ -120,9 +213,9 @@ export function parseYouTubeMusicAlbumUrl(
 
 	const trimmedUrl = url.trim();
 
-	// Handle YouTube Music playlist/album URLs
+	// Albums are audio playlists, whose IDs start with OLAK5uy_
 	const albumUrlMatch = trimmedUrl.match(
-		/(?:https?:\/\/)?(?:music\.)?youtube\.com\/playlist\?list=([a-zA-Z0-9_-]+)/,
+		/(?:https?:\/\/)?(?:music\.|www\.|m\.)?youtube\.com\/playlist\?(?:[^#]*&)?list=(OLAK5uy_[a-zA-Z0-9_-]+)/,
 	);
 	if (albumUrlMatch?.[1]) {
 		return albumUrlMatch[1];
@@ -131,6 +224,63 @@ export function parseYouTubeMusicAlbumUrl(
 	return null;
 }
 
+/**
+ * Extracts the playlist ID from a YouTube or YouTube Music playlist URL
+ * Supports:
+ * - https://music.youtube.com/playlist?list=PLx0sYbCqOb8TBPRdmBHs5Iftvv9TPboYG
+ * - https://www.youtube.com/playlist?list=PLx0sYbCqOb8TBPRdmBHs5Iftvv9TPboYG
+ * - https://m.youtube.com/playlist?list=PLx0sYbCqOb8TBPRdmBHs5Iftvv9TPboYG
+ * Albums (OLAK5uy_...) and generated mixes (RD...) are not playlists.
+ * @param url - The YouTube URL to parse
+ * @returns The playlist ID if found, null otherwise
+ */
+export function parseYouTubePlaylistUrl(
+	url: string | null | undefined,
+): string | null {
+	if (!url) return null;
+
+	const trimmedUrl = url.trim();
+
+	const playlistUrlMatch = trimmedUrl.match(
+		/(?:https?:\/\/)?(?:music\.|www\.|m\.)?youtube\.com\/playlist\?(?:[^#]*&)?list=([a-zA-Z0-9_-]+)/,
+	);
+	const playlistId = playlistUrlMatch?.[1];
+	if (
+		playlistId &&
+		!playlistId.startsWith('OLAK5uy_') &&
+		!playlistId.startsWith('RD')
+	) {
+		return playlistId;
+	}
+
+	return null;
+}
+
+/**
+ * Extracts the artist channel ID from a YouTube or YouTube Music URL
+ * Supports:
+ * - https://music.youtube.com/channel/UCqECaJ8Gagnn7YCbPEzWH6g
+ * - https://www.youtube.com/channel/UCqECaJ8Gagnn7YCbPEzWH6g
+ * @param url - The YouTube URL to parse
+ * @returns The channel ID if found, null otherwise
+ */
+export function parseYouTubeMusicArtistUrl(
+	url: string | null | undefined,
+): string | null {
+	if (!url) return null;
+
+	const trimmedUrl = url.trim();
+
+	const channelUrlMatch = trimmedUrl.match(
+		/(?:https?:\/\/)?(?:music\.|www\.|m\.)?youtube\.com\/channel\/(UC[a-zA-Z0-9_-]+)/,
+	);
+	if (channelUrlMatch?.[1]) {
+		return channelUrlMatch[1];
+	}
+
+	return null;
+}
+
 /**
  * Extracts the track ID from a Deezer URL
  * Supports:
@@ -167,6 +317,97 @@ export function parseDeezerUrl(url: string | null | undefined): string | null {
 	return null;
 }
 
+/**
+ * Extracts the album ID from a Deezer URL
+ * Supports:
+ * - https://www.deezer.com/album/302127
+ * - https://www.deezer.com/en/album/302127
+ * @param url - The Deezer URL to parse
+ * @returns The album ID if found, null otherwise
+ */
+export function parseDeezerAlbumUrl(
+	url: string | null | undefined,
+): string | null {
+	if (!url) return null;
+
+	const trimmedUrl = url.trim();
+
+	// Matches: deezer.com/album/{id} or deezer.com/{lang}/album/{id}
+	const albumUrlMatch = trimmedUrl.match(
+		/(?:https?:\/\/)?(?:www\.)?deezer\.com(?:\/[a-z]{2})?\/album\/(\d+)/,
+	);
+	if (albumUrlMatch?.[1]) {
+		return albumUrlMatch[1];
+	}
+
+	return null;
+}
+
+/**
+ * Extracts the playlist ID from a Deezer URL
+ * Supports:
+ * - https://www.deezer.com/playlist/908622995
+ * - https://www.deezer.com/en/playlist/908622995
+ * @param url - The Deezer URL to parse
+ * @returns The playlist ID if found, null otherwise
+ */
+export function parseDeezerPlaylistUrl(
+	url: string | null | undefined,
+): string | null {
+	if (!url) return null;
+
+	const trimmedUrl = url.trim();
+
+	// Matches: deezer.com/playlist/{id} or deezer.com/{lang}/playlist/{id}
+	const playlistUrlMatch = trimmedUrl.match(
+		/(?:https?:\/\/)?(?:www\.)?deezer\.com(?:\/[a-z]{2})?\/playlist\/(\d+)/,
+	);
+	if (playlistUrlMatch?.[1]) {
+		return playlistUrlMatch[1];
+	}
+
+	return null;
+}
+
+/**
+ * Extracts the artist ID from a Deezer URL
+ * Supports:
+ * - https://www.deezer.com/artist/27
+ * - https://www.deezer.com/en/artist/27
+ * @param url - The Deezer URL to parse
+ * @returns The artist ID if found, null otherwise
+ */
+export function parseDeezerArtistUrl(
+	url: string | null | undefined,
+): string | null {
+	if (!url) return null;
+
+	const trimmedUrl = url.trim();
+
+	// Matches: deezer.com/artist/{id} or deezer.com/{lang}/artist/{id}
+	const artistUrlMatch = trimmedUrl.match(
+		/(?:https?:\/\/)?(?:www\.)?deezer\.com(?:\/[a-z]{2})?\/artist\/(\d+)/,
+	);
+	if (artistUrlMatch?.[1]) {
+		return artistUrlMatch[1];
+	}
+
+	return null;
+}
+
+/**
+ * Extracts the artist ID of an artist page URL from any supported platform
+ * @param url - The URL to parse
+ * @returns The artist ID if the URL is an artist page, null otherwise
+ */
+export function parseArtistUrl(url: string | null | undefined): string | null {
+	return (
+		parseSpotifyArtistUrl(url) ??
+		parseDeezerArtistUrl(url) ??
+		parseYouTubeMusicArtistUrl(url)
+	);
+}
+
 /**
  * Detects which platform a URL belongs to
  * @param url - The URL to detect
@@ -178,8 +419,17 @@ export function detectPlatform(url: string | null | undefined): PlatformType {
 	const trimmedUrl = url.trim();
 
 	// Check Spotify
-	if (trimmedUrl.includes('spotify.com') || trimmedUrl.startsWith('spotify:')) {
-		return parseSpotifyUrl(trimmedUrl) || parseSpotifyAlbumUrl(trimmedUrl)
+	if (
+		trimmedUrl.includes('spotify.com') ||
+		trimmedUrl.includes('spotify.link') ||
+		trimmedUrl.includes('spoti.fi') ||
+		trimmedUrl.startsWith('spotify:')
+	) {
+		return parseSpotifyUrl(trimmedUrl) ||
+			parseSpotifyAlbumUrl(trimmedUrl) ||
+			parseSpotifyPlaylistUrl(trimmedUrl) ||
+			parseSpotifyArtistUrl(trimmedUrl) ||
+			parseSpotifyShortUrl(trimmedUrl)
 			? 'spotify'
 			: null;
 	}
@@ -189,7 +439,12 @@ export function detectPlatform(url: string | null | undefined): PlatformType {
 		trimmedUrl.includes('deezer.com') ||
 		trimmedUrl.includes('link.deezer.com')
 	) {
-		return parseDeezerUrl(trimmedUrl) ? 'deezer' : null;
+		return parseDeezerUrl(trimmedUrl) ||
+			parseDeezerAlbumUrl(trimmedUrl) ||
+			parseDeezerPlaylistUrl(trimmedUrl) ||
+			parseDeezerArtistUrl(trimmedUrl)
+			? 'deezer'
+			: null;
 	}
 
 	// Check YouTube Music
@@ -198,7 +453,9 @@ export function detectPlatform(url: string | null | undefined): PlatformType {
 		trimmedUrl.includes('music.youtube.com')
 	) {
 		return parseYouTubeMusicUrl(trimmedUrl) ||
-			parseYouTubeMusicAlbumUrl(trimmedUrl)
+			parseYouTubeMusicAlbumUrl(trimmedUrl) ||
+			parseYouTubePlaylistUrl(trimmedUrl) ||
+			parseYouTubeMusicArtistUrl(trimmedUrl)
 			? 'youtubeMusic'
 			: null;
 	}
@@ -212,7 +469,13 @@ export function detectPlatform(url: string | null | undefined): PlatformType {
  * @returns True if the URL is valid, false otherwise
  */
 export function isValidSpotifyUrl(url: string | null | undefined): boolean {
-	return parseSpotifyUrl(url) !== null || parseSpotifyAlbumUrl(url) !== null;
+	return (
+		parseSpotifyUrl(url) !== null ||
+		parseSpotifyAlbumUrl(url) !== null ||
+		parseSpotifyPlaylistUrl(url) !== null ||
+		parseSpotifyArtistUrl(url) !== null ||
+		parseSpotifyShortUrl(url) !== null
+	);
 }
 
 /**
@@ -221,7 +484,12 @@ export function isValidSpotifyUrl(url: string | null | undefined): boolean {
  * @returns True if the URL is valid, false otherwise
  */
 export function isValidDeezerUrl(url: string | null | undefined): boolean {
-	return parseDeezerUrl(url) !== null;
+	return (
+		parseDeezerUrl(url) !== null ||
+		parseDeezerAlbumUrl(url) !== null ||
+		parseDeezerPlaylistUrl(url) !== null ||
+		parseDeezerArtistUrl(url) !== null
+	);
 }
 
 /**
@@ -234,7 +502,9 @@ export function isValidYouTubeMusicUrl(
 ): boolean {
 	return (
 		parseYouTubeMusicUrl(url) !== null ||
-		parseYouTubeMusicAlbumUrl(url) !== null
+		parseYouTubeMusicAlbumUrl(url) !== null ||
+		parseYouTubePlaylistUrl(url) !== null ||
+		parseYouTubeMusicArtistUrl(url) !== null
 	);
 }
 
@@ -0,0 +1,183 @@
+import type { TrackVersion } from '../types/matching.types';
+import {
+	calculateSimilarity,
+	DASH_SEPARATOR,
+	foldText,
+	getTitleFragments,
+} from './textNormalization';
+
+/**
+ * Track version parsing ("Song (Live at Wembley)", "Song - 2011 Remaster"...)
+ *
+ * Version tags only count inside parentheses, brackets or after a " - "
+ * separator, so titles like "Live Forever" or "Remix to Ignition" are not
+ * mistaken for versions.
+ */
+
+const PATTERNS = {
+	live: /\b(live|en vivo|en directo|ao vivo|en concert)\b/,
+	acoustic: /\b(acoustic|unplugged|acustico|acoustique)\b/,
+	instrumental: /\b(instrumental|karaoke|backing track)\b/,
+	remaster: /\bremaster(ed)?\b/,
+	radioEdit: /\bradio (edit|version|mix|cut)\b/,
+	extendedMix: /\bextended( (mix|version|edit))?\b|\bclub mix\b/,
+	spedUp: /\b(sped up|speed up|nightcore)\b/,
+	remix: /\b(remix|rmx|mix|bootleg|rework|vip)\b/,
+};
+
+/** Mixes that describe the original recording rather than a remix */
+const NON_REMIX_MIXES =
+	/\b(original|album|single|radio|extended|club|stereo|mono) mix\b/;
+
+const YEAR = /\b(19|20)\d{2}\b/;
+
+/**
+ * Read the remixer credited in a fragment ("Calvin Harris Remix" → "Calvin Harris")
+ */
+function readRemixer(fragment: string): string | undefined {
+	const remixer = fragment
+		.replace(/\b(remix|rmx|mix|bootleg|rework|vip)\b.*$/i, '')
+		.replace(/^(feat\.?|ft\.?|with)\s.*$/i, '')
+		.trim();
+	return remixer || undefined;
+}
+
+/**
+ * Parse version attributes from a track title
+ * @param title - Track title as returned by the platform
+ * @returns Detected version attributes (empty object for a plain studio version)
+ */
+export function parseTrackVersion(title: string): TrackVersion {
+	if (!title || typeof title !== 'string') {
+		return {};
+	}
+	return parseFragments(getTitleFragments(title));
+}
+
+/**
+ * Collect version attributes from title fragments
+ */
+function parseFragments(rawFragments: string[]): TrackVersion {
+	const version: TrackVersion = {};
+
+	for (const rawFragment of rawFragments) {
+		const fragment = foldText(rawFragment);
+		if (!fragment) continue;
+
+		if (PATTERNS.live.test(fragment)) version.live = true;
+		if (PATTERNS.acoustic.test(fragment)) version.acoustic = true;
+		if (PATTERNS.instrumental.test(fragment)) version.instrumental = true;
+		if (PATTERNS.radioEdit.test(fragment)) version.radioEdit = true;
+		if (PATTERNS.extendedMix.test(fragment)) version.extendedMix = true;
+		if (PATTERNS.spedUp.test(fragment)) version.spedUp = true;
+
+		if (PATTERNS.remaster.test(fragment)) {
+			version.remastered = true;
+			const year = fragment.match(YEAR);
+			if (year) {
+				version.remasterYear = Number.parseInt(year[0], 10);
+			}
+		}
+
+		if (
+			PATTERNS.remix.test(fragment) &&
+			!NON_REMIX_MIXES.test(fragment) &&
+			!PATTERNS.radioEdit.test(fragment) &&
+			!PATTERNS.extendedMix.test(fragment)
+		) {
+			version.remix = true;
+			version.remixer ??= readRemixer(rawFragment);
+		}
+	}
+
+	return version;
+}
+
+/**
+ * Remove " - " suffixes that only carry version tags, so the base titles can be
+ * compared on their own ("Song - 2011 Remaster" → "Song")
+ * @param title - Track title
+ * @returns Title without version suffixes
+ */
+export function stripVersionSuffix(title: string): string {
+	if (!title || typeof title !== 'string') {
+		return '';
+	}
+
+	const [base, ...suffixes] = title.split(DASH_SEPARATOR);
+	const kept = suffixes.filter(
+		(suffix) => !hasVersion(parseFragments([suffix])),
+	);
+	return [base, ...kept].join(' - ');
+}
+
+/**
+ * Check whether any version attribute was detected
+ */
+export function hasVersion(version: TrackVersion | undefined): boolean {
+	return !!version && Object.values(version).some(Boolean);
+}
+
+/**
+ * Version flags with their score impact: `bonus` when both sides agree, `penalty`
+ * when only one side has it. Flags that change the recording itself weigh more
+ * than edits of the same recording.
+ */
+const VERSION_WEIGHTS: Array<{
+	key:
+		| 'live'
+		| 'acoustic'
+		| 'instrumental'
+		| 'remix'
+		| 'spedUp'
+		| 'radioEdit'
+		| 'extendedMix';
+	bonus: number;
+	penalty: number;
+}> = [
+	{ key: 'live', bonus: 5, penalty: 20 },
+	{ key: 'acoustic', bonus: 5, penalty: 20 },
+	{ key: 'instrumental', bonus: 5, penalty: 25 },
+	{ key: 'remix', bonus: 5, penalty: 20 },
+	{ key: 'spedUp', bonus: 5, penalty: 25 },
+	{ key: 'radioEdit', bonus: 3, penalty: 5 },
+	{ key: 'extendedMix', bonus: 3, penalty: 8 },
+];
+
+/**
+ * Score how well two versions agree
+ * @param source - Version parsed from the source title
+ * @param candidate - Version parsed from the candidate title
+ * @returns Score adjustment: positive for matching versions, negative for mismatches
+ */
+export function compareVersions(
+	source: TrackVersion,
+	candidate: TrackVersion,
+): number {
+	let adjustment = 0;
+
+	for (const { key, bonus, penalty } of VERSION_WEIGHTS) {
+		if (source[key] && candidate[key]) {
+			adjustment += bonus;
+		} else if (source[key] !== candidate[key]) {
+			adjustment -= penalty;
+		}
+	}
+
+	// Same remix by a different remixer is a different recording
+	if (source.remixer && candidate.remixer) {
+		adjustment +=
+			calculateSimilarity(source.remixer, candidate.remixer) >= 80 ? 10 : -15;
+	}
+
+	// Remasters are the same performance, so mismatches only cost a little
+	if (source.remastered && candidate.remastered) {
+		if (source.remasterYear && candidate.remasterYear) {
+			adjustment += source.remasterYear === candidate.remasterYear ? 3 : -3;
+		}
+	} else if (source.remastered !== candidate.remastered) {
+		adjustment -= 2;
+	}
+
+	return adjustment;
+}
@@ -0,0 +1,636 @@
+import type {
+	YouTubeMusicArtistItem,
+	YouTubeMusicArtistPage,
+	YouTubeMusicCollectionHeader,
+	YouTubeMusicCollectionPage,
+	YouTubeMusicSongItem,
+	YouTubeMusicVideoType,
+} from '../types/youtubeMusic.types';
+
+/**
+ * Extraction of songs from YouTube Music's InnerTube responses
+ *
+ * InnerTube answers with deeply nested renderer trees meant for the web
+ * player. Songs are `musicResponsiveListItemRenderer` rows: the first flex
+ * column holds the title (linked to the video), the second one the artists,
+ * album and duration as runs separated by " • ". The watch page combines the
+ * `player` response (video details) with the `next` response, whose queue
+ * lists the current song with the same byline. Playlist and album pages
+ * (`browse`) have a header followed by song rows, delivered in pages linked by
+ * continuation tokens. Artist pages (`browse` of a channel ID) have a "Top
+ * songs" shelf of song rows and carousels of albums and singles.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+const DURATION_PATTERN = /^\d{1,2}(:\d{2}){1,2}$/;
+const YEAR_PATTERN = /^\d{4}$/;
+const RUN_SEPARATOR = ' • ';
+
+const ARTIST_PAGE_TYPES = [
+	'MUSIC_PAGE_TYPE_ARTIST',
+	'MUSIC_PAGE_TYPE_USER_CHANNEL',
+];
+const ALBUM_PAGE_TYPE = 'MUSIC_PAGE_TYPE_ALBUM';
+
+/** Second-column labels of the row type rather than of the song */
+const ROW_TYPE_LABELS = ['song', 'video', 'episode'];
+
+const VIDEO_TYPES: Record<string, YouTubeMusicVideoType> = {
+	MUSIC_VIDEO_TYPE_ATV: 'audioTrack',
+	MUSIC_VIDEO_TYPE_OMV: 'musicVideo',
+	MUSIC_VIDEO_TYPE_UGC: 'userUpload',
+	MUSIC_VIDEO_TYPE_OFFICIAL_SOURCE_MUSIC: 'musicVideo',
+	MUSIC_VIDEO_TYPE_PODCAST_EPISODE: 'podcastEpisode',
+};
+
+function isObject(value: unknown): value is JsonObject {
+	return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asString(value: unknown): string | undefined {
+	return typeof value === 'string' && value.trim() !== ''
+		? value.trim()
+		: undefined;
+}
+
+/**
+ * Follow a path of keys and array indexes through nested objects
+ */
+function dig(root: unknown, ...path: Array<string | number>): unknown {
+	let node = root;
+	for (const key of path) {
+		if (typeof key === 'number') {
+			if (!Array.isArray(node)) return undefined;
+			node = node[key];
+		} else {
+			if (!isObject(node)) return undefined;
+			node = node[key];
+		}
+	}
+	return node;
+}
+
+/**
+ * Depth-first search for every object stored under a given key
+ */
+export function collectRenderers(
+	root: unknown,
+	key: string,
+	maxDepth = 20,
+): JsonObject[] {
+	const found: JsonObject[] = [];
+	const visit = (node: unknown, depth: number) => {
+		if (depth < 0) return;
+		if (Array.isArray(node)) {
+			for (const item of node) visit(item, depth - 1);
+			return;
+		}
+		if (!isObject(node)) return;
+		for (const [childKey, value] of Object.entries(node)) {
+			if (childKey === key && isObject(value)) {
+				found.push(value);
+			} else {
+				visit(value, depth - 1);
+			}
+		}
+	};
+	visit(root, maxDepth);
+	return found;
+}
+
+interface TextRun {
+	text: string;
+	pageType?: string;
+	browseId?: string;
+	videoId?: string;
+	musicVideoType?: string;
+}
+
+/**
+ * Read the runs of a formatted InnerTube text (`{ runs: [{ text }] }`)
+ */
+export function readRuns(value: unknown): TextRun[] {
+	const runs = dig(value, 'runs');
+	if (!Array.isArray(runs)) {
+		const simpleText = asString(dig(value, 'simpleText'));
+		return simpleText ? [{ text: simpleText }] : [];
+	}
+
+	return runs.filter(isObject).map((run) => ({
+		text: typeof run.text === 'string' ? run.text : '',
+		pageType: asString(
+			dig(
+				run,
+				'navigationEndpoint',
+				'browseEndpoint',
+				'browseEndpointContextSupportedConfigs',
+				'browseEndpointContextMusicConfig',
+				'pageType',
+			),
+		),
+		browseId: asString(
+			dig(run, 'navigationEndpoint', 'browseEndpoint', 'browseId'),
+		),
+		videoId: asString(
+			dig(run, 'navigationEndpoint', 'watchEndpoint', 'videoId'),
+		),
+		musicVideoType: readMusicVideoType(dig(run, 'navigationEndpoint')),
+	}));
+}
+
+/**
+ * Read the `musicVideoType` of a watch endpoint
+ */
+function readMusicVideoType(endpoint: unknown): string | undefined {
+	return asString(
+		dig(
+			endpoint,
+			'watchEndpoint',
+			'watchEndpointMusicSupportedConfigs',
+			'watchEndpointMusicConfig',
+			'musicVideoType',
+		),
+	);
+}
+
+/**
+ * Map an InnerTube `musicVideoType` to a video type
+ */
+export function toVideoType(
+	musicVideoType: string | undefined,
+): YouTubeMusicVideoType | undefined {
+	return musicVideoType ? VIDEO_TYPES[musicVideoType] : undefined;
+}
+
+/**
+ * Join the runs of a formatted text into a plain string
+ */
+export function readText(value: unknown): string | undefined {
+	return asString(
+		readRuns(value)
+			.map((run) => run.text)
+			.join(''),
+	);
+}
+
+/**
+ * Parse a "3:45" or "1:02:03" duration
+ * @returns Duration in milliseconds, or undefined for other text
+ */
+export function parseDurationText(
+	text: string | undefined,
+): number | undefined {
+	const trimmed = text?.trim();
+	if (!trimmed || !DURATION_PATTERN.test(trimmed)) {
+		return undefined;
+	}
+	const seconds = trimmed
+		.split(':')
+		.reduce((total, part) => total * 60 + Number.parseInt(part, 10), 0);
+	return seconds * 1000;
+}
+
+/**
+ * Read the largest thumbnail of a renderer
+ */
+export function readThumbnail(renderer: JsonObject): string | undefined {
+	const thumbnails =
+		dig(
+			renderer,
+			'thumbnail',
+			'musicThumbnailRenderer',
+			'thumbnail',
+			'thumbnails',
+		) ??
+		dig(
+			renderer,
+			'thumbnail',
+			'croppedSquareThumbnailRenderer',
+			'thumbnail',
+			'thumbnails',
+		) ??
+		dig(renderer, 'thumbnail', 'thumbnails');
+	if (!Array.isArray(thumbnails)) return undefined;
+	const last = thumbnails.filter(isObject).at(-1);
+	return asString(last?.url);
+}
+
+/**
+ * Check whether a renderer carries the explicit badge
+ */
+export function hasExplicitBadge(renderer: JsonObject): boolean {
+	const badges = renderer.badges ?? renderer.subtitleBadges;
+	return (
+		Array.isArray(badges) &&
+		badges.some(
+			(badge) =>
+				dig(badge, 'musicInlineBadgeRenderer', 'icon', 'iconType') ===
+				'MUSIC_EXPLICIT_BADGE',
+		)
+	);
+}
+
+/**
+ * Split runs into the groups separated by " • "
+ */
+function splitRunGroups(runs: TextRun[]): TextRun[][] {
+	const groups: TextRun[][] = [[]];
+	for (const run of runs) {
+		if (run.text === RUN_SEPARATOR) {
+			groups.push([]);
+		} else {
+			groups.at(-1)?.push(run);
+		}
+	}
+	return groups.filter((group) => group.length > 0);
+}
+
+/**
+ * Read the artist names of a run group, skipping the ", " and " & " runs
+ * between them
+ */
+function readArtistRuns(group: TextRun[]): string[] {
+	const linked = group.filter(
+		(run) => run.pageType && ARTIST_PAGE_TYPES.includes(run.pageType),
+	);
+	const runs = linked.length > 0 ? linked : group;
+	return runs
+		.map((run) => run.text.trim())
+		.filter((text) => text && text !== ',' && text !== '&');
+}
+
+/**
+ * Read the artists, album and year of a song byline
+ * ("Artist • Album • 2019", "Artist • 1.2B views • 5.6M likes")
+ */
+function readByline(groups: TextRun[][]): {
+	artists: string[];
+	album?: TextRun;
+	year?: string;
+} {
+	const runs = groups.flat();
+	const artistGroup =
+		groups.find((group) =>
+			group.some(
+				(run) => run.pageType && ARTIST_PAGE_TYPES.includes(run.pageType),
+			),
+		) ?? groups[0];
+	return {
+		artists: artistGroup ? readArtistRuns(artistGroup) : [],
+		album: runs.find((run) => run.pageType === ALBUM_PAGE_TYPE),
+		// Album titles such as "1989" are linked; the release year isn't
+		year: runs
+			.find((run) => !run.pageType && YEAR_PATTERN.test(run.text.trim()))
+			?.text.trim(),
+	};
+}
+
+/**
+ * Read a song row (`musicResponsiveListItemRenderer`)
+ * @param renderer - The row renderer
+ * @returns Song, or undefined for rows that aren't playable songs
+ */
+export function parseSongItem(
+	renderer: JsonObject,
+): YouTubeMusicSongItem | undefined {
+	const columns = Array.isArray(renderer.flexColumns)
+		? renderer.flexColumns.map((column) =>
+				readRuns(
+					dig(column, 'musicResponsiveListItemFlexColumnRenderer', 'text'),
+				),
+			)
+		: [];
+	const titleRuns = columns[0] ?? [];
+	const title = asString(titleRuns.map((run) => run.text).join(''));
+	const videoId =
+		asString(dig(renderer, 'playlistItemData', 'videoId')) ??
+		titleRuns.find((run) => run.videoId)?.videoId;
+	if (!title || !videoId) {
+		return undefined;
+	}
+
+	const detailRuns = columns.slice(1).flat();
+	const groups = splitRunGroups(detailRuns);
+	// Unfiltered searches start the details with the row type ("Song • ...")
+	if (
+		groups[0]?.length === 1 &&
+		ROW_TYPE_LABELS.includes(groups[0][0]?.text.trim().toLowerCase() ?? '')
+	) {
+		groups.shift();
+	}
+
+	const { artists, album, year } = readByline(groups);
+	const durationText =
+		readText(
+			dig(
+				renderer,
+				'fixedColumns',
+				0,
+				'musicResponsiveListItemFixedColumnRenderer',
+				'text',
+			),
+		) ?? detailRuns.find((run) => DURATION_PATTERN.test(run.text.trim()))?.text;
+	const musicVideoType =
+		titleRuns.find((run) => run.musicVideoType)?.musicVideoType ??
+		readMusicVideoType(
+			dig(
+				renderer,
+				'overlay',
+				'musicItemThumbnailOverlayRenderer',
+				'content',
+				'musicPlayButtonRenderer',
+				'playNavigationEndpoint',
+			),
+		);
+
+	return {
+		videoId,
+		title,
+		artists,
+		album: album?.text.trim(),
+		albumBrowseId: album?.browseId,
+		durationMs: parseDurationText(durationText),
+		thumbnail: readThumbnail(renderer),
+		explicit: hasExplicitBadge(renderer) || undefined,
+		videoType: toVideoType(musicVideoType),
+		year,
+	};
+}
+
+/**
+ * Read the songs of an InnerTube search response
+ * @param response - Response of `youtubei/v1/search`
+ * @returns Songs in result order, without duplicates
+ */
+export function parseSearchSongs(response: unknown): YouTubeMusicSongItem[] {
+	const songs = new Map<string, YouTubeMusicSongItem>();
+	for (const renderer of collectRenderers(
+		response,
+		'musicResponsiveListItemRenderer',
+	)) {
+		const song = parseSongItem(renderer);
+		if (song && !songs.has(song.videoId)) {
+			songs.set(song.videoId, song);
+		}
+	}
+	return [...songs.values()];
+}
+
+/**
+ * Read the song of a watch page from its `player` and `next` responses
+ *
+ * The queue entry of `next` has the song title and a byline with the real
+ * artists and album. The `player` video details fill the gaps, though their
+ * `author` is the uploading channel.
+ *
+ * @param videoId - The video ID
+ * @param player - Response of `youtubei/v1/player`, if it succeeded
+ * @param next - Response of `youtubei/v1/next`, if it succeeded
+ * @returns Song, or undefined when neither response describes the video
+ */
+export function parseWatchSong(
+	videoId: string,
+	player: unknown,
+	next: unknown,
+): YouTubeMusicSongItem | undefined {
+	const details = dig(player, 'videoDetails');
+	const videoDetails =
+		isObject(details) && details.videoId === videoId ? details : undefined;
+	const queueEntry = collectRenderers(next, 'playlistPanelVideoRenderer').find(
+		(renderer) => renderer.videoId === videoId,
+	);
+
+	const title = readText(queueEntry?.title) ?? asString(videoDetails?.title);
+	if (!title) {
+		return undefined;
+	}
+
+	const { artists, album, year } = readByline(
+		splitRunGroups(readRuns(queueEntry?.longBylineText)),
+	);
+	const author = asString(videoDetails?.author);
+	const lengthSeconds = Number(videoDetails?.lengthSeconds);
+
+	return {
+		videoId,
+		title,
+		artists: artists.length > 0 ? artists : author ? [author] : [],
+		album: album?.text.trim(),
+		albumBrowseId: album?.browseId,
+		durationMs:
+			parseDurationText(readText(queueEntry?.lengthText)) ??
+			(lengthSeconds > 0 ? lengthSeconds * 1000 : undefined),
+		thumbnail:
+			(videoDetails && readThumbnail(videoDetails)) ??
+			(queueEntry && readThumbnail(queueEntry)),
+		explicit: (queueEntry && hasExplicitBadge(queueEntry)) || undefined,
+		videoType: toVideoType(
+			asString(videoDetails?.musicVideoType) ??
+				readMusicVideoType(queueEntry?.navigationEndpoint),
+		),
+		year,
+	};
+}
+
+const GREYED_OUT = 'MUSIC_ITEM_RENDERER_DISPLAY_POLICY_GREY_OUT';
+
+/** Header renderers of playlist and album pages, newest layout first */
+const HEADER_RENDERERS = [
+	'musicResponsiveHeaderRenderer',
+	'musicDetailHeaderRenderer',
+	'musicImmersiveHeaderRenderer',
+];
+
+/**
+ * Read the header of a playlist or album page
+ */
+function parseCollectionHeader(
+	response: unknown,
+): YouTubeMusicCollectionHeader | undefined {
+	const renderer = HEADER_RENDERERS.map(
+		(key) => collectRenderers(response, key)[0],
+	).find(Boolean);
+	const title = readText(renderer?.title);
+	if (!renderer || !title) {
+		return undefined;
+	}
+
+	// The artists sit in their own line on the new layout, in the subtitle
+	// ("Album • Artist • 2019") on the old one
+	const strapline = readRuns(renderer.straplineTextOne);
+	const subtitleGroups = splitRunGroups(readRuns(renderer.subtitle));
+	const byline = readByline(
+		strapline.length > 0 ? [strapline] : subtitleGroups.slice(1),
+	);
+
+	return {
+		title,
+		artists: byline.artists,
+		year:
+			byline.year ??
+			subtitleGroups
+				.flat()
+				.find((run) => YEAR_PATTERN.test(run.text.trim()))
+				?.text.trim(),
+		thumbnail: readThumbnail(renderer),
+	};
+}
+
+/**
+ * Read the continuation token of a playlist or album page
+ */
+function readContinuation(response: unknown): string | undefined {
+	for (const renderer of collectRenderers(
+		response,
+		'continuationItemRenderer',
+	)) {
+		const token = asString(
+			dig(renderer, 'continuationEndpoint', 'continuationCommand', 'token'),
+		);
+		if (token) return token;
+	}
+	for (const data of collectRenderers(response, 'nextContinuationData')) {
+		const token = asString(data.continuation);
+		if (token) return token;
+	}
+	return undefined;
+}
+
+/**
+ * Read one page of a playlist or album
+ * @param response - Response of `youtubei/v1/browse`, or of one of its continuations
+ * @returns Header (first page only), playable songs, unavailable rows and the next page token
+ */
+export function parseCollectionPage(
+	response: unknown,
+): YouTubeMusicCollectionPage {
+	const songs: YouTubeMusicSongItem[] = [];
+	const unavailable: string[] = [];
+
+	for (const renderer of collectRenderers(
+		response,
+		'musicResponsiveListItemRenderer',
+	)) {
+		const song = parseSongItem(renderer);
+		if (song && renderer.musicItemRendererDisplayPolicy !== GREYED_OUT) {
+			songs.push(song);
+			continue;
+		}
+		// Deleted, private and blocked videos keep a greyed-out row, often
+		// without a video ID
+		const title = readText(
+			dig(
+				renderer,
+				'flexColumns',
+				0,
+				'musicResponsiveListItemFlexColumnRenderer',
+				'text',
+			),
+		);
+		if (title) {
+			unavailable.push(title);
+		}
+	}
+
+	return {
+		header: parseCollectionHeader(response),
+		songs,
+		unavailable,
+		continuation: readContinuation(response),
+	};
+}
+
+/** Header renderers of artist pages, newest layout first */
+const ARTIST_HEADER_RENDERERS = [
+	'musicImmersiveHeaderRenderer',
+	'musicVisualHeaderRenderer',
+];
+
+/**
+ * Read the artists of an InnerTube search response
+ * @param response - Response of `youtubei/v1/search` (artists filter)
+ * @returns Artists in YouTube Music's result order
+ */
+export function parseSearchArtists(
+	response: unknown,
+): YouTubeMusicArtistItem[] {
+	const artists = new Map<string, YouTubeMusicArtistItem>();
+	for (const renderer of collectRenderers(
+		response,
+		'musicResponsiveListItemRenderer',
+	)) {
+		const endpoint = dig(renderer, 'navigationEndpoint', 'browseEndpoint');
+		const browseId = asString(dig(endpoint, 'browseId'));
+		const pageType = asString(
+			dig(
+				endpoint,
+				'browseEndpointContextSupportedConfigs',
+				'browseEndpointContextMusicConfig',
+				'pageType',
+			),
+		);
+		const name = readText(
+			dig(
+				renderer,
+				'flexColumns',
+				0,
+				'musicResponsiveListItemFlexColumnRenderer',
+				'text',
+			),
+		);
+		if (
+			!browseId?.startsWith('UC') ||
+			!name ||
+			(pageType && pageType !== 'MUSIC_PAGE_TYPE_ARTIST') ||
+			artists.has(browseId)
+		) {
+			continue;
+		}
+		artists.set(browseId, {
+			browseId,
+			name,
+			thumbnail: readThumbnail(renderer),
+		});
+	}
+	return [...artists.values()];
+}
+
+/**
+ * Read an artist page
+ * @param response - Response of `youtubei/v1/browse` for the artist's channel ID
+ * @returns Artist name, top songs and album titles, or undefined without a header
+ */
+export function parseArtistPage(
+	response: unknown,
+): YouTubeMusicArtistPage | undefined {
+	const header = ARTIST_HEADER_RENDERERS.map(
+		(key) => collectRenderers(response, key)[0],
+	).find(Boolean);
+	const name = readText(header?.title);
+	if (!header || !name) {
+		return undefined;
+	}
+
+	// The first shelf of song rows is "Top songs"
+	const songShelf = collectRenderers(response, 'musicShelfRenderer')[0];
+	const topTracks = collectRenderers(
+		songShelf,
+		'musicResponsiveListItemRenderer',
+	)
+		.map((renderer) => parseSongItem(renderer)?.title)
+		.filter((title): title is string => !!title);
+
+	const albums = collectRenderers(response, 'musicTwoRowItemRenderer')
+		.map((renderer) => readRuns(renderer.title)[0])
+		.filter((run) => run?.pageType === ALBUM_PAGE_TYPE)
+		.map((run) => run?.text.trim() ?? '')
+		.filter(Boolean);
+
+	return {
+		name,
+		thumbnail: readThumbnail(header),
+		topTracks,
+		albums: [...new Set(albums)],
+	};
+}
@@ -0,0 +1,239 @@
+import {
+	readFeaturedArtists,
+	splitAmbiguousCredit,
+	splitArtistCredit,
+	stripFeaturing,
+} from './artistParser';
+import { BRACKETED_FRAGMENT, foldText } from './textNormalization';
+import { parseTrackVersion } from './versionParser';
+
+/**
+ * Artist and title extraction from YouTube video titles and channel names
+ *
+ * Videos outside the official audio tracks carry the artist in the title,
+ * following a few conventions: "Artist - Title (Official Video)",
+ * "Title | Artist", "Artist「Title」" or 'Artist "Title"'. Their channel is
+ * the artist's ("Artist - Topic", "ArtistVEVO", "Artist Official") or a
+ * re-uploader's, so the channel only stands in when the title names no
+ * artist.
+ */
+
+export interface ParsedYouTubeTitle {
+	/** Credited artists, main artist first */
+	artists: string[];
+	/** Song title, without video noise and featuring credits */
+	title: string;
+	/** Artists featured in the title ("feat. B") */
+	featuring: string[];
+}
+
+/**
+ * Separator between artist and title; video titles also use a tilde
+ * ("Artist ~ Song")
+ */
+const TITLE_SEPARATOR = /\s+[-–—~]\s+/;
+const PIPE_SEPARATOR = /\s*[|｜]\s*/;
+const JAPANESE_QUOTES = /^(.*?)\s*[「『]([^」』]+)[」』](.*)$/;
+const QUOTED_TITLE = /^(.+?)\s+["“«'‘]([^"”»]{2,}?)["”»'’](\s.*)?$/;
+const COLON_SEPARATOR = /\s*:\s+/;
+
+/**
+ * Video-only mentions, matched against whole bracketed or separated
+ * fragments once folded
+ */
+const VIDEO_NOISE =
+	/^(?:(?:the )?official|officiel|oficial|ufficiale|offizielles?)?\s*(?:hd |hq |4k )?(?:music |lyrics? |audio |visuali[sz]er |performance |dance |animated |live )?(?:video|videoclip|video clip|clip|clip officiel|video oficial|videoclipe oficial|musikvideo|audio|lyrics?|visuali[sz]er|mv|m v|teaser|trailer)?(?: (?:hd|hq|4k|8k|uhd|remastered|remaster|with lyrics|lyrics|official|ufficiale|officiel|oficial))*$/;
+const QUALITY_NOISE =
+	/^(?:hd|hq|4k|8k|uhd|1080p|720p|60fps|4k remaster(?:ed)?|remastered in (?:hd|4k)|full hd|explicit|clean|audio only|lyrics|with lyrics|letra|paroles|legendado|sub espanol|color coded lyrics)$/;
+
+/** Trailing mentions written without brackets ("Song Official Video", "Song HD") */
+const TRAILING_NOISE =
+	/\s+(?:official\s+(?:music\s+|lyric\s+)?video|official\s+audio|official\s+mv|music\s+video|lyric\s+video|m\/?v|hd|hq|4k)$/i;
+
+/** Suffixes of official and auto-generated artist channels */
+const CHANNEL_SUFFIX =
+	/(?:\s+-\s+topic|\s*vevo|\s+official(?:\s+channel)?|\s+-\s+official|\s*\(official\)|\s+music|\s+tv)$/i;
+
+/**
+ * Check whether a fragment is video noise rather than part of the song title
+ */
+function isNoise(fragment: string): boolean {
+	const folded = foldText(fragment);
+	return (
+		folded === '' || VIDEO_NOISE.test(folded) || QUALITY_NOISE.test(folded)
+	);
+}
+
+/**
+ * Remove the bracketed and trailing video noise of a title
+ * ("Song (Official Video) [HD]" → "Song")
+ */
+export function stripVideoNoise(title: string): string {
+	if (!title || typeof title !== 'string') {
+		return '';
+	}
+
+	let cleaned = title
+		.replace(BRACKETED_FRAGMENT, (fragment, content: string) =>
+			isNoise(content) ? '' : fragment,
+		)
+		.split(PIPE_SEPARATOR)
+		.filter((part, index) => index === 0 || !isNoise(part))
+		.join(' | ')
+		.trim();
+
+	let previous: string;
+	do {
+		previous = cleaned;
+		cleaned = cleaned.replace(TRAILING_NOISE, '').trim();
+	} while (cleaned !== previous);
+
+	return cleaned.replace(/\s{2,}/g, ' ').trim();
+}
+
+/**
+ * Read the artist of an artist channel name
+ * ("Artist - Topic", "ArtistVEVO", "Artist Official")
+ * @param channel - Channel name
+ * @returns Artist name; channels without a known suffix are returned as-is
+ */
+export function parseChannelName(channel: string): string {
+	if (!channel || typeof channel !== 'string') {
+		return '';
+	}
+
+	const trimmed = channel.trim();
+	const artist = trimmed.replace(CHANNEL_SUFFIX, '').trim();
+	if (!artist) {
+		return trimmed;
+	}
+	// VEVO channel names run the words together ("TaylorSwiftVEVO")
+	return /vevo$/i.test(trimmed) && !/\s/.test(artist)
+		? artist.replace(/([a-z])([A-Z])/g, '$1 $2')
+		: artist;
+}
+
+/**
+ * Check whether the part after a dash is a version of the song
+ * ("Song - Live at Wembley", "Song - Remastered 2011") rather than the title
+ */
+function isVersionPart(part: string): boolean {
+	const unbracketed = part.replace(BRACKETED_FRAGMENT, '').trim();
+	return Object.values(parseTrackVersion(`Song (${unbracketed})`)).some(
+		Boolean,
+	);
+}
+
+/**
+ * Split a cleaned title into its artist and song parts
+ * @returns Artist part (undefined when the title names none) and song part
+ */
+function splitTitle(
+	title: string,
+	channelArtist: string,
+): { artist?: string; song: string } {
+	const japanese = title.match(JAPANESE_QUOTES);
+	if (japanese?.[2]) {
+		const artist = japanese[1]?.trim();
+		const rest = japanese[3]?.trim() ?? '';
+		return {
+			artist: artist || undefined,
+			song: isNoise(rest) ? japanese[2] : `${japanese[2]} ${rest}`,
+		};
+	}
+
+	const dashParts = title.split(TITLE_SEPARATOR);
+	if (dashParts.length > 1) {
+		const [first = '', ...rest] = dashParts;
+		// Whatever follows a pipe is an album or a promotion ("Song | Album")
+		const second = rest.join(' - ').split(PIPE_SEPARATOR)[0] ?? '';
+		if (!isVersionPart(rest[0] ?? '')) {
+			// "Title - Artist" happens when the channel is the artist
+			if (
+				channelArtist &&
+				foldText(second) === foldText(channelArtist) &&
+				foldText(first) !== foldText(channelArtist)
+			) {
+				return { artist: second, song: first };
+			}
+			return { artist: first, song: second };
+		}
+	}
+
+	const quoted = title.match(QUOTED_TITLE);
+	if (quoted?.[1] && quoted[2]) {
+		return {
+			artist: quoted[1].trim(),
+			song: `${quoted[2]}${quoted[3] ?? ''}`.trim(),
+		};
+	}
+
+	// "Artist: Title", only trusted when the channel confirms the artist
+	const [beforeColon = '', ...afterColon] = title.split(COLON_SEPARATOR);
+	if (
+		afterColon.length > 0 &&
+		channelArtist &&
+		foldText(beforeColon) === foldText(channelArtist)
+	) {
+		return { artist: beforeColon, song: afterColon.join(': ') };
+	}
+
+	const pipeParts = title.split(PIPE_SEPARATOR);
+	if (pipeParts.length > 1 && pipeParts[0] && pipeParts[1]) {
+		return { artist: pipeParts[1], song: pipeParts[0] };
+	}
+
+	return { song: title };
+}
+
+/**
+ * Split the artist part of a title into artists
+ *
+ * Commas, slashes and ampersands split the main credit too ("Calvin Harris,
+ * Dua Lipa"), unless the channel carries the whole name as one act
+ * ("Earth, Wind & Fire", "AC/DC" on acdcVEVO).
+ */
+function splitTitleCredit(credit: string, channelArtist: string): string[] {
+	const compact = (name: string) => foldText(name).replace(/\s+/g, '');
+	const [main = '', ...featured] = splitArtistCredit(credit);
+	const isChannelAct =
+		!!channelArtist && compact(main) === compact(channelArtist);
+	return [...(isChannelAct ? [main] : splitAmbiguousCredit(main)), ...featured];
+}
+
+/**
+ * Parse the artist and song title of a YouTube video
+ * @param title - Video title ("Artist - Song (feat. B) [Official Video]")
+ * @param channel - Name of the uploading channel, used when the title names no artist
+ * @returns Artists, song title and featured artists
+ */
+export function parseYouTubeTitle(
+	title: string,
+	channel = '',
+): ParsedYouTubeTitle {
+	const channelArtist = parseChannelName(channel);
+	const cleaned = stripVideoNoise(title ?? '');
+	const { artist, song } = splitTitle(cleaned, channelArtist);
+
+	// Noise can also sit inside the song part ("Artist - Song [Official Video]")
+	const songTitle = stripVideoNoise(song)
+		.replace(/^["“'«]+|["”'»]+$/g, '')
+		.trim();
+	// Aliases in another script are bracketed after the name ("BTS (방탄소년단)")
+	const artists = artist
+		? splitTitleCredit(
+				stripVideoNoise(artist).replace(BRACKETED_FRAGMENT, '').trim(),
+				channelArtist,
+			)
+		: channelArtist
+			? [channelArtist]
+			: [];
+
+	return {
+		artists,
+		title: stripFeaturing(songTitle) || songTitle || cleaned,
+		featuring: readFeaturedArtists(songTitle).filter(
+			(name) => !artists.includes(name),
+		),
+	};
+}
@@ -7,3 +7,9 @@ interface ImportMetaEnv {
 declare interface ImportMeta {
 	readonly env: ImportMetaEnv;
 }
+
+declare module 'virtual:kuromoji-dictionary' {
+	/** URL of the directory holding kuromoji's dictionary files */
+	const dicPath: string;
+	export default dicPath;
+}
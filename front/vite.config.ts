@@ -1,8 +1,81 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname, join } from 'node:path';
 import react from '@vitejs/plugin-react';
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
+
+/** Where the kuromoji dictionary is served, relative to the base URL */
+const KUROMOJI_DICT_PATH = 'kuromoji/dict/';
+
+/** Module exporting the dictionary URL, imported next to the analyzer */
+const KUROMOJI_DICT_MODULE = 'virtual:kuromoji-dictionary';
+
+/**
+ * Serve kuromoji's dictionary files in development and copy them into the
+ * build. They are passed as raw bytes: the analyzer gunzips them itself.
+ *
+ * The files are only copied by builds that import the dictionary module,
+ * which the app loads lazily with the analyzer.
+ */
+function kuromojiDictionary(): Plugin {
+	const dictDir = join(
+		dirname(createRequire(import.meta.url).resolve('kuromoji/package.json')),
+		'dict',
+	);
+	const files = readdirSync(dictDir).filter((file) => file.endsWith('.gz'));
+
+	let base = '/';
+	let isBuild = false;
+
+	return {
+		name: 'kuromoji-dictionary',
+		configResolved(config) {
+			base = config.base;
+			isBuild = config.command === 'build';
+		},
+		resolveId(id) {
+			return id === KUROMOJI_DICT_MODULE ? `\0${id}` : undefined;
+		},
+		load(id) {
+			if (id !== `\0${KUROMOJI_DICT_MODULE}`) {
+				return undefined;
+			}
+			if (isBuild) {
+				for (const file of files) {
+					this.emitFile({
+						type: 'asset',
+						fileName: `${KUROMOJI_DICT_PATH}${file}`,
+						source: readFileSync(join(dictDir, file)),
+					});
+				}
+			}
+			return `export default ${JSON.stringify(`${base}${KUROMOJI_DICT_PATH}`)};`;
+		},
+		configureServer(server) {
+			const prefix = `${server.config.base}${KUROMOJI_DICT_PATH}`;
+			server.middlewares.use((req, res, next) => {
+				const file = req.url?.startsWith(prefix)
+					? req.url.slice(prefix.length)
+					: undefined;
+				if (!file || !files.includes(file)) {
+					next();
+					return;
+				}
+				res.setHeader('Content-Type', 'application/octet-stream');
+				res.end(readFileSync(join(dictDir, file)));
+			});
+		},
+	};
+}
 
 export default defineConfig({
-	plugins: [react()],
+	plugins: [react(), kuromojiDictionary()],
+	resolve: {
+		alias: {
+			// The package entry needs Node's fs and path; use its browser build
+			kuromoji: 'kuromoji/build/kuromoji.js',
+		},
+	},
 	server: {
 		port: 5173,
 		host: true,
@@ -13,6 +86,11 @@ export default defineConfig({
 				changeOrigin: true,
 				secure: false,
 			},
+			'/resolve': {
+				target: 'http://localhost:3001',
+				changeOrigin: true,
+				secure: false,
+			},
 		},
 	},
 	base: '/spoty2deezer/',